@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Iteration" ADD COLUMN     "revertedAt" TIMESTAMP(3),
+ADD COLUMN     "revertCommitSha" TEXT;
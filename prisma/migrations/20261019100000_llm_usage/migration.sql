@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "InstallationConfig" ADD COLUMN     "dailyBudgetUsd" DOUBLE PRECISION,
+ADD COLUMN     "monthlyBudgetUsd" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "LlmUsage" (
+    "id" TEXT NOT NULL,
+    "installationId" BIGINT NOT NULL,
+    "issueAgentId" TEXT,
+    "phase" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL,
+    "completionTokens" INTEGER NOT NULL,
+    "costUsd" DOUBLE PRECISION NOT NULL,
+    "estimated" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LlmUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_installationId_createdAt_idx" ON "LlmUsage"("installationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_issueAgentId_idx" ON "LlmUsage"("issueAgentId");
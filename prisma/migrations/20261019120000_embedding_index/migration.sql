@@ -0,0 +1,34 @@
+-- DropIndex
+DROP INDEX "FileEmbedding_installationId_owner_repo_path_key";
+
+-- AlterTable
+ALTER TABLE "FileEmbedding" ADD COLUMN     "chunk" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "symbol" TEXT,
+ADD COLUMN     "startLine" INTEGER,
+ADD COLUMN     "endLine" INTEGER;
+
+-- CreateTable
+CREATE TABLE "RepoIndexStatus" (
+    "id" TEXT NOT NULL,
+    "installationId" BIGINT NOT NULL,
+    "owner" TEXT NOT NULL,
+    "repo" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'idle',
+    "commitSha" TEXT,
+    "totalFiles" INTEGER NOT NULL DEFAULT 0,
+    "processedFiles" INTEGER NOT NULL DEFAULT 0,
+    "embeddedFiles" INTEGER NOT NULL DEFAULT 0,
+    "removedFiles" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RepoIndexStatus_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FileEmbedding_installationId_owner_repo_path_chunk_key" ON "FileEmbedding"("installationId", "owner", "repo", "path", "chunk");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RepoIndexStatus_installationId_owner_repo_key" ON "RepoIndexStatus"("installationId", "owner", "repo");
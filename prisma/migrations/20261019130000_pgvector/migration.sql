@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "FileEmbedding" ADD COLUMN     "dims" INTEGER;
+
+-- AlterTable
+ALTER TABLE "IssueEmbedding" ADD COLUMN     "dims" INTEGER;
+
+-- AlterTable
+ALTER TABLE "EmbeddingDocument" ADD COLUMN     "dims" INTEGER,
+ADD COLUMN     "model" TEXT,
+ADD COLUMN     "owner" TEXT,
+ADD COLUMN     "repo" TEXT,
+ADD COLUMN     "scope" TEXT;
+
+-- Backfill dimensions from the JSON copies (the portable storage the brute-force backend reads)
+UPDATE "FileEmbedding" SET "dims" = jsonb_array_length("vector")
+WHERE jsonb_typeof("vector") = 'array' AND jsonb_array_length("vector") > 0;
+
+UPDATE "IssueEmbedding" SET "dims" = jsonb_array_length("vector")
+WHERE jsonb_typeof("vector") = 'array' AND jsonb_array_length("vector") > 0;
+
+UPDATE "EmbeddingDocument" SET "dims" = jsonb_array_length("embedding"::jsonb)
+WHERE "embedding" LIKE '[%]' AND "embedding" <> '[]';
+
+-- CreateIndex
+CREATE INDEX "EmbeddingDocument_owner_repo_idx" ON "EmbeddingDocument"("owner", "repo");
+
+-- pgvector is optional: the ANN columns and HNSW indexes are only created where the extension can be installed.
+-- They are managed here rather than in schema.prisma; without them the vector store falls back to brute force.
+DO $$
+DECLARE
+  t TEXT;
+  d INTEGER;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_available_extensions WHERE "name" = 'vector') THEN
+    RAISE NOTICE 'pgvector is not available; vector search will use the brute-force backend';
+    RETURN;
+  END IF;
+
+  BEGIN
+    CREATE EXTENSION IF NOT EXISTS "vector";
+  EXCEPTION WHEN insufficient_privilege THEN
+    RAISE NOTICE 'Not allowed to create the pgvector extension; vector search will use the brute-force backend';
+    RETURN;
+  END;
+
+  FOREACH t IN ARRAY ARRAY['FileEmbedding', 'IssueEmbedding', 'EmbeddingDocument'] LOOP
+    EXECUTE format('ALTER TABLE %I ADD COLUMN IF NOT EXISTS "vec" vector', t);
+    -- HNSW needs a fixed dimension, so one partial index per supported size
+    FOREACH d IN ARRAY ARRAY[384, 1536] LOOP
+      EXECUTE format('CREATE INDEX IF NOT EXISTS %I ON %I USING hnsw (("vec"::vector(%s)) vector_cosine_ops) WHERE "dims" = %s', t || '_vec_' || d || '_idx', t, d, d);
+    END LOOP;
+  END LOOP;
+
+  -- Backfill the vector columns from the JSON copies
+  UPDATE "FileEmbedding" SET "vec" = ("vector"::text)::vector WHERE "dims" IS NOT NULL;
+  UPDATE "IssueEmbedding" SET "vec" = ("vector"::text)::vector WHERE "dims" IS NOT NULL;
+  UPDATE "EmbeddingDocument" SET "vec" = "embedding"::vector WHERE "dims" IS NOT NULL;
+END $$;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "dependsOn" TEXT[] DEFAULT ARRAY[]::TEXT[];
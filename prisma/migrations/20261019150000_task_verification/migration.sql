@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Task" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "verification" JSONB;
+
+-- Tasks completed before verification existed count as verified
+UPDATE "Task" SET "status" = 'verified' WHERE "status" = 'done';
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "AgentCheckRuns" (
+    "id" TEXT NOT NULL,
+    "agentId" TEXT NOT NULL,
+    "headSha" TEXT NOT NULL,
+    "planCheckId" BIGINT NOT NULL,
+    "execCheckId" BIGINT NOT NULL,
+    "evalCheckId" BIGINT NOT NULL,
+    "securityCheckId" BIGINT NOT NULL,
+    "performanceCheckId" BIGINT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AgentCheckRuns_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AgentCheckRuns_agentId_idx" ON "AgentCheckRuns"("agentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AgentCheckRuns_agentId_headSha_key" ON "AgentCheckRuns"("agentId", "headSha");
@@ -15,3 +15,12 @@ GRANT CONNECT ON DATABASE postgres TO gitautonomic;
 -- Uprawnienia do schematu public w bazie "postgres"
 \connect postgres
 GRANT USAGE, CREATE ON SCHEMA public TO gitautonomic;
+
+-- pgvector (jeśli obraz go zawiera) – tworzenie rozszerzenia wymaga superusera, migracja tylko z niego korzysta
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'vector') THEN
+    CREATE EXTENSION IF NOT EXISTS vector;
+  END IF;
+END
+$$;
@@ -3,19 +3,39 @@ import { decideBatch, terminationReached, updateConfidence } from "./adaptiveCon
 import { reasoningPipeline } from "./reasoningEngine.js";
 import { fetchStrategicBundle, compressStrategic, decayMemories } from "./memoryStore.js";
 import { ContextWindowManager } from "./contextWindowManager.js";
+import { codeSlicer, remapSlicedDiff } from "./codeSlicer.js";
 import { cfg } from "../config.js";
-import { resolveProvider } from "../services/providerResolver.js";
 import { extractPlanTasks } from "../util/planParser.js";
-import { PlanTask } from "../types.js";
+import { PlanTask, HunkApplyResult, ProviderPatchContext, IterationReport } from "../types.js";
 import { WorkspaceManager } from "../git/workspaceManager.js";
+import { openAgentWorkspace } from "../git/agentWorkspace.js";
+import { workspaceCache } from "../git/workspaceCache.js";
 import { parseUnifiedDiff } from "../git/diffParser.js";
 import { applyParsedDiff, stageCommitPush } from "../git/diffApplier.js";
 import { validatePatch } from "./patchValidator.js";
 import { maybeRefinePatch } from "./patchRefiner.js";
+import type { RepoFileService } from "../services/repoFileService.js";
 import { logPatch } from "../services/patchLogService.js";
-import { ensurePullRequest } from "../services/prService.js";
-import { createHash } from 'node:crypto';
-import { getInstallationOctokit } from "../octokit.js";
+import { ensurePullRequest, updatePullRequest } from "../services/prService.js";
+import { securityScanService, SecurityScanResult } from "../services/securityScanService.js";
+import { PolicyEngine, PolicyViolation } from "../services/policyEngine.js";
+import { IntelligentConflictResolver } from "../services/intelligentConflictResolver.js";
+import { usageService } from "../services/usageService.js";
+import { blockAgent, markOutputInvalid, resolveAgentProvider } from "../services/issueAgentService.js";
+import { StructuredOutputError } from "./outputSchemas.js";
+import { embeddingService } from "../services/embeddingService.js";
+import { readyTasks, blockedTasks, stallingFailures, renderTaskGraph } from "./taskGraph.js";
+import { StructuredCommentService, GitHubChecksService } from "../core/communicationService.js";
+import { acceptanceVerifier, VerificationReport } from "../services/acceptanceVerifier.js";
+import { TestRunner, TestRunReport } from "../services/testRunner.js";
+import { TranscriptEntry, sandboxRunner, SandboxUnavailableError } from "../util/sandboxRunner.js";
+import { planSyncService } from "../services/planSyncService.js";
+import { planApprovalService, ApprovalGate } from "../services/planApprovalService.js";
+import type { Task } from "@prisma/client";
+import pino from 'pino';
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+const checks = new GitHubChecksService();
 
 interface ExecResult {
   noChanges?: boolean;
@@ -34,6 +54,22 @@ async function ensureAgentBranch(agentId: string) {
   }
 }
 
+// Lets the three-way apply fallback hand conflict markers to the resolver; needs the agent PR for merge context.
+function conflictResolverFor(agent: { installationId: bigint; owner: string; repo: string; prNumber: number | null }) {
+  if (!agent.prNumber) return undefined;
+  const prNumber = agent.prNumber;
+  const resolver = new IntelligentConflictResolver();
+  return async (file: string, content: string): Promise<string | null> => {
+    try {
+      const analysis = await resolver.resolveConflicts(file, content, agent.installationId.toString(), agent.owner, agent.repo, prNumber);
+      if (!analysis.autoResolvable) return null;
+      return resolver.applyResolutionToContent(content, analysis);
+    } catch {
+      return null;
+    }
+  };
+}
+
 export async function runAdaptiveIteration(agentId: string) {
   const agent = await prisma.issueAgent.findUnique({
     where: { id: agentId },
@@ -43,18 +79,53 @@ export async function runAdaptiveIteration(agentId: string) {
 
   if (terminationReached(agent)) {
     await prisma.issueAgent.update({ where: { id: agent.id }, data: { completed: true } });
+    await updatePullRequest(agent.id);
     return;
   }
 
+  if (await usageService.enforceBudget(agent)) return;
+
+  // Approval arrives by comment, PR review or dashboard; resuming or `run` must not skip it
+  if (await planApprovalService.awaitingApproval(agent.id)) {
+    log.info({ agentId: agent.id }, 'Plan awaiting approval; not executing');
+    return;
+  }
+
+  if (!(await sandboxAvailable(agent))) return;
+
   await ensureAgentBranch(agent.id);
 
-  const pending = agent.tasks.filter((t: any) => t.status === 'pending');
-  if (!pending.length) return;
+  // A crashed iteration leaves its tasks in_progress/applied; hand them back once nothing holds the repo's workspace lock
+  const stale = agent.tasks.filter(t => ['in_progress', 'applied'].includes(t.status) && Date.now() - t.updatedAt.getTime() > cfg.workspace.lockStaleMs);
+  if (stale.length && !(await workspaceCache.isLocked(agent.owner, agent.repo))) {
+    await prisma.task.updateMany({ where: { id: { in: stale.map(t => t.id) } }, data: { status: 'pending' } });
+    stale.forEach(t => { t.status = 'pending'; });
+  }
+
+  // Only tasks whose prerequisites are done are eligible, so dependents never run ahead of their inputs
+  const ready = readyTasks(agent.tasks);
+  if (!ready.length) {
+    const failures = stallingFailures(agent.tasks);
+    if (failures.length) {
+      await blockOnFailedTasks(agent, failures);
+      return;
+    }
+    const blocked = blockedTasks(agent.tasks);
+    if (blocked.length) {
+      log.info({ agentId: agent.id, blocked: blocked.map(b => `${b.task.externalId}<-${b.waitingOn.join(',')}`) }, 'No task ready; waiting on prerequisites');
+    }
+    return;
+  }
+
+  const provider = await resolveAgentProvider(agent);
+  if (!provider) return;
 
-  const batchSize = decideBatch(agent as any, pending as any);
-  const selected = pending
-    .sort((a: any, b: any)=> (a.riskScore ?? 0) - (b.riskScore ?? 0))
+  const batchSize = decideBatch(agent as any, ready as any);
+  const selected = ready
+    .sort((a, b)=> (a.riskScore ?? 0) - (b.riskScore ?? 0) || a.orderIndex - b.orderIndex)
     .slice(0, batchSize);
+  const selectedIds = selected.map(t => t.id);
+  await prisma.task.updateMany({ where: { id: { in: selectedIds } }, data: { status: 'in_progress' } });
 
   const strategicBundle = await fetchStrategicBundle(agent.id);
   const reasoningTrace = await reasoningPipeline({
@@ -67,10 +138,6 @@ export async function runAdaptiveIteration(agentId: string) {
     }
   });
 
-  const provider = await resolveProvider(Number(agent.installationId));
-
-  const octo = await getInstallationOctokit(agent.installationId.toString());
-  
   // Fetch relevant repository files for context
   const { repoFileService } = await import('../services/repoFileService.js');
   const taskPaths = selected.map((t: any) => t.paths || []).flat();
@@ -85,10 +152,16 @@ export async function runAdaptiveIteration(agentId: string) {
   const repoFiles = repoFilesData.map(f => ({ path: f.path, content: f.content }));
 
   const cwm = new ContextWindowManager(30_000);
-  const trimmed = cwm.trimFiles(repoFiles, selected as unknown as PlanTask[]);
+  const similarity = await embeddingService.scoreRepoFiles(
+    { installationId: agent.installationId, owner: agent.owner, repo: agent.repo },
+    selected.map((t: any) => [t.title, t.acceptance].filter(Boolean).join('\n')).join('\n'),
+    repoFiles.map(f => f.path)
+  );
+  const slices = codeSlicer.sliceFiles(repoFiles, selected as unknown as PlanTask[]);
+  const { files: trimmed, report: contextReport } = cwm.packFiles(slices, selected as unknown as PlanTask[], { similarity });
   const reasoningPacked = cwm.packReasoning([reasoningTrace.summary]);
 
-  const patch = await provider.generatePatch({
+  const patchContext: ProviderPatchContext = {
     tasks: selected as unknown as PlanTask[],
     repoSnapshotFiles: trimmed,
     guidance: {
@@ -98,16 +171,20 @@ export async function runAdaptiveIteration(agentId: string) {
       strategicHints: strategicBundle.slice(0,3)
     },
     reasoningChain: [reasoningPacked]
-  });
-
-  if (patch.diff && patch.diff.length > cfg.diff.maxBytes) {
-    // Truncate or mark invalid
-    patch.diff = patch.diff.slice(0, cfg.diff.maxBytes);
-  }
+  };
+  // Hunks were numbered against the sliced context; elided files no longer match their slice map
+  const elided = new Set(contextReport.elided.map(e => e.path));
+  const prepareDiff = async (diff: string) => {
+    if (diff.length > cfg.diff.maxBytes) {
+      // Truncate or mark invalid
+      diff = diff.slice(0, cfg.diff.maxBytes);
+    }
+    diff = remapSlicedDiff(diff, slices.filter(s => !elided.has(s.path)));
+    return maybeRefinePatch(diff, provider, 'execution');
+  };
 
-  if (patch.diff) {
-    patch.diff = await maybeRefinePatch(patch.diff, provider, 'execution');
-  }
+  const patch = await provider.generatePatch(patchContext);
+  if (patch.diff) patch.diff = await prepareDiff(patch.diff);
 
   const execResult: ExecResult = {
     noChanges: patch.noChanges,
@@ -117,41 +194,96 @@ export async function runAdaptiveIteration(agentId: string) {
 
   let applied = false;
   let commitSha: string | undefined;
+  let hunkResults: HunkApplyResult[] = [];
+  let testReport: TestRunReport | null = null;
+  let transcript: TranscriptEntry[] = [];
+  let securityResults: SecurityScanResult[] | undefined;
+  const reports = new Map<string, VerificationReport>();
   let validation = { ok: true, reasons: [] as string[], fileStats: { added:0,deleted:0,modified:0,created:0,deletedFiles:0,renamed:0,largeFileTouches:[] as string[] } };
 
   if (execResult.diff && execResult.diff.trim()) {
-    const parsed = parseUnifiedDiff(execResult.diff);
+    let parsed = parseUnifiedDiff(execResult.diff);
     validation = validatePatch(parsed);
     if (validation.ok) {
       // workspace flow
       const wm = new WorkspaceManager();
-      const cloneUrl = `https://x-access-token:${(octo as any).auth.token}@github.com/${agent.owner}/${agent.repo}.git`;
-      const ws = await wm.ensureWorkspace({
-        owner: agent.owner,
-        repo: agent.repo,
-        branch: agent.branchName,
-        cloneUrl,
-        installationToken: (octo as any).auth.token
-      });
-      const { failed } = await applyParsedDiff(ws, parsed);
-      if (!failed.length) {
-        await wm.stageAll(ws);
-        commitSha = await wm.commit(ws, `agent: tasks ${selected.map((t: any)=>t.externalId).join(', ')}`);
-        if (commitSha && !commitSha.startsWith('fatal')) {
-          await wm.push(ws, agent.branchName);
-          applied = true;
-          if (cfg.git.autoPRCreate) {
-            await ensurePullRequest({
-              installationId: Number(agent.installationId),
-              owner: agent.owner,
-              repo: agent.repo,
-              agentId: agent.id
-            });
+      const ws = await openAgentWorkspace(agent, wm);
+      try {
+        const applyOptions = { resolveConflicts: conflictResolverFor(agent) };
+        let { failed, hunkResults: hunks } = await applyParsedDiff(ws, parsed, applyOptions);
+        // Nothing is pushed until the tests pass; failures go back to the model for a bounded number of fix-ups
+        const tests = cfg.testRun.enabled ? new TestRunner(ws) : null;
+        for (let fixAttempt = 1; tests && !failed.length; fixAttempt++) {
+          testReport = await tests.check();
+          if (!testReport || testReport.passed || fixAttempt > cfg.testRun.maxFixAttempts) break;
+          const fix = await provider.generatePatch({
+            ...patchContext,
+            testFeedback: { command: testReport.command, output: testReport.output, previousDiff: execResult.diff }
+          });
+          if (fix.noChanges || !fix.diff?.trim()) break;
+          const fixDiff = await prepareDiff(fix.diff);
+          const fixParsed = parseUnifiedDiff(fixDiff);
+          const fixValidation = validatePatch(fixParsed);
+          if (!fixValidation.ok) {
+            validation.reasons.push(...fixValidation.reasons.map(r => `fixup_invalid:${r}`));
+            break;
           }
+          await tests.reset();
+          execResult.diff = fixDiff;
+          parsed = fixParsed;
+          validation = fixValidation;
+          ({ failed, hunkResults: hunks } = await applyParsedDiff(ws, parsed, applyOptions));
+          log.info({ agentId: agent.id, fixAttempt, failed: testReport.failed }, 'Applied test fix-up patch');
         }
-      } else {
-        validation.reasons.push('apply_failed:' + failed.join(','));
-        validation.ok = false;
+        hunkResults = hunks;
+        if (failed.length) {
+          validation.reasons.push('apply_failed:' + failed.join(','));
+          for (const h of hunks.filter(h => !h.applied)) {
+            validation.reasons.push(`hunk_failed:${h.file}#${h.index}:${h.reason}`);
+          }
+          validation.ok = false;
+        } else if (testReport && !testReport.passed) {
+          const counts = testReport.failed !== undefined ? `${testReport.failed} failed${testReport.baselineFailed !== undefined ? `, ${testReport.baselineFailed} before the patch` : ''}` : `exit ${testReport.exitCode}`;
+          validation.reasons.push(`tests_failed:${testReport.timedOut ? 'timeout' : counts}`);
+          validation.ok = false;
+        } else {
+          await wm.stageAll(ws);
+          const commit = await wm.commit(ws, `agent: tasks ${selected.map((t: any)=>t.externalId).join(', ')}`);
+          // Plan document updates are committed through the API meanwhile, so the branch may have moved
+          const pushed = commit.ok ? await wm.pushRebased(ws, agent.branchName) : null;
+          if (!commit.ok) {
+            validation.reasons.push(`commit_failed:${commit.error}`);
+            validation.ok = false;
+          } else if (pushed && !pushed.result.ok) {
+            validation.reasons.push(`push_failed:${pushed.result.timedOut ? 'timeout' : pushed.result.exitCode}`);
+            validation.ok = false;
+          } else if (pushed) {
+            // Only a pushed commit is recorded; a local one disappears with the next checkout
+            commitSha = pushed.sha ?? commit.sha;
+            applied = true;
+            if (cfg.git.autoPRCreate) {
+              await ensurePullRequest({
+                installationId: Number(agent.installationId),
+                owner: agent.owner,
+                repo: agent.repo,
+                agentId: agent.id
+              });
+            }
+            await prisma.task.updateMany({ where: { id: { in: selectedIds } }, data: { status: 'applied' } });
+            await checks.startIterationChecks(agent.id, commitSha!, { version: agent.planVersion, tasks: agent.tasks });
+            if (cfg.security.scanIterations) securityResults = await scanPushedDiff(ws.root, execResult.diff);
+            // Verified in the same checkout, so acceptance commands see exactly what was pushed
+            if (cfg.verification.enabled) {
+              for (const task of selected) {
+                const planTask = { ...task, id: task.externalId } as unknown as PlanTask;
+                reports.set(task.id, await acceptanceVerifier.verify(planTask, { workspace: ws, diff: execResult.diff, provider }));
+              }
+            }
+          }
+        }
+      } finally {
+        transcript = ws.transcript.entries;
+        await ws.release();
       }
     }
   }
@@ -163,19 +295,82 @@ export async function runAdaptiveIteration(agentId: string) {
     diff: execResult.diff || '',
     validation,
     applied,
-    commitSha
+    commitSha,
+    hunkResults
   });
 
-  const success = applied && !execResult.noChanges;
+  const { verified, failed } = await settleTasks(selected, applied && !execResult.noChanges, reports);
+  for (const task of selected.filter(t => failed.includes(t.externalId))) {
+    const failing = reports.get(task.id)?.results.find(r => !r.ok);
+    validation.reasons.push(`acceptance_failed:${task.externalId}:${failing?.criterion ?? ''} (${failing?.detail ?? ''})`);
+  }
+  const success = applied && !execResult.noChanges && !failed.length;
   const newConfidence = updateConfidence(agent.confidence, success);
+  const stats = validation.fileStats;
+  const report: IterationReport = {
+    validation: { ok: validation.ok, reasons: validation.reasons, added: stats.added, deleted: stats.deleted, files: stats.modified + stats.created + stats.deletedFiles },
+    tests: testReport ? {
+      command: testReport.command,
+      passed: testReport.passed,
+      failed: testReport.failed,
+      baselineFailed: testReport.baselineFailed,
+      durationMs: testReport.durationMs
+    } : undefined,
+    security: securityResults && summarizeSecurity(securityResults),
+    coverage: testReport?.coverage
+  };
+  // Iteration rows are what `@ai-bot rollback` reverts, so keep the commit and confidence delta
+  await prisma.iteration.create({
+    data: {
+      id: `${agent.id}_iter_${agent.iterations}`,
+      issueAgentId: agent.id,
+      number: agent.iterations,
+      executedTasks: selected.map((t: any) => t.externalId),
+      commitSha: applied ? commitSha : null,
+      success,
+      deltaConfidence: newConfidence - agent.confidence,
+      errorMessage: validation.reasons.length ? validation.reasons.join('; ').slice(0, 1000) : null,
+      contextReport: contextReport as any,
+      transcript: transcript.length ? transcript as any : undefined,
+      report: report as any
+    }
+  });
   await prisma.issueAgent.update({
     where: { id: agent.id },
     data: {
       confidence: newConfidence,
       iterations: agent.iterations + 1,
-      lastIterAt: new Date()
+      doneTasks: agent.doneTasks + verified.length,
+      lastIterAt: new Date(),
+      // Coverage of the last passing run that reported it
+      ...(testReport?.passed && testReport.coverage ? {
+        coverageLines: testReport.coverage.lines ?? null,
+        coverageStmts: testReport.coverage.statements ?? null,
+        coverageBranches: testReport.coverage.branches ?? null,
+        coverageFuncs: testReport.coverage.functions ?? null
+      } : {})
     }
   });
+  await planSyncService.refresh(agent.id);
+  await updatePullRequest(agent.id);
+
+  if (cfg.checks.enabled && execResult.diff?.trim()) {
+    const checkResult = {
+      iteration: agent.iterations,
+      commitSha: applied ? commitSha : undefined,
+      tasks: selected,
+      verified,
+      failed,
+      report,
+      hunkResults,
+      policyViolations: await policyViolationsFor(agent, repoFileService, execResult.diff),
+      securityResults,
+      largeFiles: stats.largeFileTouches,
+      previousTestMs: await previousTestDuration(agent.id, agent.iterations)
+    };
+    if (applied && commitSha) await checks.finishIterationChecks(agent.id, commitSha, checkResult);
+    else await checks.recordFailedIteration(agent.id, checkResult);
+  }
 
   if ((agent.iterations + 1) % cfg.memory.compressionEvery === 0) {
     await compressStrategic(agent.id);
@@ -183,12 +378,134 @@ export async function runAdaptiveIteration(agentId: string) {
   await decayMemories(agent.id);
 }
 
+// Tasks that exhausted their acceptance attempts never become verified, so neither they nor their dependents can finish
+async function blockOnFailedTasks(agent: { id: string; installationId: bigint; owner: string; repo: string; issueNumber: number; tasks: Task[] }, failed: Task[]) {
+  const waiting = blockedTasks(agent.tasks);
+  const details = failed.map(t => {
+    const dependents = waiting.filter(b => b.waitingOn.includes(t.externalId)).map(b => b.task.externalId);
+    return `${t.externalId}: ${t.title} (${t.attempts} attempt(s))${dependents.length ? `; blocks ${dependents.join(', ')}` : ''}`;
+  });
+  log.warn({ agentId: agent.id, failed: failed.map(t => t.externalId) }, 'Only failed tasks and their dependents remain; pausing');
+  await blockAgent(agent, 'tasks_failed', {
+    type: 'TASKS_FAILED',
+    message: `${failed.length} task(s) failed acceptance after ${cfg.verification.maxAttempts} attempt(s) and nothing else can proceed; the agent is paused.`,
+    details: details.join('\n'),
+    recoveryActions: [
+      'Edit the plan to reword, split or drop the failed tasks',
+      'Resume with @ai-bot resume to retry the failed tasks'
+    ]
+  });
+  await updatePullRequest(agent.id);
+}
+
+// Iterations run repository code; without isolation the agent stops instead of running it on the worker
+async function sandboxAvailable(agent: { id: string; installationId: bigint; owner: string; repo: string; issueNumber: number }): Promise<boolean> {
+  try {
+    await sandboxRunner.backend();
+    return true;
+  } catch (error) {
+    if (!(error instanceof SandboxUnavailableError)) throw error;
+    await blockAgent(agent, 'sandbox_unavailable', {
+      type: 'SANDBOX_UNAVAILABLE',
+      message: 'Repository commands cannot be isolated on this worker, so the agent will not run tests or acceptance checks.',
+      details: error.reason,
+      recoveryActions: [
+        'Install bubblewrap on the worker and allow unprivileged user namespaces',
+        'Or set SANDBOX_MODE=rlimit to run commands without filesystem isolation',
+        'Resume with @ai-bot resume once fixed'
+      ]
+    });
+    return false;
+  }
+}
+
+// Findings are reported in the PR and the ai-security check, not enforced
+async function scanPushedDiff(root: string, diff = ''): Promise<SecurityScanResult[] | undefined> {
+  try {
+    return await securityScanService.scanDiff(root, diff);
+  } catch (error) {
+    log.warn(`Security scan of the pushed diff failed: ${error}`);
+    return undefined;
+  }
+}
+
+// A scanner that cannot run is left out of `tools`
+function summarizeSecurity(results: SecurityScanResult[]): IterationReport['security'] {
+  const ran = results.filter(r => !r.findings.some(f => f.category === 'tool-error'));
+  const blockers = ran.flatMap(r => r.blockers);
+  return {
+    tools: [...new Set(ran.map(r => r.tool))],
+    findings: ran.reduce((n, r) => n + r.findings.length, 0),
+    blockers: [...new Set(blockers.map(b => `${b.title} (${b.file}${b.line ? `:${b.line}` : ''})`))]
+  };
+}
+
+// Policies come from the repository's .aiagent-ownership.yml; without one there is nothing to violate
+async function policyViolationsFor(
+  agent: { installationId: bigint; owner: string; repo: string },
+  files: Pick<RepoFileService, 'getConfigFiles'>,
+  diff: string
+): Promise<PolicyViolation[]> {
+  try {
+    const config = await files.getConfigFiles(agent.installationId.toString(), agent.owner, agent.repo);
+    return config.ownership ? PolicyEngine.fromConfig(config.ownership).findViolations(parseUnifiedDiff(diff)) : [];
+  } catch (error) {
+    log.warn(`Could not check the patch against repository policies: ${error}`);
+    return [];
+  }
+}
+
+async function previousTestDuration(agentId: string, iteration: number): Promise<number | undefined> {
+  const previous = await prisma.iteration.findMany({
+    where: { issueAgentId: agentId, number: { lt: iteration } },
+    orderBy: { number: 'desc' },
+    take: 5,
+    select: { report: true }
+  });
+  return previous.map(p => (p.report as IterationReport | null)?.tests?.durationMs).find(ms => ms !== undefined);
+}
+
+/**
+ * Moves an iteration's tasks out of in_progress: `verified` when every acceptance check passed,
+ * back to `pending` for another attempt, or `failed` after cfg.verification.maxAttempts failures.
+ * Tasks of an iteration that applied nothing simply return to `pending`.
+ */
+async function settleTasks(tasks: Task[], applied: boolean, reports: Map<string, VerificationReport>) {
+  const verified: string[] = [];
+  const failed: string[] = [];
+  if (!applied) {
+    await prisma.task.updateMany({ where: { id: { in: tasks.map(t => t.id) } }, data: { status: 'pending' } });
+    return { verified, failed };
+  }
+  for (const task of tasks) {
+    const report = reports.get(task.id);
+    if (!report || report.ok) {
+      verified.push(task.externalId);
+      await prisma.task.update({ where: { id: task.id }, data: { status: 'verified', verification: report as any } });
+      continue;
+    }
+    failed.push(task.externalId);
+    const attempts = task.attempts + 1;
+    await prisma.task.update({
+      where: { id: task.id },
+      data: { status: attempts >= cfg.verification.maxAttempts ? 'failed' : 'pending', attempts, verification: report as any }
+    });
+  }
+  return { verified, failed };
+}
+
 export async function ensurePlan(agentId: string) {
-  const agent = await prisma.issueAgent.findUnique({ where: { id: agentId } });
+  const agent = await prisma.issueAgent.findUnique({ where: { id: agentId }, include: { tasks: { select: { id: true } } } });
   if (!agent) return;
-  if (agent.planCommitSha) return;
+  if (agent.tasks.length) {
+    // Planned, but publishing the plan failed last time
+    if (!agent.planCommitSha) await planSyncService.refresh(agent.id);
+    return;
+  }
+  if (await usageService.enforceBudget(agent)) return;
 
-  const provider = await resolveProvider(Number(agent.installationId));
+  const provider = await resolveAgentProvider(agent);
+  if (!provider) return;
   const strategicBundle = await fetchStrategicBundle(agent.id);
   
   // Fetch repository files for planning context
@@ -203,21 +520,30 @@ export async function ensurePlan(agentId: string) {
   );
   const repoFiles = repoSnapshot.files.map(f => f.path);
   
-  const planRaw = await provider.generatePlan({
-    issueTitle: agent.issueTitle,
-    issueBody: '<hidden>',
-    repoFiles,
-    historicalSignals: {
-      previousPlanExists: !!agent.planCommitSha,
-      iterations: agent.iterations,
-      doneTasks: agent.doneTasks,
-      totalTasks: agent.totalTasks,
-      confidence: agent.confidence
-    },
-    strategicMemories: strategicBundle
-  });
-
-  const tasks = extractPlanTasks(planRaw);
+  let planRaw: string;
+  let tasks: PlanTask[];
+  try {
+    planRaw = await provider.generatePlan({
+      issueTitle: agent.issueTitle,
+      issueBody: '<hidden>',
+      repoFiles,
+      historicalSignals: {
+        previousPlanExists: agent.tasks.length > 0,
+        iterations: agent.iterations,
+        doneTasks: agent.doneTasks,
+        totalTasks: agent.totalTasks,
+        confidence: agent.confidence
+      },
+      strategicMemories: strategicBundle
+    });
+    tasks = extractPlanTasks(planRaw);
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      await markOutputInvalid(agent, error);
+      return;
+    }
+    throw error;
+  }
   for (let i=0;i<tasks.length;i++){
     const t = tasks[i];
     if (!t) continue;
@@ -230,6 +556,7 @@ export async function ensurePlan(agentId: string) {
         title: t.title,
         type: t.type,
         paths: t.paths,
+        dependsOn: t.dependsOn ?? [],
         riskScore: t.riskScore ?? 0.3,
         origin: 'initial',
         status: 'pending',
@@ -242,9 +569,40 @@ export async function ensurePlan(agentId: string) {
     where: { id: agent.id },
     data: {
       totalTasks: tasks.length,
-      planVersion: agent.planVersion + 1,
-      planHash: createHash('sha256').update(planRaw).digest('hex'),
-      planCommitSha: 'local-generated'
+      planVersion: agent.planVersion + 1
     }
   });
+  await planSyncService.refresh(agent.id);
+  const approval = await planApprovalService.gate(agent, agent.planVersion + 1, tasks);
+  // Reviewers can approve the draft PR that carries the plan
+  if (approval.required && cfg.git.autoPRCreate) {
+    await ensurePullRequest({ installationId: Number(agent.installationId), owner: agent.owner, repo: agent.repo, agentId: agent.id });
+  }
+  await postPlanComment(agent, agent.planVersion + 1, tasks, approval);
+}
+
+function planRiskLevel(tasks: PlanTask[]): string {
+  const max = Math.max(...tasks.map(t => t.riskScore ?? 0.3));
+  return max >= 0.7 ? 'high' : max >= 0.4 ? 'medium' : 'low';
+}
+
+async function postPlanComment(agent: { id: string; installationId: bigint; owner: string; repo: string; issueNumber: number }, version: number, tasks: PlanTask[], approval: ApprovalGate) {
+  await new StructuredCommentService().postStructuredComment(
+    agent.installationId.toString(),
+    agent.owner,
+    agent.repo,
+    agent.issueNumber,
+    {
+      type: 'plan',
+      agentId: agent.id,
+      data: {
+        version,
+        taskCount: tasks.length,
+        riskLevel: planRiskLevel(tasks),
+        tasks,
+        graph: tasks.some(t => t.dependsOn?.length) ? renderTaskGraph(tasks) : undefined,
+        approval: approval.required ? approval : undefined
+      }
+    }
+  );
 }
@@ -0,0 +1,218 @@
+// Symbol-level slicing of JS/TS files for patch prompts, with a line map back to the real file
+import { parse } from '@babel/parser';
+import pino from 'pino';
+import { PlanTask } from '../types.js';
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+const SLICEABLE = /\.(?:[cm]?[jt]s|[jt]sx)$/;
+const IDENTIFIER = /[A-Za-z_$][\w$]*/g;
+
+/** A run of `lines` lines that sits at `sliceStart` in the slice and at `fileStart` in the file (1-based). */
+export interface SliceSegment {
+  sliceStart: number;
+  fileStart: number;
+  lines: number;
+}
+
+export interface CodeSlice {
+  path: string;
+  content: string;
+  sliced: boolean;
+  symbols: string[];
+  segments: SliceSegment[];
+}
+
+export interface Declaration {
+  names: string[];
+  start: number;
+  end: number;
+  signature: string;
+  members: Declaration[];
+}
+
+type SliceTask = Pick<PlanTask, 'title' | 'acceptance'>;
+
+function wholeFile(path: string, content: string): CodeSlice {
+  return { path, content, sliced: false, symbols: [], segments: [{ sliceStart: 1, fileStart: 1, lines: content.split('\n').length }] };
+}
+
+function declarationNames(node: any): string[] {
+  const target = node.type === 'ExportNamedDeclaration' || node.type === 'ExportDefaultDeclaration' ? node.declaration : node;
+  if (!target) return [];
+  if (target.id?.name) return [target.id.name];
+  if (target.type === 'VariableDeclaration') {
+    return target.declarations.map((d: any) => d.id?.name).filter(Boolean);
+  }
+  return node.type === 'ExportDefaultDeclaration' ? ['default'] : [];
+}
+
+function classMembers(node: any, lines: string[]): Declaration[] {
+  const target = node.declaration ?? node;
+  if (target?.type !== 'ClassDeclaration') return [];
+  return target.body.body
+    .filter((m: any) => m.key?.name && m.loc)
+    .map((m: any) => ({
+      names: [m.key.name],
+      start: m.loc.start.line,
+      end: m.loc.end.line,
+      signature: signatureOf(lines[m.loc.start.line - 1] ?? ''),
+      members: []
+    }));
+}
+
+function signatureOf(line: string): string {
+  return line.trim().replace(/\s*[{=]\s*$/, '').slice(0, 120);
+}
+
+/** Import ranges and top-level declarations (1-based, inclusive, leading comments included); null if unparseable. */
+export function outlineModule(path: string, content: string): { imports: Array<[number, number]>; declarations: Declaration[] } | null {
+  if (!SLICEABLE.test(path)) return null;
+  const lines = content.split('\n');
+  let program: any;
+  try {
+    program = parse(content, {
+      sourceType: 'module',
+      errorRecovery: true,
+      plugins: /x$/.test(path) ? ['typescript', 'jsx'] : ['typescript']
+    }).program;
+  } catch (error) {
+    log.debug(`Cannot outline ${path}: ${error}`);
+    return null;
+  }
+
+  const imports: Array<[number, number]> = [];
+  const declarations: Declaration[] = [];
+  for (const node of program.body) {
+    if (!node.loc) continue;
+    const start = (node.leadingComments?.[0]?.loc?.start.line as number | undefined) ?? node.loc.start.line;
+    if (node.type === 'ImportDeclaration') {
+      imports.push([start, node.loc.end.line]);
+      continue;
+    }
+    const names = declarationNames(node);
+    if (!names.length) continue;
+    declarations.push({ names, start, end: node.loc.end.line, signature: signatureOf(lines[node.loc.start.line - 1] ?? ''), members: classMembers(node, lines) });
+  }
+  return { imports, declarations };
+}
+
+/**
+ * Cuts a file down to the declarations a task names (and the top-level ones those use), keeping
+ * every import. Omitted code is replaced by one-line markers that carry the real line numbers and
+ * the signatures that were left out.
+ */
+export class CodeSlicer {
+  constructor(private minLines = 120) {}
+
+  slice(file: { path: string; content: string }, tasks: SliceTask[]): CodeSlice {
+    const lines = file.content.split('\n');
+    if (!SLICEABLE.test(file.path) || lines.length < this.minLines) return wholeFile(file.path, file.content);
+
+    const outline = outlineModule(file.path, file.content);
+    if (!outline) return wholeFile(file.path, file.content);
+    const { imports, declarations } = outline;
+
+    const wanted = new Set(tasks.flatMap(t => `${t.title} ${t.acceptance ?? ''}`.match(IDENTIFIER) ?? []));
+    const ranges: Array<[number, number]> = [...imports];
+    const symbols: string[] = [];
+    const included = new Set<Declaration>();
+    const include = (decl: Declaration) => {
+      if (included.has(decl)) return;
+      included.add(decl);
+      ranges.push([decl.start, decl.end]);
+      symbols.push(decl.names[0]!);
+    };
+
+    for (const decl of declarations) {
+      if (decl.names.some(n => wanted.has(n))) {
+        include(decl);
+        continue;
+      }
+      // A task naming one method gets the class header, that method and the closing brace
+      const method = decl.members.find(m => wanted.has(m.names[0]!));
+      if (method) {
+        ranges.push([decl.start, decl.start], [method.start, method.end], [decl.end, decl.end]);
+        symbols.push(`${decl.names[0]}.${method.names[0]}`);
+      }
+    }
+    if (!symbols.length) return wholeFile(file.path, file.content);
+
+    // One level of same-file dependencies, e.g. the types a referenced function uses
+    for (const decl of [...included]) {
+      const body = new Set(lines.slice(decl.start - 1, decl.end).join('\n').match(IDENTIFIER) ?? []);
+      declarations.filter(d => d !== decl && d.names.some(n => body.has(n))).forEach(include);
+    }
+
+    return this.render(file.path, lines, ranges, declarations, symbols);
+  }
+
+  sliceFiles(files: { path: string; content: string }[], tasks: SliceTask[]): CodeSlice[] {
+    return files.map(f => this.slice(f, tasks));
+  }
+
+  private render(path: string, lines: string[], ranges: Array<[number, number]>, declarations: Declaration[], symbols: string[]): CodeSlice {
+    const merged: Array<[number, number]> = [];
+    for (const [start, end] of ranges.sort((a, b) => a[0] - b[0])) {
+      const last = merged.at(-1);
+      if (last && start <= last[1] + 1) last[1] = Math.max(last[1], end);
+      else merged.push([start, end]);
+    }
+
+    const out: string[] = [];
+    const segments: SliceSegment[] = [];
+    const omit = (from: number, to: number) => {
+      if (from > to) return;
+      const hidden = declarations
+        .filter(d => d.start >= from && d.start <= to)
+        .map(d => d.signature);
+      out.push(`// ... lines ${from}-${to} omitted${hidden.length ? `: ${hidden.join('; ')}` : ''}`);
+    };
+    let next = 1;
+    for (const [start, end] of merged) {
+      omit(next, start - 1);
+      segments.push({ sliceStart: out.length + 1, fileStart: start, lines: end - start + 1 });
+      out.push(...lines.slice(start - 1, end));
+      next = end + 1;
+    }
+    omit(next, lines.length);
+    return { path, content: out.join('\n'), sliced: true, symbols, segments };
+  }
+}
+
+/** Maps a 1-based line of the slice to the real file; marker lines map to the code that follows them. */
+export function sliceLineToFileLine(slice: CodeSlice, line: number): number {
+  if (line <= 0) return line;
+  for (const seg of slice.segments) {
+    if (line < seg.sliceStart) return seg.fileStart;
+    if (line < seg.sliceStart + seg.lines) return seg.fileStart + (line - seg.sliceStart);
+  }
+  const last = slice.segments.at(-1);
+  return last ? last.fileStart + last.lines : line;
+}
+
+/**
+ * Rewrites hunk headers of a diff written against sliced context so their line numbers point
+ * into the real files. Files that were not sliced pass through unchanged.
+ */
+export function remapSlicedDiff(diff: string, slices: CodeSlice[]): string {
+  const byPath = new Map(slices.filter(s => s.sliced).map(s => [s.path, s]));
+  if (!byPath.size || !diff) return diff;
+
+  let current: CodeSlice | undefined;
+  return diff.split('\n').map(line => {
+    const header = /^diff --git a\/(\S+) b\/(\S+)/.exec(line) ?? /^--- a\/(\S+)/.exec(line);
+    if (header) {
+      current = byPath.get(header[1]!);
+      return line;
+    }
+    const hunk = /^@@ -(\d+)(,\d+)? \+(\d+)(,\d+)? @@(.*)$/.exec(line);
+    if (!hunk || !current) return line;
+    const oldStart = Number(hunk[1]);
+    const mapped = sliceLineToFileLine(current, oldStart);
+    const newStart = Math.max(0, Number(hunk[3]) + (mapped - oldStart));
+    return `@@ -${mapped}${hunk[2] ?? ''} +${newStart}${hunk[4] ?? ''} @@${hunk[5]}`;
+  }).join('\n');
+}
+
+export const codeSlicer = new CodeSlicer();
@@ -1,4 +1,6 @@
+import path from 'node:path';
 import { cfg } from '../config.js';
+import { PlanTask } from '../types.js';
 
 export interface Chunk {
   id: string;
@@ -6,6 +8,58 @@ export interface Chunk {
   tokenEstimate: number;
 }
 
+export interface SnapshotFile {
+  path: string;
+  content: string;
+}
+
+/** Extra ranking input; `similarity` maps paths to task/file embedding cosine similarity. */
+export interface RelevanceSignals {
+  similarity?: Record<string, number>;
+}
+
+export type RelevanceReason = 'task_path' | 'import_neighbour' | 'similar' | 'other';
+
+export interface RankedFile extends SnapshotFile {
+  score: number;
+  reason: RelevanceReason;
+  tokens: number;
+}
+
+/** What a packing pass kept, shortened and left out, for logging with the iteration. */
+export interface ContextPackReport {
+  budgetTokens: number;
+  usedTokens: number;
+  whole: string[];
+  elided: Array<{ path: string; tokens: number; keptTokens: number }>;
+  dropped: Array<{ path: string; tokens: number; reason: RelevanceReason }>;
+}
+
+const IMPORT_PATTERN = /(?:import|export)\s[^'"]*?from\s*['"]([^'"]+)['"]|import\s*\(\s*['"]([^'"]+)['"]\s*\)|require\s*\(\s*['"]([^'"]+)['"]\s*\)|^\s*import\s+['"]([^'"]+)['"]/gm;
+
+// Drops extensions and trailing /index so `./util.js`, `./util.ts` and `./util/index.ts` compare equal
+function moduleKey(filePath: string): string {
+  return filePath.replace(/\.(d\.ts|[cm]?[jt]sx?)$/, '').replace(/\/index$/, '');
+}
+
+/** Repository-relative module keys imported by `file` through relative specifiers. */
+export function relativeImports(file: SnapshotFile): string[] {
+  const keys: string[] = [];
+  for (const match of file.content.matchAll(IMPORT_PATTERN)) {
+    const spec = match[1] ?? match[2] ?? match[3] ?? match[4];
+    if (!spec || !spec.startsWith('.')) continue;
+    keys.push(moduleKey(path.posix.join(path.posix.dirname(file.path), spec)));
+  }
+  return keys;
+}
+
+function matchesTaskPath(filePath: string, taskPaths: string[]): boolean {
+  return taskPaths.some(p => {
+    const target = p.replace(/^\.\//, '').replace(/\/+$/, '');
+    return !!target && (filePath === target || filePath.startsWith(`${target}/`));
+  });
+}
+
 export class ContextWindowManager {
   maxTokens: number;
   safetyMargin: number;
@@ -46,13 +100,99 @@ export class ContextWindowManager {
     return { text: prefix + body.slice(0, bodyAllowed) + suffix, truncated: true };
   }
   
-  // Missing methods required by adaptiveLoop.ts
-  trimFiles(files: { path: string; content: string }[], tasks: any[]): { path: string; content: string }[] {
-    // Simple implementation: trim each file individually
-    return files.map(file => ({
-      path: file.path,
-      content: this.trimToFit('', file.content).text
-    }));
+  /** Orders files by relevance: explicit task paths, then their import neighbours, then embedding similarity. */
+  rankFiles(files: SnapshotFile[], tasks: Pick<PlanTask, 'paths'>[], signals: RelevanceSignals = {}): RankedFile[] {
+    const taskPaths = tasks.flatMap(t => t.paths ?? []);
+    const targets = files.filter(f => matchesTaskPath(f.path, taskPaths));
+    const targetKeys = new Set(targets.map(f => moduleKey(f.path)));
+    const neighbours = new Set(targets.flatMap(relativeImports));
+    for (const f of files) {
+      if (relativeImports(f).some(k => targetKeys.has(k))) neighbours.add(moduleKey(f.path));
+    }
+
+    const ranked = files.map((f, index) => {
+      const similarity = Math.max(0, signals.similarity?.[f.path] ?? 0);
+      let score = similarity * 0.5;
+      let reason: RelevanceReason = similarity > 0 ? 'similar' : 'other';
+      if (targetKeys.has(moduleKey(f.path))) {
+        score += 2;
+        reason = 'task_path';
+      } else if (neighbours.has(moduleKey(f.path))) {
+        score += 1;
+        reason = 'import_neighbour';
+      }
+      return { ...f, score, reason, tokens: this.estimateTokens(f.content), index };
+    });
+    ranked.sort((a, b) => b.score - a.score || a.tokens - b.tokens || a.index - b.index);
+    return ranked.map(({ index: _index, ...f }) => f);
+  }
+
+  /**
+   * Packs the most relevant files into one shared token budget. Files that fit are kept whole;
+   * files over `maxFileShare` of the budget are elided to their head and tail; the rest are dropped.
+   */
+  packFiles(
+    files: SnapshotFile[],
+    tasks: Pick<PlanTask, 'paths'>[],
+    signals: RelevanceSignals = {},
+    opts: { maxFileShare?: number; minElidedTokens?: number } = {}
+  ): { files: SnapshotFile[]; report: ContextPackReport } {
+    const budget = Math.floor(this.maxTokens * (1 - this.safetyMargin));
+    const perFileCap = Math.floor(budget * (opts.maxFileShare ?? 0.35));
+    const minElided = opts.minElidedTokens ?? 200;
+    const report: ContextPackReport = { budgetTokens: budget, usedTokens: 0, whole: [], elided: [], dropped: [] };
+    const packed: SnapshotFile[] = [];
+
+    for (const file of this.rankFiles(files, tasks, signals)) {
+      const remaining = budget - report.usedTokens;
+      const overhead = this.estimateTokens(file.path) + 4;
+      if (file.tokens + overhead <= Math.min(remaining, perFileCap)) {
+        packed.push({ path: file.path, content: file.content });
+        report.whole.push(file.path);
+        report.usedTokens += file.tokens + overhead;
+        continue;
+      }
+      const allowed = Math.min(remaining, perFileCap) - overhead;
+      if (allowed >= minElided) {
+        const content = this.elide(file.content, allowed);
+        const keptTokens = this.estimateTokens(content);
+        packed.push({ path: file.path, content });
+        report.elided.push({ path: file.path, tokens: file.tokens, keptTokens });
+        report.usedTokens += keptTokens + overhead;
+        continue;
+      }
+      report.dropped.push({ path: file.path, tokens: file.tokens, reason: file.reason });
+    }
+    return { files: packed, report };
+  }
+
+  /** Keeps whole lines from the head (two thirds) and tail of `content` within `maxTokens`. */
+  elide(content: string, maxTokens: number): string {
+    if (this.estimateTokens(content) <= maxTokens) return content;
+    const lines = content.split('\n');
+    const budgetChars = Math.max(0, maxTokens * 4 - 40);
+    const head: string[] = [];
+    const tail: string[] = [];
+    let used = 0;
+    for (const line of lines) {
+      if (used + line.length + 1 > budgetChars * 2 / 3) break;
+      head.push(line);
+      used += line.length + 1;
+    }
+    for (let i = lines.length - 1; i >= head.length; i--) {
+      const line = lines[i]!;
+      if (used + line.length + 1 > budgetChars) break;
+      tail.unshift(line);
+      used += line.length + 1;
+    }
+    // Minified or single-line files have no usable line boundaries
+    if (!head.length && !tail.length) return content.slice(0, budgetChars) + '\n... [truncated] ...';
+    const omitted = lines.length - head.length - tail.length;
+    return [...head, `... [${omitted} lines elided] ...`, ...tail].join('\n');
+  }
+
+  trimFiles(files: SnapshotFile[], tasks: Pick<PlanTask, 'paths'>[], signals: RelevanceSignals = {}): SnapshotFile[] {
+    return this.packFiles(files, tasks, signals).files;
   }
   
   packReasoning(summaries: string[]): string {
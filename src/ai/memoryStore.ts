@@ -35,7 +35,7 @@ export class MemoryStore {
     
     try {
       // Generate embedding using the embedding service
-      const embedding = await embeddingService.generateEmbedding(content, { type, ...meta });
+      const embedding = await embeddingService.generateEmbedding(content, { type, ...meta, memoryId: id });
       const vector = embedding.vector;
       
       const item: MemoryItem = { id, type, content, meta, vector, ts: Date.now() };
@@ -67,7 +67,7 @@ export class MemoryStore {
       // Map results back to MemoryItems
       const items: MemoryItem[] = [];
       for (const result of results) {
-        const item = this.items.get(result.id);
+        const item = this.items.get(result.metadata.memoryId);
         if (item) {
           items.push({ ...item, similarity: result.similarity });
         }
@@ -103,7 +103,7 @@ export class MemoryStore {
       
       const items: MemoryItem[] = [];
       for (const result of results) {
-        const item = this.items.get(result.id);
+        const item = this.items.get(result.metadata.memoryId);
         if (item && item.type === type) {
           items.push({ ...item, similarity: result.similarity });
         }
@@ -0,0 +1,135 @@
+// Zod schemas for structured model outputs (plans, evaluations, task explosions)
+import yaml from 'yaml';
+import { z } from 'zod';
+import { cfg } from '../config.js';
+import { PlanTask, ProviderEvaluationResult, ExplodeResult, AcceptanceJudgement } from '../types.js';
+import { validateTaskGraph } from './taskGraph.js';
+
+export type StructuredKind = 'plan' | 'evaluation' | 'explode' | 'acceptance';
+
+export const planTaskSchema = z.object({
+  id: z.union([z.string().min(1), z.number()]).transform(String),
+  title: z.string().min(1),
+  type: z.string().min(1).default('code'),
+  paths: z.array(z.string()).default([]),
+  acceptance: z.string().optional(),
+  riskScore: z.number().min(0).max(1).default(0.3),
+  dependsOn: z.array(z.union([z.string(), z.number()]).transform(String)).default([])
+});
+
+// Task ids become row keys, so a repeated id would fail halfway through saving the plan
+function uniqueIds(tasks: Array<{ id: string }>, ctx: z.RefinementCtx, path: string) {
+  const seen = new Set<string>();
+  for (const t of tasks) {
+    if (seen.has(t.id)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: [path], message: `duplicate task id ${t.id}` });
+    seen.add(t.id);
+  }
+}
+
+export const planSchema = z.object({
+  tasks: z.array(planTaskSchema).min(1, 'plan must contain at least one task')
+}).superRefine((plan, ctx) => {
+  uniqueIds(plan.tasks, ctx, 'tasks');
+  // An unschedulable dependency graph goes back to the model like any other validation error
+  for (const message of validateTaskGraph(plan.tasks)) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['tasks'], message });
+});
+
+export const evaluationSchema = z.object({
+  coverageScore: z.number().min(0).max(1),
+  confidenceAdjustment: z.number().min(-1).max(1).optional(),
+  newTasks: z.array(planTaskSchema).optional(),
+  rationale: z.string().min(1),
+  stopRecommended: z.boolean(),
+  riskAlerts: z.array(z.string()).optional()
+}).superRefine((evaluation, ctx) => uniqueIds(evaluation.newTasks ?? [], ctx, 'newTasks'));
+
+export const explodeSchema = z.object({
+  subtasks: z.array(planTaskSchema),
+  rationale: z.string().default('')
+});
+
+export const acceptanceSchema = z.object({
+  satisfied: z.boolean(),
+  rationale: z.string().min(1),
+  unmet: z.array(z.string()).optional()
+});
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+/** Raised when a model never produced output matching its schema, even after repair prompts. */
+export class StructuredOutputError extends Error {
+  constructor(public kind: StructuredKind, public validationError: string, public attempts: number, public raw: string) {
+    super(`Invalid ${kind} output after ${attempts} attempt(s): ${validationError}`);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+function describeZodError(error: z.ZodError): string {
+  return error.issues
+    .slice(0, 5)
+    .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+function validate<T>(schema: z.ZodType<T, z.ZodTypeDef, unknown>, doc: unknown): ParseResult<T> {
+  const parsed = schema.safeParse(doc);
+  return parsed.success ? { ok: true, value: parsed.data } : { ok: false, error: describeZodError(parsed.error) };
+}
+
+// Models like to wrap JSON in fences or prose; take the outermost object
+function extractJson(raw: string): string {
+  const unfenced = raw.replace(/```(?:json)?/gi, '');
+  const start = unfenced.indexOf('{');
+  const end = unfenced.lastIndexOf('}');
+  return start >= 0 && end > start ? unfenced.slice(start, end + 1) : unfenced.trim();
+}
+
+export function parseJsonOutput<T>(raw: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): ParseResult<T> {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(extractJson(raw));
+  } catch (error) {
+    return { ok: false, error: `not valid JSON (${(error as Error).message})` };
+  }
+  return validate(schema, doc);
+}
+
+// The YAML between the plan markers; a code fence around it (models and the plan document use one) is dropped
+function planBlock(raw: string): ParseResult<unknown> {
+  const start = raw.indexOf(cfg.planMarkers.start);
+  const end = raw.indexOf(cfg.planMarkers.end);
+  if (start === -1 || end === -1 || end < start) {
+    return { ok: false, error: `plan must be wrapped in ${cfg.planMarkers.start} ... ${cfg.planMarkers.end}` };
+  }
+  const block = raw.slice(start + cfg.planMarkers.start.length, end).replace(/^\s*```(?:ya?ml)?\s*$/gim, '');
+  try {
+    return { ok: true, value: yaml.parse(block) };
+  } catch (error) {
+    return { ok: false, error: `invalid YAML (${(error as Error).message.split('\n')[0]})` };
+  }
+}
+
+export function parsePlanOutput(raw: string): ParseResult<PlanTask[]> {
+  const block = planBlock(raw);
+  if (!block.ok) return block;
+  const result = validate(planSchema, block.value);
+  return result.ok ? { ok: true, value: result.value.tasks } : result;
+}
+
+/** Task details of a plan document; titles live in its checklist, so they are optional here. */
+export const planDetailsSchema = z.object({
+  tasks: z.array(planTaskSchema.partial({ title: true })).default([])
+});
+
+export function parsePlanDetails(raw: string): ParseResult<z.infer<typeof planDetailsSchema>['tasks']> {
+  const block = planBlock(raw);
+  if (!block.ok) return block;
+  const result = validate(planDetailsSchema, block.value ?? {});
+  return result.ok ? { ok: true, value: result.value.tasks } : result;
+}
+
+export const parseEvaluationOutput = (raw: string): ParseResult<ProviderEvaluationResult> => parseJsonOutput(raw, evaluationSchema);
+
+export const parseExplodeOutput = (raw: string): ParseResult<ExplodeResult> => parseJsonOutput(raw, explodeSchema);
+
+export const parseAcceptanceOutput = (raw: string): ParseResult<AcceptanceJudgement> => parseJsonOutput(raw, acceptanceSchema);
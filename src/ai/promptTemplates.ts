@@ -16,7 +16,7 @@ export function planUserTemplate(vars: any): string {
 Title: ${vars.title}
 Body: ${vars.body}
 
-Provide a structured YAML plan.`;
+Provide a structured YAML plan. List prerequisite task ids in each task's dependsOn; dependencies must not form a cycle.`;
 }
 
 export function patchSystem(): string {
@@ -24,11 +24,27 @@ export function patchSystem(): string {
 }
 
 export function patchUser(vars: any): string {
+  const files: { path: string; content: string }[] = vars.trimmedFiles || [];
+  const context = vars.context ?? files.map(f => `=== ${f.path} ===\n${f.content}`).join('\n\n');
   return `Generate a unified diff patch for the following tasks:
 ${JSON.stringify(vars.tasks)}
 
 Code context:
-${vars.context}`;
+${context}
+
+Lines starting with "// ... lines N-M omitted" stand for code that was left out of the context. Never include them in the diff; count hunk line numbers as they appear above.${vars.testFeedback ? testFeedbackSection(vars.testFeedback) : ''}`;
+}
+
+function testFeedbackSection(feedback: { command: string; output: string; previousDiff: string }): string {
+  return `
+
+Your previous patch applied cleanly, but \`${feedback.command}\` failed:
+${feedback.output}
+
+Previous patch:
+${feedback.previousDiff}
+
+It has been discarded. Return a complete replacement patch against the code context above that implements the tasks and makes the tests pass.`;
 }
 
 export function renderTemplate(name: string, vars: Record<string, any>): string {
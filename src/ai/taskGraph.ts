@@ -0,0 +1,97 @@
+// Task dependency graph (PlanTask.dependsOn / Task.dependsOn): plan-time validation and ready-set selection
+import { PlanTask } from '../types.js';
+
+type GraphNode = Pick<PlanTask, 'id' | 'dependsOn'>;
+
+/** Minimal shape of a stored Task row needed for scheduling. */
+export interface ScheduledTask {
+  externalId: string;
+  status: string;
+  dependsOn: string[];
+}
+
+/** Returns one dependency cycle as a path (`['A', 'B', 'A']`), or null when the graph is acyclic. */
+export function findDependencyCycle(tasks: GraphNode[]): string[] | null {
+  const deps = new Map(tasks.map(t => [t.id, t.dependsOn ?? []]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') return [...stack.slice(stack.indexOf(id)), id];
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const dep of deps.get(id) ?? []) {
+      if (!deps.has(dep)) continue;
+      const cycle = visit(dep);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const t of tasks) {
+    const cycle = visit(t.id);
+    if (cycle) return cycle;
+  }
+  return null;
+}
+
+/** Problems that make a plan unschedulable: unknown or self dependencies and cycles. */
+export function validateTaskGraph(tasks: GraphNode[]): string[] {
+  const ids = new Set(tasks.map(t => t.id));
+  const problems: string[] = [];
+  for (const t of tasks) {
+    for (const dep of t.dependsOn ?? []) {
+      if (dep === t.id) problems.push(`task ${t.id} depends on itself`);
+      else if (!ids.has(dep)) problems.push(`task ${t.id} depends on unknown task ${dep}`);
+    }
+  }
+  const cycle = findDependencyCycle(tasks);
+  if (cycle && cycle.length > 2) problems.push(`dependency cycle ${cycle.join(' -> ')}`);
+  return problems;
+}
+
+/**
+ * Pending tasks whose prerequisites are all `verified`. Dependencies on tasks that no longer exist
+ * are treated as satisfied so a pruned task cannot block the rest of the plan.
+ */
+export function readyTasks<T extends ScheduledTask>(tasks: T[]): T[] {
+  const status = new Map(tasks.map(t => [t.externalId, t.status]));
+  return tasks.filter(t => t.status === 'pending' && t.dependsOn.every(dep => (status.get(dep) ?? 'verified') === 'verified'));
+}
+
+/** Pending tasks held back by unfinished prerequisites, with the prerequisites they wait on. */
+export function blockedTasks<T extends ScheduledTask>(tasks: T[]): Array<{ task: T; waitingOn: string[] }> {
+  const status = new Map(tasks.map(t => [t.externalId, t.status]));
+  return tasks
+    .filter(t => t.status === 'pending')
+    .map(task => ({ task, waitingOn: task.dependsOn.filter(dep => (status.get(dep) ?? 'verified') !== 'verified') }))
+    .filter(b => b.waitingOn.length > 0);
+}
+
+/**
+ * Failed tasks when nothing else can run: no task is ready or in flight, so what remains is failed
+ * or waits on a failed task. Empty while the plan can still make progress.
+ */
+export function stallingFailures<T extends ScheduledTask>(tasks: T[]): T[] {
+  const failed = tasks.filter(t => t.status === 'failed');
+  if (!failed.length || readyTasks(tasks).length || tasks.some(t => t.status === 'in_progress' || t.status === 'applied')) return [];
+  return failed;
+}
+
+/** Renders the plan as a Mermaid flowchart; edges point from prerequisite to dependent task. */
+export function renderTaskGraph(tasks: Array<GraphNode & Pick<PlanTask, 'title'>>): string {
+  const node = new Map(tasks.map((t, i) => [t.id, `t${i}`]));
+  const label = (text: string) => text.replace(/"/g, '#quot;').replace(/[\r\n]+/g, ' ');
+  const lines = ['```mermaid', 'graph TD'];
+  for (const t of tasks) lines.push(`  ${node.get(t.id)}["${label(`${t.id}: ${t.title}`)}"]`);
+  for (const t of tasks) {
+    for (const dep of t.dependsOn ?? []) {
+      if (node.has(dep)) lines.push(`  ${node.get(dep)} --> ${node.get(t.id)}`);
+    }
+  }
+  lines.push('```');
+  return lines.join('\n');
+}
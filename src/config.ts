@@ -30,15 +30,47 @@ export const cfg = {
   openaiKey: process.env.OPENAI_API_KEY,
   customEndpoint: process.env.CUSTOM_LLM_ENDPOINT,
   customKey: process.env.CUSTOM_LLM_API_KEY,
+  anthropicKey: process.env.ANTHROPIC_API_KEY,
+  anthropicEndpoint: process.env.ANTHROPIC_ENDPOINT || 'https://api.anthropic.com',
+  anthropicVersion: '2023-06-01',
+  ollamaEndpoint: process.env.OLLAMA_ENDPOINT || 'http://localhost:11434',
   embeddingsModel: process.env.EMBEDDINGS_MODEL || 'text-embedding-3-small',
   defaultModel: 'gpt-4o-mini',
 
+  llm: {
+    requestTimeoutMs: parseInt(process.env.LLM_REQUEST_TIMEOUT_MS || '120000', 10),
+    // Extra prompts that feed schema validation errors back to the model before giving up
+    repairAttempts: 2,
+    // off | record | replay | scripted (see ReplayProvider)
+    replayMode: process.env.LLM_REPLAY_MODE || 'off',
+    // The deterministic mock provider pushes placeholder files, so it is only used when asked for (or under tests)
+    allowMock: process.env.LLM_ALLOW_MOCK === 'true' || process.env.NODE_ENV === 'test',
+    fixtures: process.env.LLM_FIXTURES || 'tests/fixtures/llm',
+    // USD per 1M tokens, matched by longest model-name prefix; unlisted (e.g. local) models cost 0
+    pricing: {
+      'gpt-4o-mini': { input: 0.15, output: 0.6 },
+      'gpt-4o': { input: 2.5, output: 10 },
+      'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+      'gpt-4.1': { input: 2, output: 8 },
+      'o3-mini': { input: 1.1, output: 4.4 },
+      'claude-3-5-haiku': { input: 0.8, output: 4 },
+      'claude-3-5-sonnet': { input: 3, output: 15 },
+      'claude-sonnet-4': { input: 3, output: 15 }
+    } as Record<string, { input: number; output: number }>
+  },
+
   // Task & Execution limits
   maxPlanTokens: 2200,
   execTokens: 2400,
 
   planMarkers: { start: '<!-- TASKS-STRUCTURED -->', end: '<!-- /TASKS-STRUCTURED -->' },
 
+  // The plan as a markdown file on the agent branch, mirrored into the PR body; human edits to either sync back into tasks
+  planDocument: {
+    path: process.env.PLAN_FILE_PATH || '.aiagent/plan.md',
+    mirrorMarkers: { start: '<!-- PLAN-DOCUMENT -->', end: '<!-- /PLAN-DOCUMENT -->' }
+  },
+
   adaptive: {
     confidenceIncreasePerSuccess: 0.07,
     confidenceDecreaseOnFail: 0.1,
@@ -75,11 +107,16 @@ export const cfg = {
     maxHighSeverityIssues: 5,
     semgrepEnabled: true,
     banditEnabled: true,
-    eslintSecurityEnabled: true
+    eslintSecurityEnabled: true,
+    // Scans each pushed diff with securityScanService for the PR summary; the scanners run outside the sandbox
+    scanIterations: process.env.SECURITY_SCAN_ITERATIONS === 'true'
   },
 
   workspace: {
-    tempRoot: process.env.AGENT_WORK_ROOT || '/tmp/ai-agent-work'
+    tempRoot: process.env.AGENT_WORK_ROOT || '/tmp/ai-agent-work',
+    quotaBytes: parseInt(process.env.AGENT_WORK_QUOTA_MB || '5120', 10) * 1024 * 1024,
+    lockTimeoutMs: 1000 * 60 * 10,
+    lockStaleMs: 1000 * 60 * 30
   },
 
   semgrep: {
@@ -87,6 +124,20 @@ export const cfg = {
     failOnSeverity: 'ERROR'
   },
 
+  vectorStore: {
+    // auto | pgvector | bruteforce; auto uses pgvector when the extension was available at migration time
+    backend: (process.env.VECTOR_STORE || 'auto') as 'auto' | 'pgvector' | 'bruteforce'
+  },
+
+  embeddingIndex: {
+    enabled: process.env.EMBEDDING_INDEX_ENABLED !== 'false',
+    maxFileBytes: 200_000,
+    // Files longer than this are embedded as several symbol-aligned chunks
+    chunkLines: 150,
+    batchSize: 10,
+    extensions: ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.go', '.rs', '.java', '.kt', '.rb', '.php', '.cs', '.c', '.h', '.cpp', '.swift', '.scala', '.sql', '.md', '.yml', '.yaml', '.json', '.toml', '.prisma', '.graphql', '.sh']
+  },
+
   memory: {
     maxStrategic: 24,
     maxTechnical: 120,
@@ -101,23 +152,89 @@ export const cfg = {
     metaRefineEvery: 3
   },
 
+  sandbox: {
+    // auto | bwrap | rlimit | off; auto uses bubblewrap namespaces where available, else rlimits only
+    mode: (process.env.SANDBOX_MODE || 'auto') as 'auto' | 'bwrap' | 'rlimit' | 'off',
+    // Network is only granted per command (dependency installs) unless enabled here
+    network: process.env.SANDBOX_NETWORK === 'true',
+    limits: {
+      cpuSeconds: parseInt(process.env.SANDBOX_CPU_SECONDS || '900', 10),
+      memoryBytes: parseInt(process.env.SANDBOX_MEMORY_MB || '4096', 10) * 1024 * 1024, // data segment (heap), not address space
+      processes: 512,
+      fileBytes: 1024 * 1024 * 1024
+    },
+    // Holds a writable HOME per repository (package manager caches) and throwaway ones for other commands
+    homeDir: `${process.env.AGENT_WORK_ROOT || '/tmp/ai-agent-work'}-sandbox-home`,
+    // Extra host paths hidden from sandboxed commands (the agent's own tree and workspace root always are)
+    maskedPaths: (process.env.SANDBOX_MASKED_PATHS || '').split(',').map(p => p.trim()).filter(Boolean),
+    transcriptTailBytes: 4000
+  },
+
+  testRun: {
+    enabled: process.env.POST_APPLY_TESTS !== 'false',
+    timeoutMs: parseInt(process.env.POST_APPLY_TEST_TIMEOUT_MS || '600000', 10),
+    installTimeoutMs: 1000 * 60 * 10,
+    // generatePatch retries fed with the failure output before the iteration gives up
+    maxFixAttempts: 2,
+    // Failures tolerated on top of those the branch already had before the patch
+    maxNewFailures: parseInt(process.env.POST_APPLY_TEST_MAX_NEW_FAILURES || '0', 10),
+    tolerateBaseline: true,
+    feedbackChars: 4000
+  },
+
+  // Plans matching any trigger wait in `awaiting_approval` until approved by comment, PR review or the dashboard
+  approval: {
+    enabled: process.env.PLAN_APPROVAL_ENABLED !== 'false',
+    riskThreshold: parseFloat(process.env.PLAN_APPROVAL_RISK_THRESHOLD || '0.7'),
+    maxTasks: parseInt(process.env.PLAN_APPROVAL_MAX_TASKS || '10', 10),
+    // CODEOWNERS-style patterns
+    protectedPaths: (process.env.PLAN_APPROVAL_PROTECTED_PATHS || '.github/,package.json,package-lock.json,Dockerfile,prisma/migrations/,.aiagent.yml,.aiagent-ownership.yml,CODEOWNERS')
+      .split(',').map(p => p.trim()).filter(Boolean),
+    // Users/teams whose approval counts; when empty, owners from .aiagent-ownership.yml, then CODEOWNERS, for the plan's paths
+    approvers: (process.env.PLAN_APPROVERS || '').split(',').map(p => p.trim()).filter(Boolean),
+    minApprovals: parseInt(process.env.PLAN_APPROVAL_MIN || '1', 10)
+  },
+
+  verification: {
+    enabled: process.env.TASK_VERIFICATION_ENABLED !== 'false',
+    // Programs an acceptance criterion may run; commands starting with anything else are skipped
+    allowedCommands: ['npm', 'npx', 'yarn', 'pnpm', 'node', 'tsc', 'make', 'pytest', 'python', 'python3', 'go', 'cargo', 'mvn', 'gradle', './gradlew'],
+    commandTimeoutMs: parseInt(process.env.TASK_VERIFICATION_TIMEOUT_MS || '300000', 10),
+    // Failed verifications before a task is marked failed instead of returned to pending
+    maxAttempts: 2
+  },
+
   eval: {
     autoExpand: true,
     maxNewTasksPerEval: 4,
     confidenceGate: 0.55
   },
 
+  checks: {
+    // Check runs (ai-plan, ai-exec, ai-eval, ai-security, ai-performance) on every agent commit; needs the checks:write permission
+    enabled: process.env.CHECK_RUNS_ENABLED !== 'false',
+    // Test runs slower than the previous iteration's by this factor are flagged in ai-performance
+    slowdownRatio: parseFloat(process.env.CHECK_SLOWDOWN_RATIO || '1.5')
+  },
+
   git: {
     defaultBase: 'main',
     commitAuthorName: 'AI Agent',
     commitAuthorEmail: 'ai-agent@example.local',
     pullRequestTitlePrefix: 'AI Agent:',
-    autoPRCreate: true
+    autoPRCreate: true,
+    // Requested when the draft PR is marked ready; `org/team` entries become team reviewers. Defaults to the plan's approvers
+    reviewers: (process.env.PR_REVIEWERS || '').split(',').map(r => r.trim()).filter(Boolean)
   },
 
   patch: {
     enableRefineForLarge: true,
     largePatchLineThreshold: 400,
-    refineTemperature: 0.1
+    refineTemperature: 0.1,
+    applyFuzz: 2,
+    applyMaxOffset: 400,
+    applyIgnoreWhitespace: true,
+    applyThreeWay: true,
+    mergeMinAnchorRatio: 0.5
   }
 };
@@ -3,6 +3,10 @@ import { getInstallationOctokit } from '../octokit.js';
 import { cfg } from '../config.js';
 import pino from 'pino';
 import { prisma } from '../storage/prisma.js';
+import { HunkApplyResult, IterationReport } from '../types.js';
+import type { PolicyViolation } from '../services/policyEngine.js';
+import type { SecurityScanResult } from '../services/securityScanService.js';
+import { MAX_ANNOTATIONS, hunkAnnotations, policyAnnotations, securityAnnotations } from '../util/checkAnnotations.js';
 
 const log = pino({ level: process.env.LOG_LEVEL || 'info' });
 
@@ -31,6 +35,39 @@ export interface CheckAnnotation {
   raw_details?: string;
 }
 
+export type AgentCheckRun = 'plan' | 'exec' | 'eval' | 'security' | 'performance';
+
+export type AgentCheckIds = Record<`${AgentCheckRun}CheckId`, bigint>;
+
+const CHECK_RUNS: Record<AgentCheckRun, { name: string; title: string; pending: string }> = {
+  plan: { name: 'ai-plan', title: 'AI Planning', pending: 'Generating execution plan for issue resolution' },
+  exec: { name: 'ai-exec', title: 'AI Execution', pending: 'Executing planned tasks' },
+  eval: { name: 'ai-eval', title: 'AI Evaluation', pending: 'Evaluating implementation completeness' },
+  security: { name: 'ai-security', title: 'AI Security Scan', pending: 'Running security analysis on changes' },
+  performance: { name: 'ai-performance', title: 'AI Performance Analysis', pending: 'Analyzing performance impact of changes' }
+};
+
+/** What one iteration produced, for the exec, security and performance check runs. */
+export interface IterationCheckResult {
+  iteration: number;
+  /** Absent when nothing was pushed */
+  commitSha?: string;
+  tasks: Array<{ externalId: string; title: string }>;
+  verified: string[];
+  /** Tasks that failed their acceptance criteria */
+  failed: string[];
+  report: IterationReport;
+  hunkResults: HunkApplyResult[];
+  policyViolations: PolicyViolation[];
+  /** Absent when cfg.security.scanIterations is off */
+  securityResults?: SecurityScanResult[];
+  largeFiles: string[];
+  /** Test duration of the previous iteration that ran tests */
+  previousTestMs?: number;
+}
+
+const seconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
 export interface StructuredComment {
   type: 'progress' | 'plan' | 'evaluation' | 'command_response' | 'error';
   agentId: string;
@@ -101,89 +138,100 @@ export class GitHubChecksService {
     }
   }
 
-  async createAgentCheckSuite(agentId: string): Promise<{
-    planCheckId: number;
-    execCheckId: number;
-    evalCheckId: number;
-    securityCheckId: number;
-    performanceCheckId: number;
-  }> {
+  /**
+   * Opens the agent's check runs on a commit it pushed. Re-running on the same commit replaces the
+   * runs (GitHub shows the newest run per name); an evaluation still queued on the previous commit
+   * is closed as superseded.
+   */
+  async createAgentCheckSuite(agentId: string, headSha: string): Promise<AgentCheckIds> {
     const agent = await prisma.issueAgent.findUnique({ where: { id: agentId } });
     if (!agent) throw new Error('Agent not found');
+    const installationId = agent.installationId.toString();
 
-    const headSha = agent.planCommitSha || 'main';
-    
-    const [planCheck, execCheck, evalCheck, securityCheck, performanceCheck] = await Promise.all([
-      this.createCheckRun(agent.installationId.toString(), agent.owner, agent.repo, {
-        name: 'ai-plan',
-        head_sha: headSha,
-        status: 'queued',
-        output: {
-          title: 'AI Planning',
-          summary: 'Generating execution plan for issue resolution'
-        }
-      }),
-      this.createCheckRun(agent.installationId.toString(), agent.owner, agent.repo, {
-        name: 'ai-exec',
-        head_sha: headSha,
-        status: 'queued',
-        output: {
-          title: 'AI Execution',
-          summary: 'Executing planned tasks'
-        }
-      }),
-      this.createCheckRun(agent.installationId.toString(), agent.owner, agent.repo, {
-        name: 'ai-eval',
-        head_sha: headSha,
-        status: 'queued',
-        output: {
-          title: 'AI Evaluation',
-          summary: 'Evaluating implementation completeness'
-        }
-      }),
-      this.createCheckRun(agent.installationId.toString(), agent.owner, agent.repo, {
-        name: 'ai-security',
-        head_sha: headSha,
-        status: 'queued',
-        output: {
-          title: 'AI Security Scan',
-          summary: 'Running security analysis on changes'
-        }
-      }),
-      this.createCheckRun(agent.installationId.toString(), agent.owner, agent.repo, {
-        name: 'ai-performance',
+    const previous = await prisma.agentCheckRuns.findFirst({ where: { agentId }, orderBy: { createdAt: 'desc' } });
+    if (previous && previous.headSha !== headSha) {
+      await this.supersedeEvalCheck(agent, previous.evalCheckId, headSha);
+    }
+
+    const create = (run: AgentCheckRun, status: CheckRunConfig['status']) =>
+      this.createCheckRun(installationId, agent.owner, agent.repo, {
+        name: CHECK_RUNS[run].name,
         head_sha: headSha,
-        status: 'queued',
-        output: {
-          title: 'AI Performance Analysis',
-          summary: 'Analyzing performance impact of changes'
-        }
-      })
+        status,
+        output: { title: CHECK_RUNS[run].title, summary: CHECK_RUNS[run].pending }
+      });
+    const [planCheck, execCheck, evalCheck, securityCheck, performanceCheck] = await Promise.all([
+      create('plan', 'in_progress'),
+      create('exec', 'in_progress'),
+      create('eval', 'queued'),
+      create('security', 'queued'),
+      create('performance', 'queued')
     ]);
+    const ids = {
+      planCheckId: BigInt(planCheck),
+      execCheckId: BigInt(execCheck),
+      evalCheckId: BigInt(evalCheck),
+      securityCheckId: BigInt(securityCheck),
+      performanceCheckId: BigInt(performanceCheck)
+    };
 
     // Store check run IDs for later updates
-    await prisma.agentCheckRuns.create({
-      data: {
-        agentId,
-        planCheckId: planCheck,
-        execCheckId: execCheck,
-        evalCheckId: evalCheck,
-        securityCheckId: securityCheck,
-        performanceCheckId: performanceCheck
-      }
+    await prisma.agentCheckRuns.upsert({
+      where: { agentId_headSha: { agentId, headSha } },
+      create: { agentId, headSha, ...ids },
+      update: ids
     });
+    return ids;
+  }
 
-    return {
-      planCheckId: planCheck,
-      execCheckId: execCheck,
-      evalCheckId: evalCheck,
-      securityCheckId: securityCheck,
-      performanceCheckId: performanceCheck
-    };
+  /** Check runs for a pushed iteration: the suite opens on the commit, then each run completes as its phase does. */
+  async startIterationChecks(agentId: string, headSha: string, plan: { version: number; tasks: Array<{ externalId: string; title: string; status: string }> }): Promise<void> {
+    if (!cfg.checks.enabled) return;
+    try {
+      await this.createAgentCheckSuite(agentId, headSha);
+      await this.updatePlanCheck(agentId, headSha, 'completed', plan);
+    } catch (error) {
+      log.warn({ agentId, headSha, error: String(error) }, 'Could not open check runs');
+    }
+  }
+
+  async finishIterationChecks(agentId: string, headSha: string, result: IterationCheckResult): Promise<void> {
+    if (!cfg.checks.enabled) return;
+    try {
+      await this.updateExecCheck(agentId, headSha, result);
+      await this.updateSecurityCheck(agentId, headSha, result.securityResults);
+      await this.updatePerformanceCheck(agentId, headSha, result);
+    } catch (error) {
+      log.warn({ agentId, headSha, error: String(error) }, 'Could not complete check runs');
+    }
+  }
+
+  /**
+   * An iteration that pushed nothing leaves a failed `ai-exec` run on the branch head it was
+   * attempted against, so rejected hunks and policy violations still surface as annotations.
+   */
+  async recordFailedIteration(agentId: string, result: IterationCheckResult): Promise<void> {
+    if (!cfg.checks.enabled) return;
+    const agent = await prisma.issueAgent.findUnique({ where: { id: agentId } });
+    if (!agent) return;
+    try {
+      const octokit = await getInstallationOctokit(agent.installationId.toString());
+      const { data: ref } = await octokit.rest.git.getRef({ owner: agent.owner, repo: agent.repo, ref: `heads/${agent.branchName}` });
+      const headSha = ref.object.sha;
+      const checkId = await this.createCheckRun(agent.installationId.toString(), agent.owner, agent.repo, {
+        name: CHECK_RUNS.exec.name,
+        head_sha: headSha,
+        status: 'completed',
+        ...this.execOutput(result)
+      });
+      await prisma.agentCheckRuns.updateMany({ where: { agentId, headSha }, data: { execCheckId: BigInt(checkId) } });
+    } catch (error) {
+      log.warn({ agentId, error: String(error) }, 'Could not record the failed iteration as a check run');
+    }
   }
 
-  async updatePlanCheck(agentId: string, status: 'in_progress' | 'completed', result?: any): Promise<void> {
-    const checkRuns = await prisma.agentCheckRuns.findUnique({ where: { agentId } });
+  async updatePlanCheck(agentId: string, headSha: string, status: 'in_progress' | 'completed', result?: any): Promise<void> {
+    const checkRuns = await prisma.agentCheckRuns.findUnique({ where: { agentId_headSha: { agentId, headSha } } });
     if (!checkRuns) return;
 
     const agent = await prisma.issueAgent.findUnique({ where: { id: agentId } });
@@ -191,7 +239,7 @@ export class GitHubChecksService {
 
     const annotations: CheckAnnotation[] = [];
     let conclusion: CheckRunConfig['conclusion'] = 'success';
-    let summary = 'Plan generation completed successfully';
+    let summary = result?.version ? `Plan v${result.version}: ${result.tasks?.length || 0} tasks` : 'Plan generation completed successfully';
 
     if (result?.conflicts?.length > 0) {
       conclusion = 'action_required';
@@ -199,7 +247,7 @@ export class GitHubChecksService {
       
       result.conflicts.forEach((conflict: any) => {
         annotations.push({
-          path: 'plan.md',
+          path: cfg.planDocument.path,
           start_line: 1,
           end_line: 1,
           annotation_level: 'warning',
@@ -209,58 +257,172 @@ export class GitHubChecksService {
       });
     }
 
-    await this.updateCheckRun(agent.installationId.toString(), agent.owner, agent.repo, checkRuns.planCheckId, {
+    const tasks: Array<{ externalId: string; title: string; status: string }> = result?.tasks ?? [];
+    await this.updateCheckRun(agent.installationId.toString(), agent.owner, agent.repo, Number(checkRuns.planCheckId), {
       status,
       conclusion: status === 'completed' ? conclusion : undefined,
       output: {
-        title: 'AI Planning',
+        title: CHECK_RUNS.plan.title,
         summary,
-        text: result ? `Generated ${result.tasks?.length || 0} tasks with estimated duration: ${result.estimatedDuration || 0}h` : undefined,
-        annotations
+        text: tasks.length ? `| Task | Title | Status |\n|---|---|---|\n${tasks.map(t => `| \`${t.externalId}\` | ${t.title.replace(/\|/g, '\\|')} | ${t.status} |`).join('\n')}` : undefined,
+        annotations: annotations.slice(0, MAX_ANNOTATIONS)
       }
     });
   }
 
-  async updateSecurityCheck(agentId: string, scanResults: any[]): Promise<void> {
-    const checkRuns = await prisma.agentCheckRuns.findUnique({ where: { agentId } });
-    if (!checkRuns) return;
+  async updateExecCheck(agentId: string, headSha: string, result: IterationCheckResult): Promise<void> {
+    const { agent, checkRuns } = await this.suite(agentId, headSha);
+    if (!agent || !checkRuns) return;
+    await this.updateCheckRun(agent.installationId.toString(), agent.owner, agent.repo, Number(checkRuns.execCheckId), {
+      status: 'completed',
+      ...this.execOutput(result)
+    });
+  }
 
-    const agent = await prisma.issueAgent.findUnique({ where: { id: agentId } });
-    if (!agent) return;
+  /** `scanResults` is undefined when iteration scanning is off (cfg.security.scanIterations). */
+  async updateSecurityCheck(agentId: string, headSha: string, scanResults: SecurityScanResult[] | undefined): Promise<void> {
+    const { agent, checkRuns } = await this.suite(agentId, headSha);
+    if (!agent || !checkRuns) return;
+    const update = (conclusion: CheckRunConfig['conclusion'], summary: string, text?: string, annotations: CheckAnnotation[] = []) =>
+      this.updateCheckRun(agent.installationId.toString(), agent.owner, agent.repo, Number(checkRuns.securityCheckId), {
+        status: 'completed',
+        conclusion,
+        output: { title: CHECK_RUNS.security.title, summary, text, annotations: annotations.slice(0, MAX_ANNOTATIONS) }
+      });
 
-    const allFindings = scanResults.flatMap(r => r.findings || []);
+    if (!scanResults) {
+      await update('neutral', 'Security scanning of agent commits is disabled (SECURITY_SCAN_ITERATIONS)');
+      return;
+    }
+    const ran = scanResults.filter(r => !r.findings.some(f => f.category === 'tool-error'));
+    if (!ran.length) {
+      await update('neutral', 'No security scanner could run on the changed files', this.formatSecurityReport(scanResults));
+      return;
+    }
+
+    const allFindings = ran.flatMap(r => r.findings);
     const criticalFindings = allFindings.filter(f => f.severity === 'critical');
     const highFindings = allFindings.filter(f => f.severity === 'high');
-
-    const annotations: CheckAnnotation[] = allFindings.slice(0, 50).map(finding => ({
-      path: finding.file,
-      start_line: finding.line || 1,
-      end_line: finding.line || 1,
-      start_column: finding.column,
-      annotation_level: finding.severity === 'critical' ? 'failure' : 
-                      finding.severity === 'high' ? 'warning' : 'notice',
-      message: finding.description,
-      title: finding.title,
-      raw_details: `Rule: ${finding.rule}\nCategory: ${finding.category}\nRecommendation: ${finding.recommendation}`
-    }));
-
     const conclusion = criticalFindings.length > 0 ? 'failure' : 
                       highFindings.length > cfg.security.maxHighSeverityIssues ? 'action_required' : 
                       'success';
+    await update(
+      conclusion,
+      `Found ${allFindings.length} security findings (${criticalFindings.length} critical, ${highFindings.length} high)`,
+      this.formatSecurityReport(scanResults),
+      securityAnnotations(allFindings)
+    );
+  }
+
+  /** Test duration against the previous iteration's run, plus the files the patch touched heavily. */
+  async updatePerformanceCheck(agentId: string, headSha: string, result: IterationCheckResult): Promise<void> {
+    const { agent, checkRuns } = await this.suite(agentId, headSha);
+    if (!agent || !checkRuns) return;
 
-    await this.updateCheckRun(agent.installationId.toString(), agent.owner, agent.repo, checkRuns.securityCheckId, {
+    const tests = result.report.tests;
+    const previous = result.previousTestMs;
+    let conclusion: CheckRunConfig['conclusion'] = 'success';
+    let summary: string;
+    if (!tests) {
+      conclusion = 'neutral';
+      summary = 'No test run to time';
+    } else if (previous && tests.durationMs > previous * cfg.checks.slowdownRatio) {
+      conclusion = 'neutral';
+      summary = `⚠️ Tests took ${seconds(tests.durationMs)}, up from ${seconds(previous)} in the previous iteration`;
+    } else {
+      summary = `Tests took ${seconds(tests.durationMs)}${previous ? ` (previous iteration: ${seconds(previous)})` : ''}`;
+    }
+    const v = result.report.validation;
+    const annotations: CheckAnnotation[] = result.largeFiles.map(path => ({
+      path,
+      start_line: 1,
+      end_line: 1,
+      annotation_level: 'notice',
+      title: 'Large change',
+      message: `More than ${cfg.diff.largeFileLineThreshold} changed lines in this file`
+    }));
+
+    await this.updateCheckRun(agent.installationId.toString(), agent.owner, agent.repo, Number(checkRuns.performanceCheckId), {
       status: 'completed',
       conclusion,
       output: {
-        title: 'AI Security Scan',
-        summary: `Found ${allFindings.length} security findings (${criticalFindings.length} critical, ${highFindings.length} high)`,
-        text: this.formatSecurityReport(scanResults),
-        annotations
+        title: CHECK_RUNS.performance.title,
+        summary,
+        text: `| Metric | Value |\n|---|---|\n| Lines added / removed | +${v.added} / −${v.deleted} |\n| Files changed | ${v.files} |\n| Test duration | ${tests ? seconds(tests.durationMs) : '—'} |\n| Previous test duration | ${previous ? seconds(previous) : '—'} |`,
+        annotations: annotations.slice(0, MAX_ANNOTATIONS)
       }
     });
   }
 
-  private formatSecurityReport(scanResults: any[]): string {
+  /** Completes the evaluation run on the agent's latest commit. */
+  async updateEvalCheck(agentId: string, evaluation: { coverageScore?: number; rationale?: string; newTasks: number; stopRecommended?: boolean }): Promise<void> {
+    if (!cfg.checks.enabled) return;
+    try {
+      const checkRuns = await prisma.agentCheckRuns.findFirst({ where: { agentId }, orderBy: { createdAt: 'desc' } });
+      const agent = checkRuns && await prisma.issueAgent.findUnique({ where: { id: agentId } });
+      if (!checkRuns || !agent) return;
+      const coverage = evaluation.coverageScore !== undefined ? `${Math.round(evaluation.coverageScore * 100)}% of the issue covered` : 'Evaluation completed';
+      const next = evaluation.stopRecommended ? 'the agent is finalizing' : evaluation.newTasks ? `${evaluation.newTasks} task(s) added` : 'work continues';
+      await this.updateCheckRun(agent.installationId.toString(), agent.owner, agent.repo, Number(checkRuns.evalCheckId), {
+        status: 'completed',
+        conclusion: evaluation.stopRecommended ? 'success' : 'neutral',
+        output: {
+          title: CHECK_RUNS.eval.title,
+          summary: `${coverage}; ${next}`,
+          text: evaluation.rationale ? `## Rationale\n\n${evaluation.rationale}` : undefined
+        }
+      });
+    } catch (error) {
+      log.warn({ agentId, error: String(error) }, 'Could not complete the evaluation check run');
+    }
+  }
+
+  private execOutput(result: IterationCheckResult): Pick<CheckRunConfig, 'conclusion' | 'output'> {
+    const { report, tasks, verified, failed } = result;
+    const annotations = [...hunkAnnotations(result.hunkResults), ...policyAnnotations(result.policyViolations)];
+    const pushed = !!result.commitSha;
+    const conclusion: CheckRunConfig['conclusion'] = !pushed || failed.length ? 'failure'
+      : result.policyViolations.length ? 'action_required'
+      : 'success';
+    const summary = !pushed
+      ? `Iteration ${result.iteration + 1} pushed nothing: ${report.validation.reasons[0] ?? 'no changes'}`
+      : `Iteration ${result.iteration + 1}: ${verified.length}/${tasks.length} task(s) verified${failed.length ? `, ${failed.length} failed acceptance` : ''}`;
+    const tests = report.tests;
+    const lines = [
+      '| Task | Title | Result |',
+      '|---|---|---|',
+      ...tasks.map(t => `| \`${t.externalId}\` | ${t.title.replace(/\|/g, '\\|')} | ${verified.includes(t.externalId) ? '✅ verified' : failed.includes(t.externalId) ? '❌ acceptance failed' : '↩️ not applied'} |`),
+      '',
+      `**Patch:** +${report.validation.added}/−${report.validation.deleted} in ${report.validation.files} file(s)`,
+      tests ? `**Tests:** ${tests.passed ? '✅' : '❌'} \`${tests.command}\`${tests.failed ? ` — ${tests.failed} failed` : ''}` : '**Tests:** not run',
+      ...(report.validation.reasons.length ? ['', '**Validation:**', ...report.validation.reasons.map(r => `- \`${r}\``)] : []),
+      ...(result.policyViolations.length ? ['', `**Policy violations:** ${result.policyViolations.length} (see annotations)`] : []),
+      ...(annotations.length > MAX_ANNOTATIONS ? ['', `_${annotations.length - MAX_ANNOTATIONS} more annotation(s) not shown._`] : [])
+    ];
+    return {
+      conclusion,
+      output: { title: CHECK_RUNS.exec.title, summary, text: lines.join('\n'), annotations: annotations.slice(0, MAX_ANNOTATIONS) }
+    };
+  }
+
+  private async suite(agentId: string, headSha: string) {
+    const checkRuns = await prisma.agentCheckRuns.findUnique({ where: { agentId_headSha: { agentId, headSha } } });
+    const agent = checkRuns ? await prisma.issueAgent.findUnique({ where: { id: agentId } }) : null;
+    return { agent, checkRuns };
+  }
+
+  private async supersedeEvalCheck(agent: { installationId: bigint; owner: string; repo: string }, checkRunId: bigint, headSha: string): Promise<void> {
+    const octokit = await getInstallationOctokit(agent.installationId.toString());
+    const { data: run } = await octokit.rest.checks.get({ owner: agent.owner, repo: agent.repo, check_run_id: Number(checkRunId) });
+    if (run.status === 'completed') return;
+    await this.updateCheckRun(agent.installationId.toString(), agent.owner, agent.repo, Number(checkRunId), {
+      status: 'completed',
+      conclusion: 'neutral',
+      output: { title: CHECK_RUNS.eval.title, summary: `Not evaluated; superseded by ${headSha.slice(0, 7)}` }
+    });
+  }
+
+  private formatSecurityReport(scanResults: SecurityScanResult[]): string {
     let report = '## Security Scan Results\n\n';
     
     for (const result of scanResults) {
@@ -355,15 +517,15 @@ ${data.estimatedTimeRemaining ? `**Estimated Time Remaining**: ${data.estimatedT
     return `## 📋 AI Agent Plan v${data.version}
 
 **Tasks Generated**: ${data.taskCount || 0}  
-**Estimated Duration**: ${data.estimatedHours || 0}h  
-**Risk Level**: ${data.riskLevel || 'unknown'}
+${data.estimatedHours ? `**Estimated Duration**: ${data.estimatedHours}h  \n` : ''}**Risk Level**: ${data.riskLevel || 'unknown'}
 
 ### Execution Plan
 ${data.tasks?.map((task: any, i: number) => 
-  `${i + 1}. **${task.title}** (${task.type}) - ${task.estimatedHours || 1}h`
+  `${i + 1}. ${task.id ? `\`${task.id}\` ` : ''}**${task.title}** (${task.type})${task.estimatedHours ? ` - ${task.estimatedHours}h` : ''}${task.dependsOn?.length ? ` — after ${task.dependsOn.join(', ')}` : ''}`
 ).join('\n') || 'No tasks defined'}
-
+${data.graph ? `\n### Dependencies\n${data.graph}\n` : ''}
 ${data.conflicts?.length > 0 ? `\n### ⚠️ Conflicts Detected\n${data.conflicts.map((c: any) => `- ${c.description}`).join('\n')}` : ''}
+${data.approval ? this.formatApprovalSection(data.approval) : ''}
 
 ### Commands
 - \`@ai-bot approve\` - Approve plan execution
@@ -372,6 +534,17 @@ ${data.conflicts?.length > 0 ? `\n### ⚠️ Conflicts Detected\n${data.conflict
 - \`@ai-bot resume\` - Resume execution`;
   }
 
+  private formatApprovalSection(approval: { reasons: string[]; approvers: string[]; needed: number }): string {
+    const who = approval.approvers.length ? `from ${approval.approvers.join(', ')}` : 'from a maintainer';
+    return `
+### ⏸️ Approval Required
+Execution starts after ${approval.needed} approval(s) ${who}, because the plan:
+${approval.reasons.map(r => `- ${r}`).join('\n')}
+
+Approve with \`@ai-bot approve\`, an approving review on the agent PR, or the dashboard; \`@ai-bot reject <reason>\` stops it.
+`;
+  }
+
   private formatEvaluationComment(comment: StructuredComment): string {
     const { data } = comment;
     return `## 🎯 AI Agent Evaluation
@@ -397,7 +570,8 @@ ${data.stopRecommended ? '### 🛑 Stop Recommended\nThe agent recommends stoppi
 
 ${data.response || 'No response'}
 
-${data.error ? `**Error**: ${data.error}` : ''}`;
+${data.error ? `**Error**: ${data.error}` : ''}
+${data.followupActions?.length ? `\n### Next Steps\n${data.followupActions.map((action: string) => `- ${action}`).join('\n')}` : ''}`;
   }
 
   private formatErrorComment(comment: StructuredComment): string {
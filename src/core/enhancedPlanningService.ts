@@ -236,8 +236,8 @@ export class EnhancedPlanningService {
     return tasks;
   }
 
-  async initiateStakeholderReview(agentId: string, planVersion: number): Promise<StakeholderReview> {
-    const requiredApprovers = await this.getRequiredApprovers(agentId);
+  async initiateStakeholderReview(agentId: string, planVersion: number, approvers?: string[]): Promise<StakeholderReview> {
+    const requiredApprovers = approvers ?? await this.getRequiredApprovers(agentId);
     
     const review: StakeholderReview = {
       agentId,
@@ -248,17 +248,16 @@ export class EnhancedPlanningService {
       timestamp: new Date()
     };
 
-    // Store review request
-    await prisma.stakeholderReview.create({
-      data: {
-        id: `${agentId}-v${planVersion}`,
-        agentId,
-        planVersion,
-        status: review.status,
-        requiredApprovers: JSON.stringify(requiredApprovers),
-        approvedBy: JSON.stringify([]),
-        createdAt: review.timestamp
-      }
+    // Store review request; re-initiating a version restarts its review
+    const data = {
+      status: review.status,
+      requiredApprovers: JSON.stringify(requiredApprovers),
+      approvedBy: JSON.stringify([])
+    };
+    await prisma.stakeholderReview.upsert({
+      where: { id: `${agentId}-v${planVersion}` },
+      create: { id: `${agentId}-v${planVersion}`, agentId, planVersion, ...data, createdAt: review.timestamp },
+      update: data
     });
 
     // Notify stakeholders (GitHub comments, webhooks, etc.)
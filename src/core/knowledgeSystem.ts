@@ -2,6 +2,8 @@
 import { cfg } from '../config.js';
 import pino from 'pino';
 import { prisma } from '../storage/prisma.js';
+import { embeddingService } from '../services/embeddingService.js';
+import { vectorStore, VectorStore } from '../storage/vectorStore.js';
 
 const log = pino({ level: process.env.LOG_LEVEL || 'info' });
 
@@ -10,6 +12,8 @@ export interface EmbeddingDocument {
   content: string;
   metadata: Record<string, any>;
   embedding?: number[];
+  /** Tag of the embedding model that produced `embedding` */
+  model?: string;
   timestamp: Date;
   type: 'code' | 'issue' | 'comment' | 'documentation' | 'plan';
 }
@@ -39,16 +43,24 @@ export class VectorEmbeddingStore {
   private embeddings: Map<string, EmbeddingDocument> = new Map();
   private embeddingModel: EmbeddingModel;
 
-  constructor(embeddingModel: EmbeddingModel) {
+  constructor(
+    embeddingModel: EmbeddingModel = { embed: text => embeddingService.embedText(text), modelTag: () => embeddingService.modelTag() },
+    private store: VectorStore = vectorStore
+  ) {
     this.embeddingModel = embeddingModel;
   }
 
+  private modelTag(): string {
+    return this.embeddingModel.modelTag?.() ?? 'unknown';
+  }
+
   async addDocument(doc: Omit<EmbeddingDocument, 'embedding' | 'timestamp'>): Promise<void> {
     try {
       const embedding = await this.embeddingModel.embed(doc.content);
       const document: EmbeddingDocument = {
         ...doc,
         embedding,
+        model: this.modelTag(),
         timestamp: new Date()
       };
 
@@ -61,10 +73,15 @@ export class VectorEmbeddingStore {
           content: doc.content,
           metadata: JSON.stringify(doc.metadata),
           embedding: JSON.stringify(embedding),
+          model: document.model,
+          owner: doc.metadata.owner ?? null,
+          repo: doc.metadata.repo ?? null,
+          scope: 'knowledge',
           type: doc.type,
           timestamp: document.timestamp
         }
       });
+      await this.store.index('document', doc.id, embedding);
 
       log.info(`Added document ${doc.id} to embedding store`);
     } catch (error) {
@@ -83,9 +100,32 @@ export class VectorEmbeddingStore {
     
     try {
       const queryEmbedding = await this.embeddingModel.embed(query);
+      const model = this.modelTag();
+      try {
+        const matches = await this.store.query('document', queryEmbedding, {
+          filter: { model, scope: 'knowledge', type: options.type, metadata: options.metadata },
+          limit,
+          minScore: threshold
+        });
+        return matches.map(m => {
+          const document: EmbeddingDocument = {
+            id: m.id,
+            content: m.row.content,
+            metadata: m.row.metadata,
+            type: m.row.type,
+            model,
+            timestamp: new Date()
+          };
+          return { document, similarity: m.score, explanation: this.generateExplanation(query, document, m.score) };
+        });
+      } catch (error) {
+        log.warn(`Vector store unavailable, searching in-process documents: ${error}`);
+      }
+
       const results: SemanticSearchResult[] = [];
 
       for (const doc of this.embeddings.values()) {
+        if (doc.model !== model) continue;
         if (options.type && doc.type !== options.type) continue;
         if (options.metadata && !this.matchesMetadata(doc.metadata, options.metadata)) continue;
         if (!doc.embedding) continue;
@@ -166,25 +206,31 @@ export class VectorEmbeddingStore {
   async reindexAll(): Promise<void> {
     log.info('Starting reindexing of all documents');
     
-    const documents = await prisma.embeddingDocument.findMany();
+    // Rows written by EmbeddingService (scope 'memory') are not knowledge documents
+    const documents = await prisma.embeddingDocument.findMany({ where: { OR: [{ scope: 'knowledge' }, { scope: null }] } });
     
     for (const doc of documents) {
       try {
         const embedding = await this.embeddingModel.embed(doc.content);
         
+        const model = this.modelTag();
+        const metadata = JSON.parse(doc.metadata);
         await prisma.embeddingDocument.update({
           where: { id: doc.id },
           data: { 
             embedding: JSON.stringify(embedding),
+            model,
             timestamp: new Date()
           }
         });
+        await this.store.index('document', doc.id, embedding);
 
         this.embeddings.set(doc.id, {
           id: doc.id,
           content: doc.content,
-          metadata: JSON.parse(doc.metadata),
+          metadata,
           embedding,
+          model,
           timestamp: new Date(),
           type: doc.type as EmbeddingDocument['type']
         });
@@ -544,6 +590,8 @@ export class LearningFeedbackLoop {
 
 interface EmbeddingModel {
   embed(text: string): Promise<number[]>;
+  /** Identifies the vector space; documents embedded under another tag are never compared */
+  modelTag?(): string;
 }
 
 interface FeedbackEvent {
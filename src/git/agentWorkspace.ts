@@ -0,0 +1,27 @@
+import { getInstallationOctokit } from '../octokit.js';
+import { WorkspaceManager } from './workspaceManager.js';
+
+export interface AgentBranchRef {
+  installationId: bigint;
+  owner: string;
+  repo: string;
+  branchName: string;
+}
+
+/** A token for git over HTTPS; the app Octokit only exposes it through its auth hook. */
+export async function getInstallationToken(installationId: bigint | number | string): Promise<string> {
+  const octo = await getInstallationOctokit(installationId.toString());
+  const { token } = await octo.auth({ type: 'installation' }) as { token: string };
+  return token;
+}
+
+/** Checks out the agent branch with the installation's credentials; release the workspace when done. */
+export async function openAgentWorkspace(agent: AgentBranchRef, manager = new WorkspaceManager()): Promise<WorkspaceManager> {
+  return manager.ensureWorkspace({
+    owner: agent.owner,
+    repo: agent.repo,
+    branch: agent.branchName,
+    cloneUrl: `https://github.com/${agent.owner}/${agent.repo}.git`,
+    installationToken: await getInstallationToken(agent.installationId)
+  });
+}
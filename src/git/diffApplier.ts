@@ -1,67 +1,372 @@
+import path from 'path';
 import { WorkspaceManager } from './workspaceManager.js';
-import { ParsedDiff } from '../types.js';
+import { ParsedDiff, ParsedDiffFile, DiffHunk, HunkApplyResult } from '../types.js';
+import { cfg } from '../config.js';
+import { matchLines, mergeThreeWay } from './threeWayMerge.js';
+
+export interface ApplyOptions {
+  /** Max context lines that may be ignored at each edge of a hunk */
+  fuzz?: number;
+  /** Max distance (in lines) from the header position to search for a hunk */
+  maxOffset?: number;
+  /** Fall back to whitespace-insensitive context comparison */
+  ignoreWhitespace?: boolean;
+  /** Write files whose hunks all applied even when other files failed (like `git apply --reject`) */
+  partial?: boolean;
+  /** Three-way merge hunks whose context no longer matches, using the hunk's old lines as base */
+  threeWay?: boolean;
+  /** Resolves conflict markers left by the three-way fallback; return null to give up on the file */
+  resolveConflicts?: (file: string, content: string) => Promise<string | null>;
+}
+
+type ResolvedApplyOptions = Required<Omit<ApplyOptions, 'resolveConflicts'>> & Pick<ApplyOptions, 'resolveConflicts'>;
+
+export interface ParsedDiffApplyResult {
+  failed: string[];
+  hunkResults: HunkApplyResult[];
+}
+
+interface HunkPlan {
+  oldLines: string[];
+  newLines: string[];
+  leadingContext: number;
+  trailingContext: number;
+  noEolOld: boolean;
+  noEolNew: boolean;
+}
+
+interface HunkMatch {
+  index: number;
+  trimStart: number;
+  trimEnd: number;
+  fuzz: number;
+}
+
+interface HunkMerge {
+  index: number;
+  removed: number;
+  lines: string[];
+  conflicts: number;
+}
+
+interface ContentApplyResult {
+  content: string;
+  hunkResults: HunkApplyResult[];
+}
+
+type FileOp =
+  | { kind: 'write'; path: string; content: string; mode?: number }
+  | { kind: 'remove'; path: string };
 
 export async function applyUnifiedDiff(patch: string, workspace: WorkspaceManager, opts: { dryRun?: boolean } = {}) {
   if (opts.dryRun) {
-    // attempt --check
-    const res = await workspace.applyPatch(patch, workspace.root);
+    const res = await workspace.applyPatch(patch, workspace.root, { check: true });
     return { ok: res.ok, dryRun: true, stderr: res.stderr };
   }
   return workspace.applyPatch(patch, workspace.root);
 }
 
-// Missing function required by adaptiveLoop.ts
-export async function applyParsedDiff(workspace: WorkspaceManager, parsedDiff: ParsedDiff): Promise<{ failed: string[] }> {
+function resolveOptions(opts: ApplyOptions): ResolvedApplyOptions {
+  return {
+    fuzz: opts.fuzz ?? cfg.patch.applyFuzz,
+    maxOffset: opts.maxOffset ?? cfg.patch.applyMaxOffset,
+    ignoreWhitespace: opts.ignoreWhitespace ?? cfg.patch.applyIgnoreWhitespace,
+    partial: opts.partial ?? false,
+    threeWay: opts.threeWay ?? cfg.patch.applyThreeWay,
+    resolveConflicts: opts.resolveConflicts
+  };
+}
+
+function planHunk(hunk: DiffHunk): HunkPlan {
+  const lines = [...hunk.lines];
+  // The parser keeps whatever follows the last hunk (usually a blank line from the trailing newline)
+  while (lines.length && lines[lines.length - 1] === '') lines.pop();
+
+  const oldLines: string[] = [];
+  const newLines: string[] = [];
+  let leadingContext = 0;
+  let trailingContext = 0;
+  let seenChange = false;
+  let noEolOld = false;
+  let noEolNew = false;
+  let prev: string | undefined;
+
+  for (const line of lines) {
+    const marker = line[0];
+    if (marker === '\\') {
+      if (prev === '-' || prev === ' ') noEolOld = true;
+      if (prev === '+' || prev === ' ') noEolNew = true;
+      continue;
+    }
+    if (marker === '-') {
+      oldLines.push(line.slice(1));
+      seenChange = true;
+      trailingContext = 0;
+      prev = '-';
+    } else if (marker === '+') {
+      newLines.push(line.slice(1));
+      seenChange = true;
+      trailingContext = 0;
+      prev = '+';
+    } else {
+      // Context line; models often drop the leading space on blank or unindented lines
+      const text = marker === ' ' ? line.slice(1) : line;
+      oldLines.push(text);
+      newLines.push(text);
+      if (seenChange) trailingContext++;
+      else leadingContext++;
+      prev = ' ';
+    }
+  }
+  if (!seenChange) trailingContext = 0;
+
+  return { oldLines, newLines, leadingContext, trailingContext, noEolOld, noEolNew };
+}
+
+function normalizeWs(line: string) {
+  return line.replace(/\s+/g, ' ').trim();
+}
+
+function matchesAt(fileLines: string[], pattern: string[], index: number, loose: boolean): boolean {
+  if (index < 0 || index + pattern.length > fileLines.length) return false;
+  for (let i = 0; i < pattern.length; i++) {
+    const actual = fileLines[index + i] as string;
+    const expected = pattern[i] as string;
+    if (actual === expected) continue;
+    if (loose && normalizeWs(actual) === normalizeWs(expected)) continue;
+    return false;
+  }
+  return true;
+}
+
+function locateHunk(fileLines: string[], plan: HunkPlan, expected: number, window: number, opts: ResolvedApplyOptions): HunkMatch | null {
+  let previousTrim = '';
+  for (let fuzz = 0; fuzz <= opts.fuzz; fuzz++) {
+    const trimStart = Math.min(fuzz, plan.leadingContext);
+    const trimEnd = Math.min(fuzz, plan.trailingContext);
+    // Once both edges run out of context, higher fuzz levels would repeat the same search
+    if (`${trimStart}:${trimEnd}` === previousTrim) break;
+    previousTrim = `${trimStart}:${trimEnd}`;
+    const pattern = plan.oldLines.slice(trimStart, plan.oldLines.length - trimEnd);
+    const start = expected + trimStart;
+
+    if (!pattern.length) {
+      return { index: Math.max(0, Math.min(start, fileLines.length)), trimStart, trimEnd, fuzz };
+    }
+
+    const passes = opts.ignoreWhitespace ? [false, true] : [false];
+    for (const loose of passes) {
+      for (let delta = 0; delta <= window; delta++) {
+        if (matchesAt(fileLines, pattern, start + delta, loose)) return { index: start + delta, trimStart, trimEnd, fuzz };
+        if (delta && matchesAt(fileLines, pattern, start - delta, loose)) return { index: start - delta, trimStart, trimEnd, fuzz };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Fallback for hunks whose context drifted: the hunk's old lines act as the merge
+ * base, the matching region of the current file as "ours" and the hunk's new
+ * lines as "theirs". The region is bounded by the first and last base lines that
+ * still exist near the expected position.
+ */
+function mergeHunk(fileLines: string[], plan: HunkPlan, expected: number, opts: ResolvedApplyOptions): HunkMerge | null {
+  if (!plan.oldLines.length) return null;
+  const pad = Math.min(opts.maxOffset, Math.max(10, plan.oldLines.length));
+  const from = Math.max(0, expected - pad);
+  const window = fileLines.slice(from, Math.min(fileLines.length, expected + plan.oldLines.length + pad));
+  const toWindow = matchLines(plan.oldLines, window);
+  const anchored = toWindow.filter(i => i !== undefined).length;
+  if (anchored < Math.ceil(plan.oldLines.length * cfg.patch.mergeMinAnchorRatio)) return null;
+
+  // Unmatched base lines at either edge were edited on the branch; keep their counterparts in the region
+  const firstBase = toWindow.findIndex(i => i !== undefined);
+  const lastBase = toWindow.length - 1 - [...toWindow].reverse().findIndex(i => i !== undefined);
+  const start = Math.max(0, (toWindow[firstBase] as number) - firstBase);
+  const end = Math.min(window.length, (toWindow[lastBase] as number) + (plan.oldLines.length - lastBase));
+  const region = window.slice(start, end);
+  const { lines, conflicts } = mergeThreeWay(plan.oldLines, region, plan.newLines);
+  return { index: from + start, removed: region.length, lines, conflicts };
+}
+
+/**
+ * Applies hunks to file content in memory. Hunks are located near their header
+ * position first and then searched outwards, so patches generated against a
+ * slightly stale snapshot still land.
+ */
+export function applyHunksToContent(file: string, content: string, hunks: DiffHunk[], options: ApplyOptions = {}): ContentApplyResult {
+  const opts = resolveOptions(options);
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.length ? content.split(/\r?\n/) : [];
+  let endsWithNewline = true;
+  if (lines.length && lines[lines.length - 1] === '') lines.pop();
+  else if (lines.length) endsWithNewline = false;
+
+  const hunkResults: HunkApplyResult[] = [];
+  let lineDelta = 0;
+  let lastOffset = 0;
+
+  hunks.forEach((hunk, index) => {
+    const plan = planHunk(hunk);
+    const hasPosition = hunk.oldStart > 0 || hunk.newStart > 0;
+    const base = hunk.oldLines === 0 ? hunk.oldStart : Math.max(0, hunk.oldStart - 1);
+    const expected = hasPosition ? base + lineDelta + lastOffset : 0;
+    const window = hasPosition ? opts.maxOffset : lines.length;
+
+    const match = locateHunk(lines, plan, expected, window, opts);
+    if (!match) {
+      const merge = opts.threeWay ? mergeHunk(lines, plan, expected, opts) : null;
+      if (!merge) {
+        hunkResults.push({ file, index, header: hunk.header, applied: false, reason: 'context_mismatch' });
+        return;
+      }
+      lines.splice(merge.index, merge.removed, ...merge.lines);
+      lineDelta += merge.lines.length - merge.removed;
+      hunkResults.push({
+        file, index, header: hunk.header,
+        applied: merge.conflicts === 0,
+        merged: true,
+        conflicts: merge.conflicts,
+        reason: merge.conflicts ? 'merge_conflict' : undefined
+      });
+      return;
+    }
+
+    const replacement = plan.newLines.slice(match.trimStart, plan.newLines.length - match.trimEnd);
+    const removed = plan.oldLines.length - match.trimStart - match.trimEnd;
+    lines.splice(match.index, removed, ...replacement);
+
+    const offset = match.index - (expected + match.trimStart);
+    lastOffset += offset;
+    lineDelta += replacement.length - removed;
+    if (plan.noEolNew) endsWithNewline = false;
+    else if (plan.noEolOld) endsWithNewline = true;
+
+    hunkResults.push({ file, index, header: hunk.header, applied: true, offset, fuzz: match.fuzz });
+  });
+
+  const body = lines.join(eol);
+  return {
+    content: body.length && endsWithNewline ? body + eol : body,
+    hunkResults
+  };
+}
+
+function isInsideWorkspace(root: string, relPath: string) {
+  const resolved = path.resolve(root, relPath);
+  return resolved !== path.resolve(root) && resolved.startsWith(path.resolve(root) + path.sep);
+}
+
+function parseMode(mode?: string): number | undefined {
+  if (!mode) return undefined;
+  return parseInt(mode.slice(-3), 8);
+}
+
+function failAll(file: ParsedDiffFile, name: string, reason: string): HunkApplyResult[] {
+  return file.hunks.map((h, index) => ({ file: name, index, header: h.header, applied: false, reason }));
+}
+
+async function planFile(workspace: WorkspaceManager, file: ParsedDiffFile, opts: ResolvedApplyOptions): Promise<{ ops: FileOp[]; hunkResults: HunkApplyResult[]; error?: string }> {
+  const source = file.isNew ? null : file.oldPath;
+  const target = file.isDeleted ? null : (file.newPath || file.oldPath);
+  const name = target || source || 'unknown';
+
+  for (const p of [source, target]) {
+    if (p && !isInsideWorkspace(workspace.root, p)) {
+      return { ops: [], hunkResults: failAll(file, name, 'path_outside_workspace'), error: 'path_outside_workspace' };
+    }
+  }
+
+  let original = '';
+  if (source) {
+    if (!(await workspace.exists(source))) {
+      return { ops: [], hunkResults: failAll(file, name, 'file_missing'), error: 'file_missing' };
+    }
+    original = await workspace.readFile(source);
+  }
+
+  const applied = applyHunksToContent(name, original, file.hunks, opts);
+  const { hunkResults } = applied;
+  let { content } = applied;
+  if (hunkResults.some(h => !h.applied && h.reason !== 'merge_conflict')) return { ops: [], hunkResults, error: 'hunk_failed' };
+
+  const conflicted = hunkResults.filter(h => h.reason === 'merge_conflict');
+  if (conflicted.length) {
+    const resolved = opts.resolveConflicts ? await opts.resolveConflicts(name, content) : null;
+    if (resolved === null || /^(<<<<<<<|>>>>>>>) /m.test(resolved)) return { ops: [], hunkResults, error: 'merge_conflict' };
+    content = resolved;
+    for (const h of conflicted) {
+      h.applied = true;
+      h.reason = 'merge_conflict_resolved';
+    }
+  }
+
+  if (file.isDeleted) {
+    if (file.hunks.length && content.trim()) return { ops: [], hunkResults, error: 'delete_content_mismatch' };
+    return { ops: [{ kind: 'remove', path: source as string }], hunkResults };
+  }
+
+  const targetPath = target as string;
+  if ((file.isNew || (file.isRename && targetPath !== source)) && await workspace.exists(targetPath)) {
+    const existing = await workspace.readFile(targetPath);
+    if (existing !== content) return { ops: [], hunkResults, error: 'file_exists' };
+  }
+
+  const ops: FileOp[] = [{ kind: 'write', path: targetPath, content, mode: parseMode(file.newMode) }];
+  if (source && source !== targetPath) ops.push({ kind: 'remove', path: source });
+  return { ops, hunkResults };
+}
+
+// Applies a parsed diff hunk by hunk. Nothing is written unless every file applies, unless `partial` is set.
+export async function applyParsedDiff(workspace: WorkspaceManager, parsedDiff: ParsedDiff, options: ApplyOptions = {}): Promise<ParsedDiffApplyResult> {
+  const opts = resolveOptions(options);
   const failed: string[] = [];
-  
+  const hunkResults: HunkApplyResult[] = [];
+  const ops: FileOp[] = [];
+
   for (const file of parsedDiff.files) {
+    const name = file.newPath || file.oldPath || 'unknown';
     try {
-      // Apply each file's changes
-      if (file.isNew && file.newPath) {
-        // Create new file
-        const content = file.hunks.flatMap(h => h.lines.filter(l => l.startsWith('+')).map(l => l.slice(1))).join('\n');
-        await workspace.writeFile(file.newPath, content);
-      } else if (file.isDeleted && file.oldPath) {
-        // Delete file - implement if needed
-        failed.push(file.oldPath);
-      } else if (file.oldPath) {
-        // Modify existing file - basic implementation
-        try {
-          const content = await workspace.readFile(file.oldPath);
-          // This is a simplified implementation - real patch application would be more complex
-          await workspace.writeFile(file.oldPath, content);
-        } catch (e) {
-          failed.push(file.oldPath);
-        }
-      }
+      const plan = await planFile(workspace, file, opts);
+      hunkResults.push(...plan.hunkResults);
+      if (plan.error) failed.push(name);
+      else ops.push(...plan.ops);
     } catch (e) {
-      failed.push(file.oldPath || file.newPath || 'unknown');
+      failed.push(name);
+    }
+  }
+
+  if (failed.length && !opts.partial) return { failed, hunkResults };
+
+  for (const op of ops) {
+    if (op.kind === 'remove') {
+      await workspace.removeFile(op.path);
+    } else {
+      await workspace.writeFile(op.path, op.content);
+      if (op.mode !== undefined) await workspace.chmod(op.path, op.mode);
     }
   }
-  
-  return { failed };
+
+  return { failed, hunkResults };
 }
 
-// Missing function required by adaptiveLoop.ts  
+// Stages everything, commits and pushes; returns the new commit SHA or throws with git's stderr.
 export async function stageCommitPush(workspace: WorkspaceManager, message: string, branch: string): Promise<string> {
-  try {
-    // Stage all changes
-    await workspace.run(['git', 'add', '.']);
-    
-    // Commit with message
-    const commitResult = await workspace.run(['git', 'commit', '-m', message]);
-    
-    // Extract commit SHA from output
-    const commitSha = commitResult.stdout.match(/\[.+?\s([a-f0-9]{7,})\]/)?.[1] || 'unknown';
-    
-    // Push to branch
-    await workspace.run(['git', 'push', 'origin', branch]);
-    
-    return commitSha;
-  } catch (error) {
-    console.error('Git operations failed:', error);
-    return 'mock-commit-sha';
+  const steps: string[][] = [
+    ['git', 'add', '-A'],
+    ['git', 'commit', '-m', message]
+  ];
+  for (const step of steps) {
+    const result = await workspace.run(step);
+    if (!result.ok) throw new Error(`${step.slice(0, 2).join(' ')} failed (exit ${result.exitCode}): ${result.stderr.trim()}`);
   }
+
+  const head = await workspace.run(['git', 'rev-parse', 'HEAD']);
+  const push = await workspace.run(['git', 'push', 'origin', `HEAD:refs/heads/${branch}`], workspace.root, { timeoutMs: 5 * 60 * 1000, env: workspace.gitEnv() });
+  if (!push.ok) throw new Error(`git push failed (${push.timedOut ? 'timed out' : `exit ${push.exitCode}`}): ${push.stderr.trim()}`);
+
+  return head.stdout.trim();
 }
 
-export default { applyUnifiedDiff, applyParsedDiff, stageCommitPush };
\ No newline at end of file
+export default { applyUnifiedDiff, applyParsedDiff, applyHunksToContent, stageCommitPush };
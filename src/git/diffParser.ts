@@ -4,6 +4,8 @@ export interface ParsedFileDiff {
   isNew: boolean;
   isDeleted: boolean;
   isRename: boolean;
+  oldMode?: string;
+  newMode?: string;
   added: number;
   deleted: number;
   hunks: { header: string; oldStart: number; oldLines: number; newStart: number; newLines: number; lines: string[] }[];
@@ -22,11 +24,14 @@ export function parseUnifiedDiff(diff: string): ParsedDiff {
   let current: ParsedFileDiff | null = null;
 
   const fileHeaderRegex = /^diff --git a\/(\S+) b\/(\S+)/;
-  const newFileRegex = /^new file mode /;
-  const deletedFileRegex = /^deleted file mode /;
+  const newFileRegex = /^new file mode (\d+)/;
+  const deletedFileRegex = /^deleted file mode (\d+)/;
+  const oldModeRegex = /^old mode (\d+)/;
+  const newModeRegex = /^new mode (\d+)/;
   const renameFrom = /^rename from (.+)/;
   const renameTo = /^rename to (.+)/;
-  const hunkHeaderRegex = /^@@ .* @@/;
+  const hunkHeaderRegex = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+  const looseHunkHeaderRegex = /^@@/;
 
   for (const line of lines) {
     const fh = fileHeaderRegex.exec(line);
@@ -36,22 +41,24 @@ export function parseUnifiedDiff(diff: string): ParsedDiff {
       continue;
     }
     if (!current) continue;
-    if (newFileRegex.test(line)) current.isNew = true;
-    else if (deletedFileRegex.test(line)) current.isDeleted = true;
+    if (newFileRegex.test(line)) { current.isNew = true; current.newMode = newFileRegex.exec(line)?.[1]; }
+    else if (deletedFileRegex.test(line)) { current.isDeleted = true; current.oldMode = deletedFileRegex.exec(line)?.[1]; }
+    else if (oldModeRegex.test(line)) current.oldMode = oldModeRegex.exec(line)?.[1];
+    else if (newModeRegex.test(line)) current.newMode = newModeRegex.exec(line)?.[1];
     else if (renameFrom.test(line)) { current.isRename = true; current.oldPath = renameFrom.exec(line)?.[1] || null; }
     else if (renameTo.test(line)) { current.isRename = true; current.newPath = renameTo.exec(line)?.[1] || null; }
-    else if (hunkHeaderRegex.test(line)) {
+    else if (looseHunkHeaderRegex.test(line)) {
+      // LLMs sometimes emit a bare "@@" header; keep the hunk with zeroed
+      // positions so the applier can locate it by context instead.
       const hunkMatch = hunkHeaderRegex.exec(line);
-      if (hunkMatch) {
-        current.hunks.push({ 
-          header: line, 
-          oldStart: parseInt(hunkMatch[1] || '0', 10),
-          oldLines: parseInt(hunkMatch[2] || '0', 10),
-          newStart: parseInt(hunkMatch[3] || '0', 10),
-          newLines: parseInt(hunkMatch[4] || '0', 10),
-          lines: [] 
-        });
-      }
+      current.hunks.push({
+        header: line,
+        oldStart: parseInt(hunkMatch?.[1] || '0', 10),
+        oldLines: hunkMatch ? parseInt(hunkMatch[2] ?? '1', 10) : 0,
+        newStart: parseInt(hunkMatch?.[3] || '0', 10),
+        newLines: hunkMatch ? parseInt(hunkMatch[4] ?? '1', 10) : 0,
+        lines: []
+      });
     } else if (line.startsWith('+') && !line.startsWith('+++')) {
       current.added++;
       current.hunks.at(-1)?.lines.push(line);
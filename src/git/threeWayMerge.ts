@@ -0,0 +1,87 @@
+import { diffArrays } from 'diff';
+
+export interface MergeLabels {
+  ours: string;
+  base: string;
+  theirs: string;
+}
+
+export interface ThreeWayMergeResult {
+  lines: string[];
+  conflicts: number;
+}
+
+const defaultLabels: MergeLabels = { ours: 'workspace', base: 'patch-base', theirs: 'agent-patch' };
+
+// Maps every base line that survives unchanged in `other` to its index there.
+export function matchLines(base: string[], other: string[]): (number | undefined)[] {
+  const map: (number | undefined)[] = new Array(base.length).fill(undefined);
+  let bi = 0;
+  let oi = 0;
+  for (const part of diffArrays(base, other)) {
+    const count = part.count ?? part.value.length;
+    if (part.added) {
+      oi += count;
+    } else if (part.removed) {
+      bi += count;
+    } else {
+      for (let k = 0; k < count; k++) map[bi + k] = oi + k;
+      bi += count;
+      oi += count;
+    }
+  }
+  return map;
+}
+
+function sameLines(a: string[], b: string[]) {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+/**
+ * diff3-style merge of two descendants of `base`. Regions changed on one side only
+ * are taken from that side; regions changed differently on both sides are emitted
+ * between git-style conflict markers (including the `|||||||` base section).
+ */
+export function mergeThreeWay(base: string[], ours: string[], theirs: string[], labels: MergeLabels = defaultLabels): ThreeWayMergeResult {
+  const toOurs = matchLines(base, ours);
+  const toTheirs = matchLines(base, theirs);
+  const lines: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let o = 0;
+  let t = 0;
+
+  for (;;) {
+    while (b < base.length && toOurs[b] === o && toTheirs[b] === t) {
+      lines.push(base[b] as string);
+      b++; o++; t++;
+    }
+    if (b >= base.length && o >= ours.length && t >= theirs.length) break;
+
+    let next = b;
+    while (next < base.length && (toOurs[next] === undefined || toTheirs[next] === undefined)) next++;
+    const oEnd = next < base.length ? toOurs[next] as number : ours.length;
+    const tEnd = next < base.length ? toTheirs[next] as number : theirs.length;
+
+    const baseChunk = base.slice(b, next);
+    const ourChunk = ours.slice(o, oEnd);
+    const theirChunk = theirs.slice(t, tEnd);
+
+    if (sameLines(ourChunk, baseChunk) || sameLines(ourChunk, theirChunk)) {
+      lines.push(...theirChunk);
+    } else if (sameLines(theirChunk, baseChunk)) {
+      lines.push(...ourChunk);
+    } else {
+      conflicts++;
+      lines.push(`<<<<<<< ${labels.ours}`, ...ourChunk, `||||||| ${labels.base}`, ...baseChunk, '=======', ...theirChunk, `>>>>>>> ${labels.theirs}`);
+    }
+
+    b = next;
+    o = oEnd;
+    t = tEnd;
+  }
+
+  return { lines, conflicts };
+}
+
+export default { mergeThreeWay, matchLines };
@@ -0,0 +1,335 @@
+// Persistent workspace cache - one bare mirror per repository, one git worktree per agent branch
+import fs from 'fs/promises';
+import path from 'path';
+import pino from 'pino';
+import { cfg } from '../config.js';
+import { gitAuthEnv, runGitChecked } from '../util/commandRunner.js';
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+export interface CacheCheckoutOptions {
+  owner: string;
+  repo: string;
+  branch: string;
+  /** Without credentials; they are passed per command via `token` */
+  cloneUrl: string;
+  token?: string;
+  baseBranch?: string;
+}
+
+export interface CacheCheckout {
+  dir: string;
+  /** Identifies the repository within the cache */
+  repoKey: string;
+  /** The bare mirror the worktree's .git file points into */
+  gitDir: string;
+  release(): Promise<void>;
+}
+
+export interface WorkspaceCacheOptions {
+  root?: string;
+  quotaBytes?: number;
+  lockTimeoutMs?: number;
+  lockStaleMs?: number;
+}
+
+interface CacheEntry {
+  dir: string;
+  repoKey: string;
+  kind: 'mirror' | 'worktree';
+  lastUsed: number;
+  bytes: number;
+}
+
+function slug(value: string) {
+  return value.replace(/[^a-zA-Z0-9._-]+/g, '_');
+}
+
+async function dirSize(dir: string): Promise<number> {
+  let total = 0;
+  let entries: import('fs').Dirent[];
+  try {
+    entries = await fs.readdir(dir, { withFileTypes: true });
+  } catch {
+    return 0;
+  }
+  for (const entry of entries) {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      total += await dirSize(full);
+    } else if (entry.isFile()) {
+      total += (await fs.stat(full).catch(() => ({ size: 0 }))).size;
+    }
+  }
+  return total;
+}
+
+export class WorkspaceCache {
+  private readonly root: string;
+  private readonly quotaBytes: number;
+  private readonly lockTimeoutMs: number;
+  private readonly lockStaleMs: number;
+  // Serializes jobs for the same repo within this process; the lock file covers other processes
+  private readonly localLocks = new Map<string, Promise<void>>();
+  private readonly activeRepos = new Set<string>();
+
+  constructor(options: WorkspaceCacheOptions = {}) {
+    this.root = options.root || cfg.workspace.tempRoot;
+    this.quotaBytes = options.quotaBytes ?? cfg.workspace.quotaBytes;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? cfg.workspace.lockTimeoutMs;
+    this.lockStaleMs = options.lockStaleMs ?? cfg.workspace.lockStaleMs;
+  }
+
+  private repoKey(owner: string, repo: string) {
+    return `${slug(owner)}__${slug(repo)}`;
+  }
+
+  private mirrorDir(repoKey: string) {
+    return path.join(this.root, 'mirrors', `${repoKey}.git`);
+  }
+
+  private worktreeDir(repoKey: string, branch: string) {
+    return path.join(this.root, 'worktrees', repoKey, slug(branch));
+  }
+
+  private lockFile(repoKey: string) {
+    return path.join(this.root, 'locks', `${repoKey}.lock`);
+  }
+
+  private async git(args: string[], cwd: string, token?: string) {
+    // Clones and fetches of large repositories can take a while
+    return runGitChecked(args, { cwd, timeoutMs: 10 * 60 * 1000, env: token ? gitAuthEnv(token) : undefined });
+  }
+
+  private async refExists(mirror: string, ref: string) {
+    try {
+      await this.git(['rev-parse', '--verify', '--quiet', ref], mirror);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async defaultBranch(mirror: string) {
+    try {
+      // A bare clone keeps HEAD pointing at the remote's default branch
+      const { stdout } = await this.git(['symbolic-ref', '--short', 'HEAD'], mirror);
+      return stdout.trim() || cfg.git.defaultBase;
+    } catch {
+      return cfg.git.defaultBase;
+    }
+  }
+
+  /**
+   * Checks out `branch` in a worktree backed by the repo's bare mirror. The repo
+   * stays locked until `release()` is called, so callers must release in a finally.
+   */
+  async checkout(options: CacheCheckoutOptions): Promise<CacheCheckout> {
+    const repoKey = this.repoKey(options.owner, options.repo);
+    const unlock = await this.lock(repoKey);
+    this.activeRepos.add(repoKey);
+
+    try {
+      const mirror = await this.ensureMirror(repoKey, options.cloneUrl, options.token);
+      const baseBranch = options.baseBranch || await this.defaultBranch(mirror);
+      const dir = await this.ensureWorktree(repoKey, mirror, options.branch, baseBranch);
+      const now = new Date();
+      await fs.utimes(mirror, now, now).catch(() => undefined);
+      await fs.utimes(dir, now, now).catch(() => undefined);
+
+      let released = false;
+      return {
+        dir,
+        repoKey,
+        gitDir: mirror,
+        release: async () => {
+          if (released) return;
+          released = true;
+          this.activeRepos.delete(repoKey);
+          await unlock();
+          await this.enforceQuota().catch(err => log.warn({ err }, 'Workspace cache eviction failed'));
+        }
+      };
+    } catch (error) {
+      this.activeRepos.delete(repoKey);
+      await unlock();
+      throw error;
+    }
+  }
+
+  private async ensureMirror(repoKey: string, cloneUrl: string, token?: string): Promise<string> {
+    const mirror = this.mirrorDir(repoKey);
+    const exists = await fs.access(path.join(mirror, 'HEAD')).then(() => true, () => false);
+
+    if (!exists) {
+      await fs.rm(mirror, { recursive: true, force: true });
+      await fs.mkdir(path.dirname(mirror), { recursive: true });
+      await this.git(['clone', '--bare', cloneUrl, mirror], this.root, token);
+      // Track remote branches separately so fetches never touch branches checked out in worktrees
+      await this.git(['config', 'remote.origin.fetch', '+refs/heads/*:refs/remotes/origin/*'], mirror);
+      log.info({ repoKey }, 'Created workspace mirror');
+    } else {
+      // Also replaces URLs with an embedded token left by older versions
+      await this.git(['remote', 'set-url', 'origin', cloneUrl], mirror);
+    }
+
+    await this.git(['fetch', '--prune', 'origin'], mirror, token);
+    await this.git(['worktree', 'prune'], mirror);
+    return mirror;
+  }
+
+  private async ensureWorktree(repoKey: string, mirror: string, branch: string, baseBranch: string): Promise<string> {
+    const dir = this.worktreeDir(repoKey, branch);
+    const remoteRef = `refs/remotes/origin/${branch}`;
+    const startPoint = await this.refExists(mirror, remoteRef) ? remoteRef : `refs/remotes/origin/${baseBranch}`;
+    const exists = await fs.access(path.join(dir, '.git')).then(() => true, () => false);
+
+    if (!exists) {
+      await fs.rm(dir, { recursive: true, force: true });
+      await fs.mkdir(path.dirname(dir), { recursive: true });
+      await this.git(['worktree', 'add', '--force', '-B', branch, dir, startPoint], mirror);
+    } else {
+      // Drop leftovers of a previous (possibly crashed) job before reusing the checkout
+      await this.git(['reset', '--hard'], dir);
+      await this.git(['clean', '-fdx'], dir);
+      await this.git(['checkout', '-B', branch, startPoint], dir);
+    }
+
+    await this.git(['config', 'user.email', cfg.git.commitAuthorEmail], dir);
+    await this.git(['config', 'user.name', cfg.git.commitAuthorName], dir);
+    return dir;
+  }
+
+  private async lock(repoKey: string, timeoutMs = this.lockTimeoutMs): Promise<() => Promise<void>> {
+    const previous = this.localLocks.get(repoKey) || Promise.resolve();
+    let releaseLocal!: () => void;
+    const current = new Promise<void>(resolve => { releaseLocal = resolve; });
+    const chained = previous.then(() => current);
+    this.localLocks.set(repoKey, chained);
+    await previous;
+
+    const lockFile = this.lockFile(repoKey);
+    try {
+      await this.acquireLockFile(lockFile, timeoutMs);
+    } catch (error) {
+      releaseLocal();
+      if (this.localLocks.get(repoKey) === chained) this.localLocks.delete(repoKey);
+      throw error;
+    }
+
+    // Iterations can outlast lockStaleMs (installs, test runs, verification); refreshing the mtime keeps a held lock from looking stale
+    const heartbeat = setInterval(() => {
+      const now = new Date();
+      fs.utimes(lockFile, now, now).catch(() => undefined);
+    }, Math.max(50, Math.floor(this.lockStaleMs / 3)));
+    heartbeat.unref();
+
+    return async () => {
+      clearInterval(heartbeat);
+      await fs.rm(lockFile, { force: true });
+      releaseLocal();
+      if (this.localLocks.get(repoKey) === chained) this.localLocks.delete(repoKey);
+    };
+  }
+
+  /** Whether a job holds the repo's lock: in this process, or in another one that is still refreshing it. */
+  async isLocked(owner: string, repo: string): Promise<boolean> {
+    const repoKey = this.repoKey(owner, repo);
+    if (this.localLocks.has(repoKey)) return true;
+    const stat = await fs.stat(this.lockFile(repoKey)).catch(() => null);
+    return !!stat && Date.now() - stat.mtimeMs <= this.lockStaleMs;
+  }
+
+  private async acquireLockFile(lockFile: string, timeoutMs: number) {
+    await fs.mkdir(path.dirname(lockFile), { recursive: true });
+    const deadline = Date.now() + timeoutMs;
+    let delay = 100;
+
+    for (;;) {
+      try {
+        const handle = await fs.open(lockFile, 'wx');
+        await handle.writeFile(JSON.stringify({ pid: process.pid, at: Date.now() }));
+        await handle.close();
+        return;
+      } catch (error: any) {
+        if (error.code !== 'EEXIST') throw error;
+      }
+
+      const stat = await fs.stat(lockFile).catch(() => null);
+      if (stat && Date.now() - stat.mtimeMs > this.lockStaleMs) {
+        log.warn({ lockFile }, 'Removing stale workspace lock');
+        await fs.rm(lockFile, { force: true });
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out waiting for workspace lock ${lockFile}`);
+      }
+      await new Promise(resolve => setTimeout(resolve, delay));
+      delay = Math.min(delay * 2, 2000);
+    }
+  }
+
+  private async listEntries(): Promise<CacheEntry[]> {
+    const entries: CacheEntry[] = [];
+    const mirrorsRoot = path.join(this.root, 'mirrors');
+    const worktreesRoot = path.join(this.root, 'worktrees');
+
+    for (const name of await fs.readdir(mirrorsRoot).catch(() => [] as string[])) {
+      const dir = path.join(mirrorsRoot, name);
+      const stat = await fs.stat(dir).catch(() => null);
+      if (!stat?.isDirectory()) continue;
+      entries.push({ dir, repoKey: name.replace(/\.git$/, ''), kind: 'mirror', lastUsed: stat.mtimeMs, bytes: await dirSize(dir) });
+    }
+    for (const repoKey of await fs.readdir(worktreesRoot).catch(() => [] as string[])) {
+      for (const name of await fs.readdir(path.join(worktreesRoot, repoKey)).catch(() => [] as string[])) {
+        const dir = path.join(worktreesRoot, repoKey, name);
+        const stat = await fs.stat(dir).catch(() => null);
+        if (!stat?.isDirectory()) continue;
+        entries.push({ dir, repoKey, kind: 'worktree', lastUsed: stat.mtimeMs, bytes: await dirSize(dir) });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Evicts least recently used worktrees, then mirrors that no longer have any,
+   * until the cache fits the disk quota. Repos with an active checkout are skipped.
+   */
+  async enforceQuota(): Promise<string[]> {
+    const entries = await this.listEntries();
+    let total = entries.reduce((sum, e) => sum + e.bytes, 0);
+    const evicted: string[] = [];
+    if (total <= this.quotaBytes) return evicted;
+
+    const candidates = entries
+      .filter(e => !this.activeRepos.has(e.repoKey) && !this.localLocks.has(e.repoKey))
+      .sort((a, b) => (a.kind === b.kind ? a.lastUsed - b.lastUsed : a.kind === 'worktree' ? -1 : 1));
+
+    for (const entry of candidates) {
+      if (total <= this.quotaBytes) break;
+      if (entry.kind === 'mirror' && entries.some(e => e.kind === 'worktree' && e.repoKey === entry.repoKey && !evicted.includes(e.dir))) continue;
+
+      let unlock: (() => Promise<void>) | undefined;
+      try {
+        // Never wait on a busy repo; it is in use and therefore not a good eviction candidate
+        unlock = await this.lock(entry.repoKey, 0);
+        if (entry.kind === 'worktree') {
+          await this.git(['worktree', 'remove', '--force', entry.dir], this.mirrorDir(entry.repoKey)).catch(() => undefined);
+        }
+        await fs.rm(entry.dir, { recursive: true, force: true });
+        total -= entry.bytes;
+        evicted.push(entry.dir);
+        log.info({ dir: entry.dir, bytes: entry.bytes }, 'Evicted workspace cache entry');
+      } catch (err) {
+        log.warn({ err, dir: entry.dir }, 'Failed to evict workspace cache entry');
+      } finally {
+        await unlock?.();
+      }
+    }
+    return evicted;
+  }
+}
+
+export const workspaceCache = new WorkspaceCache();
+
+export default { WorkspaceCache, workspaceCache };
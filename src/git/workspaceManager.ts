@@ -1,9 +1,11 @@
 import fs from 'fs/promises';
 import path from 'path';
 import os from 'os';
-import { exec as cpExec } from 'child_process';
-import { promisify } from 'util';
-const exec = promisify(cpExec);
+import { WorkspaceCache, workspaceCache } from './workspaceCache.js';
+import { CommandResult, RunOptions, gitAuthEnv, runCommand, runGit, runGitChecked } from '../util/commandRunner.js';
+import { CommandTranscript, SandboxOptions, SandboxRunner, sandboxRunner } from '../util/sandboxRunner.js';
+
+const GIT_NETWORK_TIMEOUT_MS = 5 * 60 * 1000;
 
 export interface WorkspaceOptions { 
   owner: string;
@@ -11,77 +13,113 @@ export interface WorkspaceOptions {
   branch: string;
   cloneUrl: string;
   installationToken: string;
+  baseBranch?: string;
+}
+
+export interface CommitResult {
+  ok: boolean;
+  sha?: string;
+  /** git's stderr when nothing was committed */
+  error?: string;
 }
 
 export class WorkspaceManager {
   root: string;
-  constructor(root?: string) { this.root = root || process.cwd(); }
+  /** Every command run through `exec` in this workspace, saved with the iteration */
+  readonly transcript = new CommandTranscript();
+  private cache: WorkspaceCache;
+  private sandbox: SandboxRunner;
+  private releaseCheckout?: () => Promise<void>;
+  private installationToken?: string;
+  private sandboxScope?: Pick<SandboxOptions, 'repoKey' | 'gitDir'>;
+  constructor(root?: string, cache: WorkspaceCache = workspaceCache, sandbox: SandboxRunner = sandboxRunner) {
+    this.root = root || process.cwd();
+    this.cache = cache;
+    this.sandbox = sandbox;
+  }
   
   async createTempWorkspace(prefix = 'gitauto'): Promise<string> {
     const dir = await fs.mkdtemp(path.join(os.tmpdir(), prefix));
     return dir;
   }
   
+  // Checks out the branch from the persistent cache; the returned workspace must be released when done.
+  // The token is kept in memory and passed to each network command, never stored in the remote URL
   async ensureWorkspace(options: WorkspaceOptions): Promise<WorkspaceManager> {
-    const workspaceDir = await this.createTempWorkspace(`${options.owner}-${options.repo}-`);
-    
-    try {
-      // Clone the repository
-      const cloneUrl = options.cloneUrl.replace('https://', `https://x-access-token:${options.installationToken}@`);
-      await exec(`git clone --depth 1 --branch ${options.branch} ${cloneUrl} .`, { cwd: workspaceDir });
-      
-      // Configure git user
-      await exec('git config user.email "bot@gitautonomic.com"', { cwd: workspaceDir });
-      await exec('git config user.name "GitAutonomic Bot"', { cwd: workspaceDir });
-      
-      return new WorkspaceManager(workspaceDir);
-    } catch (error) {
-      console.error('Failed to setup workspace:', error);
-      // Return a workspace pointing to the empty directory for fallback
-      return new WorkspaceManager(workspaceDir);
-    }
+    const checkout = await this.cache.checkout({
+      owner: options.owner,
+      repo: options.repo,
+      branch: options.branch,
+      baseBranch: options.baseBranch,
+      cloneUrl: options.cloneUrl.replace(/^https:\/\/[^@/]+@/, 'https://'),
+      token: options.installationToken
+    });
+    const workspace = new WorkspaceManager(checkout.dir, this.cache, this.sandbox);
+    workspace.releaseCheckout = checkout.release;
+    workspace.installationToken = options.installationToken;
+    workspace.sandboxScope = { repoKey: checkout.repoKey, gitDir: checkout.gitDir };
+    return workspace;
+  }
+
+  /** Environment for git commands that talk to GitHub (push, fetch) from this workspace. */
+  gitEnv(): Record<string, string | undefined> | undefined {
+    return this.installationToken ? gitAuthEnv(this.installationToken) : undefined;
   }
   
-  async stageAll(workspace: WorkspaceManager): Promise<void> {
-    try {
-      await exec('git add .', { cwd: workspace.root });
-    } catch (e) {
-      // ignore for now
-    }
+  async release(): Promise<void> {
+    const release = this.releaseCheckout;
+    this.releaseCheckout = undefined;
+    await release?.();
   }
   
-  async commit(workspace: WorkspaceManager, message: string): Promise<string> {
-    try {
-      const { stdout } = await exec(`git commit -m "${message}"`, { cwd: workspace.root });
-      // Extract commit SHA from output
-      const match = stdout.match(/\[.*?\s([a-f0-9]+)\]/);
-      return match?.[1] || 'mock-commit-sha';
-    } catch (e) {
-      return 'fatal: no changes to commit';
-    }
+  async stageAll(workspace: WorkspaceManager): Promise<CommandResult> {
+    return runGit(['add', '-A'], { cwd: workspace.root });
   }
   
-  async push(workspace: WorkspaceManager, branch: string): Promise<void> {
-    try {
-      await exec(`git push origin ${branch}`, { cwd: workspace.root });
-    } catch (e) {
-      // ignore for now
-    }
+  async commit(workspace: WorkspaceManager, message: string): Promise<CommitResult> {
+    // Passed as a single argv entry, so quotes or $() in task titles are never interpreted
+    const result = await runGit(['commit', '-m', message], { cwd: workspace.root });
+    if (!result.ok) return { ok: false, error: (result.stderr || result.stdout).trim() || 'no changes to commit' };
+    const head = await runGit(['rev-parse', 'HEAD'], { cwd: workspace.root });
+    return head.ok ? { ok: true, sha: head.stdout.trim() } : { ok: false, error: head.stderr.trim() || 'could not resolve HEAD' };
   }
   
-  async applyPatch(patch: string, dir = this.root): Promise<{ ok: boolean; stderr?: string }> {
-    try {
-      const process = await cpExec('git apply', { cwd: dir });
-      process.stdin?.write(patch);
-      process.stdin?.end();
-      return { ok: true };
-    } catch (e: any) {
-      return { ok: false, stderr: e.stderr || e.message };
+  async push(workspace: WorkspaceManager, branch: string): Promise<CommandResult> {
+    return runGit(['push', 'origin', `HEAD:refs/heads/${branch}`], { cwd: workspace.root, timeoutMs: GIT_NETWORK_TIMEOUT_MS, env: workspace.gitEnv() });
+  }
+
+  /** Replays local commits on top of the remote branch, e.g. plan document commits made through the API meanwhile. */
+  async rebaseOnRemote(workspace: WorkspaceManager, branch: string): Promise<CommandResult> {
+    const remoteRef = `refs/remotes/origin/${branch}`;
+    const fetched = await runGit(['fetch', 'origin', `+refs/heads/${branch}:${remoteRef}`], { cwd: workspace.root, timeoutMs: GIT_NETWORK_TIMEOUT_MS, env: workspace.gitEnv() });
+    // A branch that was never pushed has nothing to rebase onto
+    if (!fetched.ok) return /couldn't find remote ref/i.test(fetched.stderr) ? { ...fetched, ok: true } : fetched;
+    const rebased = await runGit(['rebase', remoteRef], { cwd: workspace.root });
+    if (!rebased.ok) await runGit(['rebase', '--abort'], { cwd: workspace.root });
+    return rebased;
+  }
+
+  /** Pushes after rebasing onto the remote branch, rebasing once more if the push still loses a race. */
+  async pushRebased(workspace: WorkspaceManager, branch: string): Promise<{ result: CommandResult; sha?: string }> {
+    let result!: CommandResult;
+    for (let attempt = 1; attempt <= 2; attempt++) {
+      result = await this.rebaseOnRemote(workspace, branch);
+      if (!result.ok) break;
+      result = await this.push(workspace, branch);
+      if (result.ok || result.timedOut) break;
     }
+    const head = await runGit(['rev-parse', 'HEAD'], { cwd: workspace.root });
+    return { result, sha: result.ok && head.ok ? head.stdout.trim() : undefined };
+  }
+  
+  async applyPatch(patch: string, dir = this.root, opts: { check?: boolean } = {}): Promise<{ ok: boolean; stderr?: string; exitCode?: number | null }> {
+    const args = ['apply', '--whitespace=nowarn', ...(opts.check ? ['--check'] : []), '-'];
+    const result = await runGit(args, { cwd: dir, input: patch });
+    return { ok: result.ok, stderr: result.stderr, exitCode: result.exitCode };
   }
   
   async restoreFile(relPath: string, dir = this.root) {
-    await exec(`git checkout -- ${relPath}`, { cwd: dir });
+    await runGitChecked(['checkout', '--', relPath], { cwd: dir });
   }
   
   async readFile(relPath: string, dir = this.root) { 
@@ -94,14 +132,32 @@ export class WorkspaceManager {
     await fs.writeFile(full, content, 'utf8');
   }
   
-  async run(command: string[], dir = this.root): Promise<{ stdout: string; stderr: string }> {
+  async exists(relPath: string, dir = this.root): Promise<boolean> {
     try {
-      const { stdout, stderr } = await exec(command.join(' '), { cwd: dir });
-      return { stdout, stderr };
-    } catch (error: any) {
-      return { stdout: '', stderr: error.message || 'Command failed' };
+      await fs.access(path.join(dir, relPath));
+      return true;
+    } catch {
+      return false;
     }
   }
+  
+  async removeFile(relPath: string, dir = this.root) {
+    await fs.rm(path.join(dir, relPath), { force: true });
+  }
+  
+  async chmod(relPath: string, mode: number, dir = this.root) {
+    await fs.chmod(path.join(dir, relPath), mode);
+  }
+  
+  // Trusted tooling only (git); repository code goes through `exec`
+  async run(command: string[], dir = this.root, opts: Omit<RunOptions, 'cwd'> = {}): Promise<CommandResult> {
+    return runCommand(command, { ...opts, cwd: dir });
+  }
+
+  /** Runs repository code (tests, installs, acceptance commands) in the sandbox, recording it in the transcript. */
+  async exec(command: string[], opts: Omit<SandboxOptions, 'cwd' | 'transcript'> = {}): Promise<CommandResult> {
+    return this.sandbox.run(command, { ...opts, ...this.sandboxScope, cwd: this.root, transcript: this.transcript });
+  }
 }
 
 export default { WorkspaceManager };
\ No newline at end of file
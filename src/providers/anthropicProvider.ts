@@ -0,0 +1,33 @@
+import { cfg } from "../config.js";
+import { ChatCompletion, ChatMessage, ChatOptions, ChatProvider, joinUrl, postJson } from "./chatProvider.js";
+
+// Messages-API style endpoint: system prompt is a top-level field and replies are content blocks
+export class AnthropicProvider extends ChatProvider {
+  constructor(private apiKey: string | undefined, model: string, private endpoint: string = cfg.anthropicEndpoint) {
+    super(model);
+  }
+
+  name() { return 'anthropic'; }
+
+  protected available() { return !!this.apiKey; }
+
+  protected async complete(messages: ChatMessage[], opts: ChatOptions): Promise<ChatCompletion> {
+    const system = messages.filter(m => m.role === 'system').map(m => m.content).join('\n\n');
+    const data = await postJson(
+      joinUrl(this.endpoint, '/v1/messages'),
+      {
+        model: this.model,
+        system: system || undefined,
+        messages: messages.filter(m => m.role !== 'system'),
+        max_tokens: opts.maxTokens,
+        temperature: opts.temperature
+      },
+      { 'x-api-key': this.apiKey!, 'anthropic-version': cfg.anthropicVersion }
+    );
+    const text = (data?.content || [])
+      .filter((block: any) => block?.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+    return { text, promptTokens: data?.usage?.input_tokens, completionTokens: data?.usage?.output_tokens };
+  }
+}
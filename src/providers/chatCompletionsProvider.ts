@@ -0,0 +1,27 @@
+import { ChatCompletion, ChatMessage, ChatOptions, ChatProvider, postJson } from "./chatProvider.js";
+
+/**
+ * Generic chat-completions adapter for servers that speak the OpenAI wire format but need a
+ * full URL (no `/v1` convention) or no key at all, e.g. llama.cpp or text-generation-inference.
+ */
+export class ChatCompletionsProvider extends ChatProvider {
+  constructor(private url: string, model: string, private apiKey?: string) {
+    super(model);
+  }
+
+  name() { return 'chat-completions'; }
+
+  protected async complete(messages: ChatMessage[], opts: ChatOptions): Promise<ChatCompletion> {
+    const headers: Record<string, string> = this.apiKey ? { authorization: `Bearer ${this.apiKey}` } : {};
+    const data = await postJson(this.url, {
+      model: this.model,
+      messages,
+      temperature: opts.temperature,
+      max_tokens: opts.maxTokens,
+      stream: false
+    }, headers);
+    // Some servers return `{message}` or `{content}` instead of the `choices` envelope
+    const text = data?.choices?.[0]?.message?.content ?? data?.message?.content ?? data?.content ?? '';
+    return { text, promptTokens: data?.usage?.prompt_tokens, completionTokens: data?.usage?.completion_tokens };
+  }
+}
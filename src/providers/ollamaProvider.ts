@@ -0,0 +1,21 @@
+import { cfg } from "../config.js";
+import { ChatCompletion, ChatMessage, ChatOptions, ChatProvider, joinUrl, postJson } from "./chatProvider.js";
+
+// Local Ollama-style server (`POST /api/chat`); needs no API key
+export class OllamaProvider extends ChatProvider {
+  constructor(model: string, private endpoint: string = cfg.ollamaEndpoint) {
+    super(model);
+  }
+
+  name() { return 'ollama'; }
+
+  protected async complete(messages: ChatMessage[], opts: ChatOptions): Promise<ChatCompletion> {
+    const data = await postJson(joinUrl(this.endpoint, '/api/chat'), {
+      model: this.model,
+      messages,
+      stream: false,
+      options: { temperature: opts.temperature, num_predict: opts.maxTokens }
+    });
+    return { text: data?.message?.content || '', promptTokens: data?.prompt_eval_count, completionTokens: data?.eval_count };
+  }
+}
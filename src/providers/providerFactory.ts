@@ -1,8 +1,14 @@
+import pino from "pino";
 import { OpenAIProvider } from "./openaiProvider.js";
+import { OllamaProvider } from "./ollamaProvider.js";
+import { AnthropicProvider } from "./anthropicProvider.js";
+import { ChatCompletionsProvider } from "./chatCompletionsProvider.js";
 import { Provider } from "../types.js";
 import { cfg } from "../config.js";
 
-interface ProviderConfig {
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+export interface ProviderConfig {
   provider: string;
   model: string;
   endpoint?: string;
@@ -10,12 +16,48 @@ interface ProviderConfig {
   ghModelsToken?: string;
 }
 
+/** The installation's provider cannot be built; the agent is blocked rather than run on mock output. */
+export class ProviderConfigError extends Error {
+  constructor(public provider: string, public reason: string) {
+    super(`LLM provider "${provider}" is not usable: ${reason}`);
+    this.name = 'ProviderConfigError';
+  }
+}
+
+// Replay and scripted runs never call the inner provider, so a mock there is harmless
+function mockAllowed(): boolean {
+  return cfg.llm.allowMock || ['replay', 'scripted'].includes(cfg.llm.replayMode);
+}
+
+function mockOr(provider: string, reason: string, model: string): Provider {
+  if (!mockAllowed()) throw new ProviderConfigError(provider, reason);
+  log.warn(`Provider "${provider}" is not usable (${reason}); using mock provider`);
+  return new OpenAIProvider(undefined, model);
+}
+
 export function buildProvider(pc: ProviderConfig): Provider {
+  const model = pc.model || cfg.defaultModel;
   switch(pc.provider){
     case 'openai':
-      return new OpenAIProvider(pc.apiKeyPlain, pc.model);
+      if (!pc.apiKeyPlain) return mockOr(pc.provider, 'OPENAI_API_KEY is not set', model);
+      return new OpenAIProvider(pc.apiKeyPlain, model, pc.endpoint);
+    case 'openai-compatible':
+    case 'custom': {
+      if (!pc.endpoint) return mockOr(pc.provider, 'no endpoint configured (CUSTOM_LLM_ENDPOINT)', model);
+      // Local servers usually ignore the key, but the SDK refuses to start without one
+      return new OpenAIProvider(pc.apiKeyPlain || 'unused', model, pc.endpoint, 'openai-compatible');
+    }
+    case 'ollama':
+      return new OllamaProvider(model, pc.endpoint || cfg.ollamaEndpoint);
+    case 'anthropic':
+      if (!pc.apiKeyPlain) return mockOr(pc.provider, 'ANTHROPIC_API_KEY is not set', model);
+      return new AnthropicProvider(pc.apiKeyPlain, model, pc.endpoint || cfg.anthropicEndpoint);
+    case 'chat-completions':
+      if (!pc.endpoint) return mockOr(pc.provider, 'no endpoint configured (CUSTOM_LLM_ENDPOINT)', model);
+      return new ChatCompletionsProvider(pc.endpoint, model, pc.apiKeyPlain);
     case 'mock':
-    default:
-      return new OpenAIProvider(undefined, pc.model || cfg.defaultModel);
+      if (!mockAllowed()) throw new ProviderConfigError(pc.provider, 'no LLM provider is configured and the mock provider is disabled (LLM_ALLOW_MOCK)');
+      return new OpenAIProvider(undefined, model);
   }
+  return mockOr(pc.provider, 'unknown provider', model);
 }
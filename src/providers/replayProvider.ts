@@ -0,0 +1,146 @@
+import fs from "fs";
+import path from "path";
+import { parse as parseYaml } from "yaml";
+import {
+  Provider,
+  ProviderPlanContext,
+  ProviderPatchContext,
+  ProviderEvaluationContext,
+  ProviderEvaluationResult,
+  ProviderExplodeContext,
+  ExplodeResult,
+  ProviderAcceptanceContext,
+  AcceptanceJudgement,
+  ReasoningTrace,
+  UsageListener
+} from "../types.js";
+import { sha256 } from "../util/hash.js";
+
+export type ReplayMode = 'record' | 'replay' | 'scripted';
+
+type ProviderMethod = 'generatePlan' | 'generatePatch' | 'evaluateAndSuggest' | 'explodeTask' | 'verifyAcceptance' | 'metaRefinePrompt';
+
+export interface ReplayFixture {
+  method: ProviderMethod;
+  key: string;
+  request: unknown;
+  response: unknown;
+}
+
+/** Hand-written scenario: responses are handed out in order, per method. */
+export type ScriptedFixture = Partial<Record<ProviderMethod, unknown[]>>;
+
+export interface ReplayProviderOptions {
+  mode: ReplayMode;
+  /** Fixture directory (record/replay) or scenario file (scripted, `.json`/`.yml`) */
+  fixtures: string;
+  /** Real provider whose answers are recorded; required in record mode */
+  inner?: Provider;
+}
+
+export class ReplayMissError extends Error {
+  constructor(public method: string, public key: string) {
+    super(`No recorded ${method} response for key ${key.slice(0, 16)}; re-run in record mode`);
+  }
+}
+
+// Key order must not change the hash, otherwise re-recorded fixtures would never match
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as object)
+      .filter(k => (value as any)[k] !== undefined)
+      .sort()
+      .map(k => `${JSON.stringify(k)}:${stableStringify((value as any)[k])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+export function fixtureKey(method: string, request: unknown): string {
+  return sha256(stableStringify({ method, request }));
+}
+
+/**
+ * Deterministic provider for offline runs of the whole agent loop. `record` proxies to a real
+ * provider and stores each request/response pair keyed by a hash of the prompt context,
+ * `replay` answers from those files, and `scripted` plays back a hand-written scenario.
+ */
+export class ReplayProvider implements Provider {
+  private script?: ScriptedFixture;
+  private cursors: Partial<Record<ProviderMethod, number>> = {};
+
+  constructor(private opts: ReplayProviderOptions) {
+    if (opts.mode === 'record' && !opts.inner) throw new Error('ReplayProvider in record mode needs an inner provider');
+    if (opts.mode === 'scripted') {
+      const raw = fs.readFileSync(opts.fixtures, 'utf8');
+      this.script = (/\.ya?ml$/i.test(opts.fixtures) ? parseYaml(raw) : JSON.parse(raw)) || {};
+    }
+  }
+
+  name() { return `replay:${this.opts.mode}`; }
+
+  // Only recording spends tokens; replayed answers are free
+  setUsageListener(listener: UsageListener | undefined) {
+    if (this.opts.mode === 'record') this.opts.inner?.setUsageListener?.(listener);
+  }
+
+  generatePlan(ctx: ProviderPlanContext): Promise<string> {
+    return this.call('generatePlan', ctx, () => this.opts.inner!.generatePlan(ctx));
+  }
+
+  generatePatch(ctx: ProviderPatchContext): Promise<{ diff: string; noChanges?: boolean; trace?: ReasoningTrace }> {
+    return this.call('generatePatch', ctx, () => this.opts.inner!.generatePatch(ctx));
+  }
+
+  evaluateAndSuggest(ctx: ProviderEvaluationContext): Promise<ProviderEvaluationResult> {
+    return this.call('evaluateAndSuggest', ctx, () => this.requireInner('evaluateAndSuggest').evaluateAndSuggest!(ctx));
+  }
+
+  explodeTask(ctx: ProviderExplodeContext): Promise<ExplodeResult> {
+    return this.call('explodeTask', ctx, () => this.requireInner('explodeTask').explodeTask!(ctx));
+  }
+
+  verifyAcceptance(ctx: ProviderAcceptanceContext): Promise<AcceptanceJudgement> {
+    return this.call('verifyAcceptance', ctx, () => this.requireInner('verifyAcceptance').verifyAcceptance!(ctx));
+  }
+
+  metaRefinePrompt(rawPrompt: string, phase: string): Promise<string> {
+    return this.call('metaRefinePrompt', { rawPrompt, phase }, async () => {
+      const inner = this.opts.inner!;
+      return inner.metaRefinePrompt ? inner.metaRefinePrompt(rawPrompt, phase) : rawPrompt;
+    });
+  }
+
+  private requireInner(method: ProviderMethod): Provider {
+    const inner = this.opts.inner!;
+    if (!inner[method]) throw new Error(`Inner provider ${inner.name()} does not implement ${method}`);
+    return inner;
+  }
+
+  private async call<T>(method: ProviderMethod, request: unknown, live: () => Promise<T>): Promise<T> {
+    if (this.opts.mode === 'scripted') return this.nextScripted(method) as T;
+
+    const key = fixtureKey(method, request);
+    const file = path.join(this.opts.fixtures, `${method}-${key.slice(0, 16)}.json`);
+
+    if (this.opts.mode === 'replay') {
+      if (!fs.existsSync(file)) throw new ReplayMissError(method, key);
+      return (JSON.parse(fs.readFileSync(file, 'utf8')) as ReplayFixture).response as T;
+    }
+
+    const response = await live();
+    const fixture: ReplayFixture = { method, key, request, response };
+    fs.mkdirSync(this.opts.fixtures, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2) + '\n', 'utf8');
+    return response;
+  }
+
+  private nextScripted(method: ProviderMethod): unknown {
+    const queue = this.script?.[method] || [];
+    const index = this.cursors[method] ?? 0;
+    if (index >= queue.length) throw new Error(`Scripted fixture ${this.opts.fixtures} has no ${method} response #${index + 1}`);
+    this.cursors[method] = index + 1;
+    return queue[index];
+  }
+}
@@ -0,0 +1,129 @@
+import pino from "pino";
+import {
+  Provider,
+  ProviderPlanContext,
+  ProviderPatchContext,
+  ProviderEvaluationContext,
+  ProviderEvaluationResult,
+  ProviderExplodeContext,
+  ExplodeResult,
+  ProviderAcceptanceContext,
+  AcceptanceJudgement,
+  ReasoningTrace,
+  ProviderPhase,
+  UsageListener
+} from "../types.js";
+import { cfg } from "../config.js";
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+/** Provider chains per phase; the first entry is the primary, the rest are fallbacks in order. */
+export type PhaseChains = Partial<Record<ProviderPhase, Provider[]>> & { default: Provider[] };
+
+class MalformedOutputError extends Error {
+  constructor(phase: ProviderPhase, provider: string) {
+    super(`Malformed ${phase} output from ${provider}`);
+    this.name = 'MalformedOutputError';
+  }
+}
+
+// Transient failures worth retrying on another provider; auth or bad-request errors are not
+export function isRetryableProviderError(error: any): boolean {
+  if (!error) return false;
+  if (error instanceof MalformedOutputError) return true;
+  const status = error.status ?? error.response?.status;
+  if (status === 408 || status === 409 || status === 429 || (typeof status === 'number' && status >= 500)) return true;
+  const name = String(error.name || '');
+  if (/Timeout|Abort|APIConnection|StructuredOutput/i.test(name)) return true;
+  const code = String(error.code || error.cause?.code || '');
+  return /ECONNRESET|ECONNREFUSED|ETIMEDOUT|EAI_AGAIN|UND_ERR/i.test(code);
+}
+
+function looksValid(phase: ProviderPhase, output: any): boolean {
+  switch (phase) {
+    case 'plan':
+      return typeof output === 'string' && (output.includes(cfg.planMarkers.start) || /tasks\s*:/i.test(output));
+    case 'patch':
+      return !!output && (output.noChanges === true || (typeof output.diff === 'string' && /^(diff --git|--- |@@)/m.test(output.diff)));
+    case 'evaluate':
+      return !!output && typeof output.coverageScore === 'number' && !Number.isNaN(output.coverageScore);
+    case 'explode':
+      return !!output && Array.isArray(output.subtasks);
+    case 'refine':
+      return typeof output === 'string' && output.trim().length > 0;
+    case 'verify':
+      return !!output && typeof output.satisfied === 'boolean';
+  }
+}
+
+/**
+ * Sends each phase to its own provider chain (e.g. a cheap model for evaluation, a strong one for
+ * patches) and moves down the chain on timeouts, rate limits, server errors or malformed output.
+ * When every provider returns malformed output the last answer is returned unchanged.
+ */
+export class RoutingProvider implements Provider {
+  constructor(private chains: PhaseChains) {}
+
+  setUsageListener(listener: UsageListener | undefined) {
+    const providers = new Set(Object.values(this.chains).flat());
+    providers.forEach(p => p.setUsageListener?.(listener));
+  }
+
+  name() {
+    return `routing(${this.chainFor('patch').map(p => p.name()).join('>')})`;
+  }
+
+  generatePlan(ctx: ProviderPlanContext): Promise<string> {
+    return this.route('plan', p => p.generatePlan(ctx));
+  }
+
+  generatePatch(ctx: ProviderPatchContext): Promise<{ diff: string; noChanges?: boolean; trace?: ReasoningTrace }> {
+    return this.route('patch', p => p.generatePatch(ctx));
+  }
+
+  evaluateAndSuggest(ctx: ProviderEvaluationContext): Promise<ProviderEvaluationResult> {
+    return this.route('evaluate', p => p.evaluateAndSuggest!(ctx), p => !!p.evaluateAndSuggest);
+  }
+
+  explodeTask(ctx: ProviderExplodeContext): Promise<ExplodeResult> {
+    return this.route('explode', p => p.explodeTask!(ctx), p => !!p.explodeTask);
+  }
+
+  verifyAcceptance(ctx: ProviderAcceptanceContext): Promise<AcceptanceJudgement> {
+    return this.route('verify', p => p.verifyAcceptance!(ctx), p => !!p.verifyAcceptance);
+  }
+
+  async metaRefinePrompt(rawPrompt: string, phase: string): Promise<string> {
+    const supported = this.chainFor('refine').some(p => p.metaRefinePrompt);
+    if (!supported) return rawPrompt;
+    return this.route('refine', p => p.metaRefinePrompt!(rawPrompt, phase), p => !!p.metaRefinePrompt);
+  }
+
+  private chainFor(phase: ProviderPhase): Provider[] {
+    const chain = this.chains[phase];
+    return chain?.length ? chain : this.chains.default;
+  }
+
+  private async route<T>(phase: ProviderPhase, call: (p: Provider) => Promise<T>, supports: (p: Provider) => boolean = () => true): Promise<T> {
+    const chain = this.chainFor(phase).filter(supports);
+    if (!chain.length) throw new Error(`No provider supports the ${phase} phase`);
+
+    let lastOutput: { value: T } | undefined;
+    let lastError: unknown;
+    for (const [i, provider] of chain.entries()) {
+      const hasNext = i < chain.length - 1;
+      try {
+        const output = await call(provider);
+        if (looksValid(phase, output)) return output;
+        lastOutput = { value: output };
+        lastError = new MalformedOutputError(phase, provider.name());
+      } catch (error) {
+        if (!isRetryableProviderError(error)) throw error;
+        lastError = error;
+      }
+      if (hasNext) log.warn(`Provider ${provider.name()} failed ${phase} (${(lastError as Error)?.message}); falling back to ${chain[i + 1]!.name()}`);
+    }
+    if (lastOutput) return lastOutput.value;
+    throw lastError;
+  }
+}
@@ -11,5 +11,6 @@ export const planQueue = new Queue('plan', { connection });
 export const execQueue = new Queue('exec', { connection });
 export const evalQueue = new Queue('eval', { connection });
 export const sweepQueue = new Queue('sweep', { connection });
+export const indexQueue = new Queue('index', { connection });
 
 export { connection };
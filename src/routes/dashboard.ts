@@ -1,6 +1,11 @@
 import express from 'express';
 import { authenticateToken } from '../auth.js';
 import pino from 'pino';
+import { usageService } from '../services/usageService.js';
+import { embeddingIndexer } from '../services/embeddingIndexer.js';
+import { planApprovalService } from '../services/planApprovalService.js';
+import { loadAgent } from '../services/issueAgentService.js';
+import { execQueue } from '../queue.js';
 
 const log = pino({ level: process.env.LOG_LEVEL || 'info' });
 const router = express.Router();
@@ -112,6 +117,132 @@ router.get('/repositories/:owner/:repo', authenticateToken, async (req, res) =>
   }
 });
 
+// Get LLM token usage and estimated cost per issue
+router.get('/repositories/:owner/:repo/costs', authenticateToken, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { owner, repo } = req.params;
+
+    if (!user.accessToken) {
+      return res.status(400).json({ error: 'GitHub access token required' });
+    }
+
+    // Only expose costs of repositories the user can see
+    const repoResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
+      headers: {
+        'Authorization': `token ${user.accessToken}`,
+        'Accept': 'application/vnd.github.v3+json',
+      },
+    });
+    if (!repoResponse.ok) {
+      return res.status(404).json({ error: 'Repository not found' });
+    }
+
+    const issues = await usageService.getRepositoryCosts(owner!, repo!);
+    res.json({
+      issues,
+      totalCostUsd: issues.reduce((sum, i) => sum + i.costUsd, 0),
+    });
+  } catch (error) {
+    log.error({ error }, 'Failed to fetch repository costs');
+    res.status(500).json({ error: 'Failed to fetch repository costs' });
+  }
+});
+
+// Get embedding index progress for a repository
+router.get('/repositories/:owner/:repo/index', authenticateToken, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { owner, repo } = req.params;
+
+    if (!user.accessToken) {
+      return res.status(400).json({ error: 'GitHub access token required' });
+    }
+
+    const repoResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
+      headers: {
+        'Authorization': `token ${user.accessToken}`,
+        'Accept': 'application/vnd.github.v3+json',
+      },
+    });
+    if (!repoResponse.ok) {
+      return res.status(404).json({ error: 'Repository not found' });
+    }
+
+    const status = await embeddingIndexer.getStatus(owner!, repo!);
+    if (!status) {
+      return res.json({ status: 'not_indexed' });
+    }
+    res.json({
+      status: status.status,
+      commitSha: status.commitSha,
+      totalFiles: status.totalFiles,
+      processedFiles: status.processedFiles,
+      embeddedFiles: status.embeddedFiles,
+      removedFiles: status.removedFiles,
+      progress: status.totalFiles ? status.processedFiles / status.totalFiles : 1,
+      error: status.error,
+      startedAt: status.startedAt,
+      finishedAt: status.finishedAt,
+    });
+  } catch (error) {
+    log.error({ error }, 'Failed to fetch index status');
+    res.status(500).json({ error: 'Failed to fetch index status' });
+  }
+});
+
+// Approve or reject a plan waiting in `awaiting_approval`
+router.post('/repositories/:owner/:repo/issues/:issueNumber/plan-approval', authenticateToken, async (req, res) => {
+  try {
+    const user = (req as any).user;
+    const { owner, repo, issueNumber } = req.params;
+    const { decision, reason } = req.body ?? {};
+
+    if (!user.accessToken) {
+      return res.status(400).json({ error: 'GitHub access token required' });
+    }
+    if (decision !== 'approve' && decision !== 'reject') {
+      return res.status(400).json({ error: 'decision must be "approve" or "reject"' });
+    }
+
+    const repoResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
+      headers: {
+        'Authorization': `token ${user.accessToken}`,
+        'Accept': 'application/vnd.github.v3+json',
+      },
+    });
+    if (!repoResponse.ok) {
+      return res.status(404).json({ error: 'Repository not found' });
+    }
+
+    const agent = await loadAgent(owner!, repo!, Number(issueNumber));
+    if (!agent) {
+      return res.status(404).json({ error: 'No agent for this issue' });
+    }
+
+    // Same permission rules as the `approve`/`reject` comment commands
+    const outcome = await planApprovalService.decide({
+      agentId: agent.id,
+      author: user.username,
+      decision,
+      via: 'dashboard',
+      reason: typeof reason === 'string' ? reason : undefined
+    });
+    if (outcome.status === 'not_eligible') {
+      return res.status(403).json({ error: outcome.reason, ...outcome });
+    }
+    if (outcome.status === 'approved') {
+      await execQueue.add(`exec-${agent.owner}-${agent.repo}-${agent.issueNumber}-${Date.now()}`, {
+        installationId: Number(agent.installationId), owner: agent.owner, repo: agent.repo, issueNumber: agent.issueNumber, trigger: 'approval'
+      });
+    }
+    res.json(outcome);
+  } catch (error) {
+    log.error({ error }, 'Failed to record plan approval');
+    res.status(500).json({ error: 'Failed to record plan approval' });
+  }
+});
+
 // Get dashboard statistics
 router.get('/stats', authenticateToken, async (req, res) => {
   try {
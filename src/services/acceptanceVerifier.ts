@@ -0,0 +1,145 @@
+// Checks a task's acceptance text after its patch was applied: commands, file existence, and LLM-judged criteria
+import path from 'path';
+import pino from 'pino';
+import { cfg } from '../config.js';
+import { PlanTask, Provider } from '../types.js';
+import { CommandResult } from '../util/commandRunner.js';
+import { SandboxOptions } from '../util/sandboxRunner.js';
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+export type AcceptanceCriterion =
+  | { kind: 'command'; text: string; command: string[] }
+  | { kind: 'file'; text: string; path: string; absent: boolean }
+  | { kind: 'judged'; text: string };
+
+export interface CriterionResult {
+  kind: AcceptanceCriterion['kind'];
+  criterion: string;
+  ok: boolean;
+  /** Not checked (disallowed command, no judge); does not fail the task */
+  skipped?: boolean;
+  detail: string;
+}
+
+export interface VerificationReport {
+  ok: boolean;
+  results: CriterionResult[];
+  checkedAt: string;
+}
+
+/** The parts of a checked-out workspace the verifier needs (see WorkspaceManager). */
+export interface VerificationWorkspace {
+  exists(relPath: string): Promise<boolean>;
+  exec(command: string[], opts?: Omit<SandboxOptions, 'cwd' | 'transcript'>): Promise<CommandResult>;
+}
+
+const RUN_PREFIX = /^(?:run|command|cmd)\s*:\s*(.+)$|^\$\s+(.+)$/i;
+const PASSES = /\s+(?:passes|succeeds|exits (?:with )?0|runs (?:clean(?:ly)?|without errors?)|is green)\.?$/i;
+const EXISTS_PREFIX = /^(?:file\s+)?exists\s*:\s*`?([^`\s]+)`?\.?$/i;
+const FILE_EXISTS = /^(?:(?:a\s+)?file\s+)?`?([\w@.-]+(?:\/[\w@.-]+)*\.\w+|[\w@.-]+(?:\/[\w@.-]+)+)`?\s+(?:must |should )?(?:exists?|is (?:created|added|present))\.?$/i;
+const FILE_ABSENT = /^(?:(?:the\s+)?file\s+)?`?([\w@.-]+(?:\/[\w@.-]+)*\.\w+|[\w@.-]+(?:\/[\w@.-]+)+)`?\s+(?:is (?:removed|deleted)|(?:must|should|does) not exist)\.?$/i;
+
+// Splits `npm run "unit tests" -- --ci` into argv; no shell is involved when it runs
+function tokenize(command: string): string[] {
+  return [...command.matchAll(/"([^"]*)"|'([^']*)'|(\S+)/g)].map(m => m[1] ?? m[2] ?? m[3]!);
+}
+
+function commandCriterion(text: string): string[] | null {
+  const prefixed = text.match(RUN_PREFIX);
+  if (prefixed) return tokenize((prefixed[1] ?? prefixed[2]!).replace(/^`|`$/g, ''));
+  if (!PASSES.test(text)) return null;
+  const subject = text.replace(PASSES, '').trim();
+  const quoted = subject.match(/^`([^`]+)`$/);
+  const argv = tokenize(quoted ? quoted[1]! : subject);
+  // Unquoted prose ("the build passes") is left to the judge
+  return quoted || cfg.verification.allowedCommands.includes(argv[0] ?? '') ? argv : null;
+}
+
+/** Splits acceptance text into clauses and classifies each; anything not mechanically checkable is judged. */
+export function parseAcceptance(acceptance: string | null | undefined): AcceptanceCriterion[] {
+  const clauses = (acceptance ?? '')
+    .split(/\r?\n|;/)
+    .map(c => c.replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '').trim())
+    .filter(Boolean);
+
+  return clauses.map((text): AcceptanceCriterion => {
+    const command = commandCriterion(text);
+    if (command?.length) return { kind: 'command', text, command };
+    const exists = text.match(EXISTS_PREFIX) ?? text.match(FILE_EXISTS);
+    if (exists) return { kind: 'file', text, path: exists[1]!, absent: false };
+    const absent = text.match(FILE_ABSENT);
+    if (absent) return { kind: 'file', text, path: absent[1]!, absent: true };
+    return { kind: 'judged', text };
+  });
+}
+
+function tail(text: string, max = 600): string {
+  const trimmed = text.trim();
+  return trimmed.length > max ? `…${trimmed.slice(-max)}` : trimmed;
+}
+
+export class AcceptanceVerifier {
+  /**
+   * Verifies one applied task. Criteria are checked independently; the task passes when none
+   * failed (skipped criteria do not count against it). Tasks without acceptance text pass.
+   */
+  async verify(task: PlanTask, ctx: { workspace: VerificationWorkspace; diff: string; provider?: Provider }): Promise<VerificationReport> {
+    const criteria = parseAcceptance(task.acceptance);
+    const results: CriterionResult[] = [];
+
+    for (const criterion of criteria) {
+      if (criterion.kind === 'command') results.push(await this.runCommand(criterion, ctx.workspace));
+      if (criterion.kind === 'file') results.push(await this.checkFile(criterion, ctx.workspace));
+    }
+    const judged = criteria.filter(c => c.kind === 'judged').map(c => c.text);
+    if (judged.length) results.push(...await this.judge(task, judged, ctx.diff, ctx.provider));
+
+    return { ok: results.every(r => r.ok), results, checkedAt: new Date().toISOString() };
+  }
+
+  private async runCommand(criterion: Extract<AcceptanceCriterion, { kind: 'command' }>, workspace: VerificationWorkspace): Promise<CriterionResult> {
+    const base = { kind: criterion.kind, criterion: criterion.text };
+    const program = criterion.command[0]!;
+    if (!cfg.verification.allowedCommands.includes(program)) {
+      return { ...base, ok: true, skipped: true, detail: `${program} is not an allowed verification command` };
+    }
+    const result = await workspace.exec(criterion.command, {
+      timeoutMs: cfg.verification.commandTimeoutMs,
+      maxOutputBytes: 256 * 1024
+    });
+    if (result.ok) return { ...base, ok: true, detail: `exit 0 in ${result.durationMs}ms` };
+    const reason = result.timedOut ? 'timed out' : `exit ${result.exitCode}`;
+    return { ...base, ok: false, detail: `${reason}: ${tail(result.stderr || result.stdout)}` };
+  }
+
+  private async checkFile(criterion: Extract<AcceptanceCriterion, { kind: 'file' }>, workspace: VerificationWorkspace): Promise<CriterionResult> {
+    const base = { kind: criterion.kind, criterion: criterion.text };
+    const normalized = path.posix.normalize(criterion.path);
+    if (path.posix.isAbsolute(normalized) || normalized.startsWith('..')) {
+      return { ...base, ok: false, detail: `${criterion.path} is outside the repository` };
+    }
+    const exists = await workspace.exists(normalized);
+    const ok = exists !== criterion.absent;
+    return { ...base, ok, detail: `${normalized} ${exists ? 'exists' : 'does not exist'}` };
+  }
+
+  private async judge(task: PlanTask, criteria: string[], diff: string, provider?: Provider): Promise<CriterionResult[]> {
+    const results = (ok: boolean, detail: string, failing = new Set(criteria), skipped = false): CriterionResult[] =>
+      criteria.map(criterion => ({ kind: 'judged' as const, criterion, ok: ok || !failing.has(criterion), ...(skipped ? { skipped } : {}), detail }));
+
+    if (!provider?.verifyAcceptance) return results(true, 'no provider can judge acceptance criteria', undefined, true);
+    try {
+      const judgement = await provider.verifyAcceptance({ task, criteria, diff });
+      if (judgement.satisfied) return results(true, judgement.rationale);
+      // Without a list of unmet criteria every judged criterion is considered unmet
+      const unmet = new Set(judgement.unmet?.filter(u => criteria.includes(u)));
+      return results(false, judgement.rationale, unmet.size ? unmet : undefined);
+    } catch (error) {
+      log.warn(`Acceptance judgement for task ${task.id} failed: ${error}`);
+      return results(false, `judgement failed: ${error}`);
+    }
+  }
+}
+
+export const acceptanceVerifier = new AcceptanceVerifier();
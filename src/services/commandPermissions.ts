@@ -0,0 +1,204 @@
+// Per-command permission matrix for @ai-bot commands
+import pino from 'pino';
+import { getInstallationOctokit } from '../octokit.js';
+import { prisma } from '../storage/prisma.js';
+import { repoFileService } from './repoFileService.js';
+import { PolicyEngine } from './policyEngine.js';
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+export type RepoPermission = 'none' | 'read' | 'triage' | 'write' | 'maintain' | 'admin';
+
+export const PERMISSION_RANK: Record<RepoPermission, number> = {
+  none: 0,
+  read: 1,
+  triage: 2,
+  write: 3,
+  maintain: 4,
+  admin: 5
+};
+
+export interface CommandPermissionRule {
+  /** Minimum collaborator role on the repository */
+  minPermission: RepoPermission;
+  /** If set, the author must belong to one of these teams (`org/team` or team slug) */
+  teams?: string[];
+  /** Require the author to be listed as an owner in `.aiagent-ownership.yml` (when owners are declared) */
+  requireOwner?: boolean;
+}
+
+export const DEFAULT_COMMAND_PERMISSIONS: Record<string, CommandPermissionRule> = {
+  help: { minPermission: 'read' },
+  status: { minPermission: 'read' },
+  config: { minPermission: 'read' },
+  evaluate: { minPermission: 'triage' },
+  modify: { minPermission: 'triage' },
+  run: { minPermission: 'write' },
+  pause: { minPermission: 'write' },
+  resume: { minPermission: 'write' },
+  reject: { minPermission: 'write', requireOwner: true },
+  approve: { minPermission: 'maintain', requireOwner: true },
+  rollback: { minPermission: 'maintain' },
+  reset: { minPermission: 'admin' }
+};
+
+// Unknown commands still need write access so that typos cannot probe handlers anonymously
+const FALLBACK_RULE: CommandPermissionRule = { minPermission: 'write' };
+
+const COMMAND_ALIASES: Record<string, string> = {
+  start: 'run',
+  stop: 'pause',
+  eval: 'evaluate',
+  restart: 'reset'
+};
+
+export interface CommandAuthorizationRequest {
+  command: string;
+  author: string;
+  installationId: string;
+  owner: string;
+  repo: string;
+  agentId?: string;
+  issueNumber?: number;
+  pullNumber?: number;
+}
+
+export interface CommandAuthorization {
+  allowed: boolean;
+  command: string;
+  permission: RepoPermission;
+  rule: CommandPermissionRule;
+  reason?: string;
+}
+
+export function normalizeCommand(command: string): string {
+  const name = command.toLowerCase();
+  return COMMAND_ALIASES[name] || name;
+}
+
+export async function getRepoPermission(installationId: number | string, owner: string, repo: string, username: string): Promise<RepoPermission> {
+  try {
+    const octokit = await getInstallationOctokit(installationId);
+    const { data } = await octokit.rest.repos.getCollaboratorPermissionLevel({ owner, repo, username });
+    // role_name distinguishes triage/maintain, which the legacy `permission` field folds into read/write
+    const role = ((data as any).role_name || data.permission || 'none') as string;
+    return (role in PERMISSION_RANK ? role : data.permission) as RepoPermission;
+  } catch (error) {
+    log.warn(`Could not resolve permission of ${username} on ${owner}/${repo}: ${error}`);
+    return 'none';
+  }
+}
+
+export class CommandAuthorizer {
+  /**
+   * Resolves the rule for a command. Repositories can override the defaults in `.aiagent.yml`:
+   *
+   *   command_permissions:
+   *     approve: { min_permission: admin, teams: [acme/release], require_owner: true }
+   */
+  resolveRule(command: string, overrides?: Record<string, any>): CommandPermissionRule {
+    const base = DEFAULT_COMMAND_PERMISSIONS[command] || FALLBACK_RULE;
+    const override = overrides?.[command];
+    if (!override || typeof override !== 'object') return base;
+
+    const minPermission = override.min_permission ?? override.minPermission;
+    const requireOwner = override.require_owner ?? override.requireOwner;
+    return {
+      minPermission: minPermission in PERMISSION_RANK ? minPermission : base.minPermission,
+      teams: Array.isArray(override.teams) ? override.teams.map(String) : base.teams,
+      requireOwner: typeof requireOwner === 'boolean' ? requireOwner : base.requireOwner
+    };
+  }
+
+  async authorize(request: CommandAuthorizationRequest): Promise<CommandAuthorization> {
+    const command = normalizeCommand(request.command);
+    const config = await this.loadConfig(request);
+    const rule = this.resolveRule(command, config.aiagent?.command_permissions);
+    const permission = await getRepoPermission(request.installationId, request.owner, request.repo, request.author);
+
+    const deny = (reason: string): CommandAuthorization => ({ allowed: false, command, permission, rule, reason });
+
+    if (PERMISSION_RANK[permission] < PERMISSION_RANK[rule.minPermission]) {
+      return deny(`requires \`${rule.minPermission}\` access (current: \`${permission}\`)`);
+    }
+
+    // Admins bypass team and ownership requirements so a misconfigured policy cannot lock everyone out
+    if (permission !== 'admin') {
+      if (rule.teams?.length && !(await this.isMemberOfAny(request, rule.teams))) {
+        return deny(`requires membership in one of: ${rule.teams.join(', ')}`);
+      }
+
+      if (rule.requireOwner) {
+        const owners = PolicyEngine.fromConfig(config.ownership).getOwners();
+        if (owners.length && !(await this.isOwner(request, owners))) {
+          return deny(`requires being listed as an owner in .aiagent-ownership.yml (${owners.join(', ')})`);
+        }
+      }
+    }
+
+    return { allowed: true, command, permission, rule };
+  }
+
+  async recordDenial(request: CommandAuthorizationRequest, authorization: CommandAuthorization): Promise<void> {
+    log.warn(`Denied @ai-bot ${authorization.command} from ${request.author} on ${request.owner}/${request.repo}: ${authorization.reason}`);
+    try {
+      await prisma.activityLog.create({
+        data: {
+          agentId: request.agentId ?? null,
+          event: 'command_denied',
+          details: JSON.stringify({
+            command: authorization.command,
+            author: request.author,
+            permission: authorization.permission,
+            required: authorization.rule.minPermission,
+            reason: authorization.reason,
+            repository: `${request.owner}/${request.repo}`,
+            issueNumber: request.issueNumber,
+            pullNumber: request.pullNumber
+          }),
+          success: false
+        }
+      });
+    } catch (error) {
+      log.error(`Failed to record denied command: ${error}`);
+    }
+  }
+
+  private async loadConfig(request: CommandAuthorizationRequest): Promise<{ aiagent?: any; ownership?: any }> {
+    try {
+      return await repoFileService.getConfigFiles(request.installationId, request.owner, request.repo);
+    } catch (error) {
+      log.warn(`Could not load command permission config for ${request.owner}/${request.repo}: ${error}`);
+      return {};
+    }
+  }
+
+  /** Whether the author is one of `owners` (`@user` or `@org/team` entries). */
+  async isOwner(request: CommandAuthorizationRequest, owners: string[]): Promise<boolean> {
+    const author = request.author.toLowerCase();
+    const teams: string[] = [];
+    for (const entry of owners) {
+      const owner = entry.replace(/^@/, '');
+      if (owner.includes('/')) teams.push(owner);
+      else if (owner.toLowerCase() === author) return true;
+    }
+    return teams.length > 0 && this.isMemberOfAny(request, teams);
+  }
+
+  private async isMemberOfAny(request: CommandAuthorizationRequest, teams: string[]): Promise<boolean> {
+    const octokit = await getInstallationOctokit(request.installationId);
+    for (const team of teams) {
+      const [org, slug] = team.includes('/') ? team.replace(/^@/, '').split('/', 2) : [request.owner, team];
+      try {
+        const { data } = await octokit.rest.teams.getMembershipForUserInOrg({ org: org!, team_slug: slug!, username: request.author });
+        if (data.state === 'active') return true;
+      } catch (error: any) {
+        // 404 simply means "not a member"; anything else is worth noting but still denies
+        if (error?.status !== 404) log.warn(`Team membership check for ${team} failed: ${error}`);
+      }
+    }
+    return false;
+  }
+}
+
+export const commandAuthorizer = new CommandAuthorizer();
@@ -4,10 +4,16 @@ import { StructuredCommentService } from '../core/communicationService.js';
 import { runAdaptiveIteration } from '../ai/adaptiveLoop.js';
 import { evaluateAgent } from '../services/evalService.js';
 import { addMemory } from '../ai/memoryStore.js';
+import { commandAuthorizer, CommandAuthorizer } from './commandPermissions.js';
+import { rollbackService } from './rollbackService.js';
+import { usageService } from './usageService.js';
+import { planApprovalService, ApprovalOutcome } from './planApprovalService.js';
 import pino from 'pino';
 
 const log = pino({ level: process.env.LOG_LEVEL || 'info' });
 
+const TASK_STATUS_ICONS: Record<string, string> = { verified: '✅', applied: '🧪', in_progress: '🔄', failed: '❌' };
+
 export interface BotCommand {
   command: string;
   args: string[];
@@ -31,7 +37,7 @@ export interface CommandResult {
 export class AIBotCommandProcessor {
   private commentService: StructuredCommentService;
 
-  constructor() {
+  constructor(private authorizer: CommandAuthorizer = commandAuthorizer) {
     this.commentService = new StructuredCommentService();
   }
 
@@ -39,6 +45,16 @@ export class AIBotCommandProcessor {
     log.info(`Processing command: ${command.command} for ${command.owner}/${command.repo}`);
 
     try {
+      const authorization = await this.authorizer.authorize(command);
+      if (!authorization.allowed) {
+        await this.authorizer.recordDenial(command, authorization);
+        return {
+          success: false,
+          message: `@${command.author} is not allowed to run \`${authorization.command}\`: ${authorization.reason}.`,
+          error: 'PERMISSION_DENIED'
+        };
+      }
+
       switch (command.command.toLowerCase()) {
         case 'run':
         case 'start':
@@ -109,6 +125,9 @@ export class AIBotCommandProcessor {
       };
     }
 
+    const awaiting = await this.refuseWhileAwaitingApproval(agent.id);
+    if (awaiting) return awaiting;
+
     if (agent.blocked) {
       return {
         success: false,
@@ -190,6 +209,9 @@ export class AIBotCommandProcessor {
       };
     }
 
+    const awaiting = await this.refuseWhileAwaitingApproval(agent.id);
+    if (awaiting) return awaiting;
+
     if (!agent.blocked) {
       return {
         success: false,
@@ -198,6 +220,11 @@ export class AIBotCommandProcessor {
       };
     }
 
+    // Failed tasks get a fresh set of acceptance attempts
+    if (agent.phase === 'tasks_failed') {
+      await prisma.task.updateMany({ where: { issueAgentId: agent.id, status: 'failed' }, data: { status: 'pending', attempts: 0 } });
+    }
+
     await prisma.issueAgent.update({
       where: { id: agent.id },
       data: { 
@@ -235,9 +262,10 @@ export class AIBotCommandProcessor {
       where: { issueAgentId: agent.id }
     });
 
-    const completedTasks = tasks.filter(t => t.status === 'done').length;
+    const completedTasks = tasks.filter(t => t.status === 'verified').length;
     const totalTasks = tasks.length;
     const progress = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
+    const usage = await usageService.getAgentUsage(agent.id);
 
     const statusMessage = `
 📊 **Agent Status Report**
@@ -249,11 +277,12 @@ export class AIBotCommandProcessor {
 **Iterations**: ${agent.iterations}  
 **Confidence**: ${Math.round((agent.confidence || 0) * 100)}%  
 **Branch**: ${agent.branchName}  
+**LLM Usage**: ${(usage.promptTokens + usage.completionTokens).toLocaleString('en-US')} tokens (~$${usage.costUsd.toFixed(2)})  
 
 **Recent Tasks**:
-${tasks.slice(-3).map(t => `- ${t.status === 'done' ? '✅' : '⏳'} ${t.title}`).join('\n')}
+${tasks.slice(-3).map(t => `- ${TASK_STATUS_ICONS[t.status] ?? '⏳'} ${t.title}`).join('\n')}
 
-${agent.blocked ? `**Status**: Agent is currently blocked/paused` : ''}
+${agent.phase === 'budget_exceeded' ? `**Status**: Paused because the installation LLM budget is exhausted` : agent.blocked ? `**Status**: Agent is currently blocked/paused` : ''}
 `;
 
     return {
@@ -265,7 +294,8 @@ ${agent.blocked ? `**Status**: Agent is currently blocked/paused` : ''}
         blocked: agent.blocked,
         progress: { completed: completedTasks, total: totalTasks, percentage: progress },
         iterations: agent.iterations,
-        confidence: agent.confidence
+        confidence: agent.confidence,
+        usage
       }
     };
   }
@@ -311,10 +341,21 @@ ${agent.blocked ? `**Status**: Agent is currently blocked/paused` : ''}
       context: command.args.join(' ')
     }));
 
+    // processCommand already checked the author may run `approve`
+    const outcome = await planApprovalService.decide(
+      { agentId: agent.id, author: command.author, decision: 'approve', via: 'comment' },
+      { authorized: true }
+    );
+    if (outcome.status === 'approved') {
+      runAdaptiveIteration(agent.id).catch(error =>
+        log.error(`Adaptive iteration failed for agent ${agent.id}: ${error}`)
+      );
+    }
+
     return {
-      success: true,
-      message: `✅ Plan approved by ${command.author}. Execution will continue.`,
-      data: { agentId: agent.id, approvedBy: command.author }
+      success: outcome.status !== 'not_eligible',
+      message: this.approvalMessage(command.author, outcome),
+      data: { agentId: agent.id, approvedBy: outcome.approvedBy, status: outcome.status }
     };
   }
 
@@ -337,6 +378,14 @@ ${agent.blocked ? `**Status**: Agent is currently blocked/paused` : ''}
       reason
     }));
 
+    const outcome = await planApprovalService.decide(
+      { agentId: agent.id, author: command.author, decision: 'reject', via: 'comment', reason },
+      { authorized: true }
+    );
+    if (outcome.status === 'not_eligible') {
+      return { success: false, message: this.approvalMessage(command.author, outcome), data: { agentId: agent.id } };
+    }
+
     return {
       success: true,
       message: `❌ Plan rejected by ${command.author}. Reason: ${reason}`,
@@ -433,14 +482,31 @@ ${agent.blocked ? `**Status**: Agent is currently blocked/paused` : ''}
       };
     }
 
-    const steps = command.args[0] ? parseInt(command.args[0]) : 1;
-    
+    const summary = await rollbackService.rollback(agent.id, command.args[0]);
+    if (!summary.ok) {
+      return {
+        success: false,
+        message: `Rollback failed: ${summary.error}`,
+        data: { agentId: agent.id },
+        error: 'ROLLBACK_FAILED',
+        followupActions: ['Check the agent branch for conflicting changes', 'Monitor status with @ai-bot status']
+      };
+    }
+
+    const lines = summary.reverted.map(r =>
+      `- Iteration ${r.number}: reverted \`${r.commitSha.slice(0, 7)}\` with \`${r.revertSha.slice(0, 7)}\`${r.tasks.length ? ` (tasks: ${r.tasks.join(', ')})` : ''}`
+    );
     return {
       success: true,
-      message: `🔄 Rollback request noted for ${steps} step(s). This will be implemented in the next iteration.`,
-      data: { agentId: agent.id, rollbackSteps: steps },
+      message: [
+        `⏪ Rolled back ${summary.reverted.length} iteration(s) on \`${agent.branchName}\`:`,
+        ...lines,
+        '',
+        `${summary.tasksReset.length} task(s) reset to pending. Progress: ${summary.doneTasks}/${agent.totalTasks} tasks, confidence ${(summary.confidence * 100).toFixed(1)}%.`
+      ].join('\n'),
+      data: { agentId: agent.id, reverted: summary.reverted, tasksReset: summary.tasksReset },
       followupActions: [
-        'Manual rollback may be required for complex changes',
+        'Resume work with @ai-bot run',
         'Monitor status with @ai-bot status'
       ]
     };
@@ -483,7 +549,7 @@ ${agent.blocked ? `**Status**: Agent is currently blocked/paused` : ''}
 - \`@ai-bot reject\` - Reject current plan
 
 **Recovery:**
-- \`@ai-bot rollback [steps]\` - Request rollback
+- \`@ai-bot rollback [n|iteration-id|sha]\` - Revert the last n iterations (default 1) or back to a given one
 `;
 
     return {
@@ -493,6 +559,29 @@ ${agent.blocked ? `**Status**: Agent is currently blocked/paused` : ''}
     };
   }
 
+  private async refuseWhileAwaitingApproval(agentId: string): Promise<CommandResult | null> {
+    if (!(await planApprovalService.awaitingApproval(agentId))) return null;
+    return {
+      success: false,
+      message: '⏸️ The plan is awaiting approval; execution starts once it is approved.',
+      data: { agentId, phase: 'awaiting_approval' },
+      followupActions: ['Approve with @ai-bot approve', 'Reject with @ai-bot reject <reason>']
+    };
+  }
+
+  private approvalMessage(author: string, outcome: ApprovalOutcome): string {
+    switch (outcome.status) {
+      case 'approved':
+        return `✅ Plan approved by ${outcome.approvedBy.join(', ')}. Execution is starting.`;
+      case 'pending':
+        return `👍 Approval from ${author} recorded (${outcome.approvedBy.length}/${outcome.needed}). Waiting for more approvals.`;
+      case 'not_eligible':
+        return `@${author} cannot approve this plan: ${outcome.reason}.`;
+      default:
+        return `✅ Plan approved by ${author}. Execution will continue.`;
+    }
+  }
+
   private async findAgent(command: BotCommand): Promise<any> {
     if (command.agentId) {
       return await prisma.issueAgent.findUnique({
@@ -510,6 +599,16 @@ ${agent.blocked ? `**Status**: Agent is currently blocked/paused` : ''}
       });
     }
 
+    if (command.pullNumber) {
+      return await prisma.issueAgent.findFirst({
+        where: {
+          prNumber: command.pullNumber,
+          owner: command.owner,
+          repo: command.repo
+        }
+      });
+    }
+
     return null;
   }
 
@@ -554,7 +653,7 @@ ${agent.blocked ? `**Status**: Agent is currently blocked/paused` : ''}
       reset: 'Reset agent',
       help: 'Show help',
       config: 'Show configuration',
-      rollback: 'Request rollback'
+      rollback: 'Revert agent iterations on the branch'
     };
   }
 }
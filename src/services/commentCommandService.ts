@@ -0,0 +1,64 @@
+// Turns `@ai-bot <command>` comments on issues and pull requests into processor commands
+import { StructuredCommentService } from '../core/communicationService.js';
+import { aiBotCommandProcessor, BotCommand, CommandResult } from './commandProcessor.js';
+
+export interface CommentCommandEvent {
+  installationId: number;
+  owner: string;
+  repo: string;
+  author: string;
+  authorType?: string;
+  body: string;
+  /** Issue or pull request number the comment was posted on */
+  threadNumber: number;
+  isPullRequest: boolean;
+}
+
+export class CommentCommandService {
+  private commentService = new StructuredCommentService();
+
+  async handle(event: CommentCommandEvent): Promise<CommandResult | null> {
+    // Never react to our own (or any other bot's) comments, which would loop on command responses
+    if (event.authorType === 'Bot' || event.body.includes('<!-- AI-AGENT-COMMENT')) return null;
+
+    const parsed = await this.commentService.parseCommand(event.body);
+    if (!parsed) return null;
+
+    const command: BotCommand = {
+      command: parsed.command,
+      args: parsed.args,
+      agentId: parsed.agentId,
+      issueNumber: event.isPullRequest ? undefined : event.threadNumber,
+      pullNumber: event.isPullRequest ? event.threadNumber : undefined,
+      author: event.author,
+      installationId: String(event.installationId),
+      owner: event.owner,
+      repo: event.repo
+    };
+
+    // Permission checks happen in the processor so every entry point is covered
+    const result = await aiBotCommandProcessor.processCommand(command);
+
+    await this.commentService.postStructuredComment(
+      String(event.installationId),
+      event.owner,
+      event.repo,
+      event.threadNumber,
+      {
+        type: 'command_response',
+        agentId: result.data?.agentId || command.agentId || 'unknown',
+        data: {
+          command: [command.command, ...command.args].join(' '),
+          success: result.success,
+          response: result.message,
+          error: result.error,
+          followupActions: result.followupActions
+        }
+      }
+    );
+
+    return result;
+  }
+}
+
+export const commentCommandService = new CommentCommandService();
@@ -0,0 +1,238 @@
+// Incremental repository embedding index (FileEmbedding), refreshed on pushes to the default branch
+import pino from 'pino';
+import { prisma } from '../storage/prisma.js';
+import { cfg } from '../config.js';
+import { getInstallationOctokit } from '../octokit.js';
+import { repoFileService, TreeNode } from './repoFileService.js';
+import { embeddingService } from './embeddingService.js';
+import { outlineModule } from '../ai/codeSlicer.js';
+import { vectorStore } from '../storage/vectorStore.js';
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+export interface IndexJob {
+  installationId: number;
+  owner: string;
+  repo: string;
+  /** Defaults to the repository's default branch */
+  branch?: string;
+  /** Head commit that triggered the job, used to de-duplicate queued work */
+  commitSha?: string;
+  reason: 'push' | 'installation' | 'manual';
+}
+
+export interface IndexSummary {
+  commitSha: string;
+  totalFiles: number;
+  embeddedFiles: number;
+  unchangedFiles: number;
+  removedFiles: number;
+  failedFiles: string[];
+}
+
+export interface FileChunk {
+  chunk: number;
+  symbol?: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+/**
+ * Splits a file into embedding chunks of at most `chunkLines` lines. Parseable JS/TS is cut at
+ * top-level declaration boundaries so each chunk holds whole symbols; other files use fixed windows.
+ */
+export function chunkFile(path: string, content: string, chunkLines = cfg.embeddingIndex.chunkLines): FileChunk[] {
+  const lines = content.split('\n');
+  const slice = (start: number, end: number) => lines.slice(start - 1, end).join('\n');
+  if (lines.length <= chunkLines) return [{ chunk: 0, startLine: 1, endLine: lines.length, text: content }];
+
+  // Units are [start, end, symbol] runs; consecutive units are packed into chunks
+  const units: Array<[number, number, string | undefined]> = [];
+  const declarations = outlineModule(path, content)?.declarations ?? [];
+  if (declarations.length) {
+    let next = 1;
+    for (const [i, decl] of declarations.entries()) {
+      const end = (declarations[i + 1]?.start ?? lines.length + 1) - 1;
+      if (decl.start > next) units.push([next, decl.start - 1, undefined]);
+      units.push([Math.max(next, decl.start), end, decl.names[0]]);
+      next = end + 1;
+    }
+    if (next <= lines.length) units.push([next, lines.length, undefined]);
+  } else {
+    units.push([1, lines.length, undefined]);
+  }
+
+  const chunks: FileChunk[] = [];
+  let current: { start: number; end: number; symbols: string[] } | null = null;
+  const flush = () => {
+    if (!current) return;
+    chunks.push({
+      chunk: chunks.length,
+      symbol: current.symbols.slice(0, 3).join(',') || undefined,
+      startLine: current.start,
+      endLine: current.end,
+      text: slice(current.start, current.end)
+    });
+    current = null;
+  };
+  for (const [start, end, symbol] of units) {
+    // Oversized symbols are windowed on their own
+    if (end - start + 1 > chunkLines) {
+      flush();
+      for (let s = start; s <= end; s += chunkLines) {
+        current = { start: s, end: Math.min(end, s + chunkLines - 1), symbols: symbol ? [symbol] : [] };
+        flush();
+      }
+      continue;
+    }
+    if (current && end - current.start + 1 > chunkLines) flush();
+    if (!current) current = { start, end, symbols: [] };
+    current.end = end;
+    if (symbol) current.symbols.push(symbol);
+  }
+  flush();
+  return chunks;
+}
+
+export class EmbeddingIndexer {
+  constructor(private files = repoFileService, private embeddings = embeddingService, private store = vectorStore) {}
+
+  isIndexable(blob: TreeNode): boolean {
+    if ((blob.size ?? 0) > cfg.embeddingIndex.maxFileBytes) return false;
+    if (/(^|\/)(node_modules|dist|build|vendor|\.git)\//.test(blob.path)) return false;
+    if (/\.min\.js$|(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml)$/.test(blob.path)) return false;
+    return cfg.embeddingIndex.extensions.some(ext => blob.path.endsWith(ext));
+  }
+
+  /** Queues a (re)index of one repository; a no-op when indexing is disabled. */
+  async enqueue(job: IndexJob): Promise<void> {
+    if (!cfg.embeddingIndex.enabled) return;
+    await this.setStatus(job, { status: 'queued', error: null });
+    const { indexQueue } = await import('../queue.js');
+    await indexQueue.add(`index-${job.owner}-${job.repo}`, job, {
+      jobId: `index:${job.installationId}:${job.owner}/${job.repo}:${job.commitSha ?? Date.now()}`,
+      removeOnComplete: 100,
+      removeOnFail: 100
+    });
+  }
+
+  /**
+   * Brings the index in line with the branch head: embeds files whose blob SHA (or embedding
+   * model) changed and deletes rows for files that no longer exist.
+   */
+  async indexRepository(job: IndexJob): Promise<IndexSummary> {
+    const scope = { installationId: BigInt(job.installationId), owner: job.owner, repo: job.repo };
+    const installationId = String(job.installationId);
+    await this.setStatus(job, { status: 'indexing', startedAt: new Date(), finishedAt: null, error: null, processedFiles: 0, embeddedFiles: 0 });
+
+    try {
+      const branch = job.branch ?? await this.defaultBranch(job);
+      const { commitSha, blobs } = await this.files.getTree(installationId, job.owner, job.repo, branch);
+      const wanted = blobs.filter(b => this.isIndexable(b));
+
+      const model = this.embeddings.modelTag();
+      const existing = await prisma.fileEmbedding.findMany({
+        where: { ...scope, chunk: 0 },
+        select: { path: true, blobSha: true, model: true }
+      });
+      const indexed = new Map(existing.map(e => [e.path, e]));
+      const changed = wanted.filter(b => {
+        const row = indexed.get(b.path);
+        return !row || row.blobSha !== b.sha || row.model !== model;
+      });
+      const present = new Set(wanted.map(b => b.path));
+      const removed = [...indexed.keys()].filter(p => !present.has(p));
+      if (removed.length) {
+        await prisma.fileEmbedding.deleteMany({ where: { ...scope, path: { in: removed } } });
+      }
+      await this.setStatus(job, { commitSha, totalFiles: changed.length, removedFiles: removed.length });
+
+      let processed = 0;
+      let embedded = 0;
+      const failedFiles: string[] = [];
+      for (let i = 0; i < changed.length; i += cfg.embeddingIndex.batchSize) {
+        const batch = changed.slice(i, i + cfg.embeddingIndex.batchSize);
+        const results = await Promise.all(batch.map(async blob => {
+          try {
+            await this.indexFile(scope, blob, model);
+            return true;
+          } catch (error) {
+            log.warn(`Failed to index ${job.owner}/${job.repo}:${blob.path}: ${error}`);
+            failedFiles.push(blob.path);
+            return false;
+          }
+        }));
+        processed += batch.length;
+        embedded += results.filter(Boolean).length;
+        await this.setStatus(job, { processedFiles: processed, embeddedFiles: embedded });
+      }
+
+      await this.setStatus(job, { status: 'ready', finishedAt: new Date() });
+      log.info(`Indexed ${job.owner}/${job.repo}@${commitSha.slice(0, 7)}: ${embedded} embedded, ${removed.length} removed, ${wanted.length - changed.length} unchanged`);
+      return {
+        commitSha,
+        totalFiles: wanted.length,
+        embeddedFiles: embedded,
+        unchangedFiles: wanted.length - changed.length,
+        removedFiles: removed.length,
+        failedFiles
+      };
+    } catch (error) {
+      await this.setStatus(job, { status: 'failed', finishedAt: new Date(), error: String(error).slice(0, 500) });
+      throw error;
+    }
+  }
+
+  async getStatus(owner: string, repo: string) {
+    return prisma.repoIndexStatus.findFirst({ where: { owner, repo }, orderBy: { updatedAt: 'desc' } });
+  }
+
+  private async indexFile(scope: { installationId: bigint; owner: string; repo: string }, blob: TreeNode, model: string) {
+    const content = await this.files.getBlobContent(scope.installationId.toString(), scope.owner, scope.repo, blob.sha);
+    // Binary files slipping past the extension filter are indexed as empty
+    const chunks = content.includes('\u0000') ? [] : chunkFile(blob.path, content);
+    for (const c of chunks) {
+      const vector = await this.embeddings.embedText(`${blob.path}${c.symbol ? ` (${c.symbol})` : ''}\n${c.text}`);
+      const data = { blobSha: blob.sha, vector, model, symbol: c.symbol ?? null, startLine: c.startLine, endLine: c.endLine, updatedAt: new Date() };
+      const row = await prisma.fileEmbedding.upsert({
+        where: { installationId_owner_repo_path_chunk: { ...scope, path: blob.path, chunk: c.chunk } },
+        create: { id: `${scope.installationId}:${scope.owner}/${scope.repo}:${blob.path}#${c.chunk}`, ...scope, path: blob.path, chunk: c.chunk, ...data },
+        update: data,
+        select: { id: true }
+      });
+      await this.store.index('file', row.id, vector);
+    }
+    if (!chunks.length) {
+      // A vectorless chunk-0 row records the blob as indexed, so it is not downloaded again; searches skip it
+      const data = { blobSha: blob.sha, vector: [], model, symbol: null, startLine: null, endLine: null, updatedAt: new Date() };
+      await prisma.fileEmbedding.upsert({
+        where: { installationId_owner_repo_path_chunk: { ...scope, path: blob.path, chunk: 0 } },
+        create: { id: `${scope.installationId}:${scope.owner}/${scope.repo}:${blob.path}#0`, ...scope, path: blob.path, chunk: 0, ...data },
+        update: data
+      });
+    }
+    await prisma.fileEmbedding.deleteMany({ where: { ...scope, path: blob.path, chunk: { gte: Math.max(chunks.length, 1) } } });
+  }
+
+  private async defaultBranch(job: IndexJob): Promise<string> {
+    const octokit = await getInstallationOctokit(String(job.installationId));
+    const { data } = await octokit.rest.repos.get({ owner: job.owner, repo: job.repo });
+    return data.default_branch || cfg.git.defaultBase;
+  }
+
+  private async setStatus(job: IndexJob, data: Record<string, unknown>) {
+    const key = { installationId: BigInt(job.installationId), owner: job.owner, repo: job.repo };
+    try {
+      await prisma.repoIndexStatus.upsert({
+        where: { installationId_owner_repo: key },
+        create: { id: `${job.installationId}:${job.owner}/${job.repo}`, ...key, ...data },
+        update: data
+      });
+    } catch (error) {
+      log.warn(`Failed to record index status for ${job.owner}/${job.repo}: ${error}`);
+    }
+  }
+}
+
+export const embeddingIndexer = new EmbeddingIndexer();
@@ -2,12 +2,17 @@
 import OpenAI from 'openai';
 import { cfg } from '../config.js';
 import pino from 'pino';
+import { prisma } from '../storage/prisma.js';
+import { LocalEmbedder } from './localEmbedder.js';
+import { vectorStore, VectorStore } from '../storage/vectorStore.js';
 
 const log = pino({ level: process.env.LOG_LEVEL || 'info' });
 
 export interface EmbeddingVector {
   id: string;
   vector: number[];
+  /** modelTag() of the service that produced the vector */
+  model: string;
   metadata: Record<string, any>;
   text: string;
   timestamp: Date;
@@ -30,18 +35,26 @@ export interface EmbeddingConfig {
 
 export class EmbeddingService {
   private openai?: OpenAI;
+  private local?: LocalEmbedder;
   private embeddings: Map<string, EmbeddingVector> = new Map();
   private config: EmbeddingConfig;
 
-  constructor() {
+  constructor(private store: VectorStore = vectorStore) {
+    // Without an API key (e.g. air-gapped installs) fall back to the offline embedder
+    const provider = (process.env.EMBEDDINGS_PROVIDER as EmbeddingConfig['provider']) || (process.env.OPENAI_API_KEY ? 'openai' : 'local');
     this.config = {
-      provider: (process.env.EMBEDDINGS_PROVIDER as any) || 'openai',
+      provider,
       model: process.env.EMBEDDINGS_MODEL || 'text-embedding-3-small',
-      dimensions: parseInt(process.env.EMBEDDINGS_DIMENSIONS || '1536'),
+      dimensions: parseInt(process.env.EMBEDDINGS_DIMENSIONS || (provider === 'local' ? '384' : '1536')),
       maxTokens: parseInt(process.env.EMBEDDINGS_MAX_TOKENS || '8192'),
       batchSize: parseInt(process.env.EMBEDDINGS_BATCH_SIZE || '100')
     };
 
+    if (provider === 'local') {
+      this.local = new LocalEmbedder(this.config.dimensions);
+      this.config.model = this.local.model;
+    }
+
     if (this.config.provider === 'openai') {
       this.openai = new OpenAI({
         apiKey: process.env.OPENAI_API_KEY
@@ -49,35 +62,45 @@ export class EmbeddingService {
     }
   }
 
+  /** Identifies the vector space, e.g. `openai:text-embedding-3-small` or `local:hash-v1-384`; vectors with different tags must never be compared. */
+  modelTag(): string {
+    return `${this.config.provider}:${this.config.model}`;
+  }
+
+  /** Embeds text without keeping it in the in-process store (used for bulk indexing and queries). */
+  async embedText(text: string): Promise<number[]> {
+    return this.vectorFor(this.preprocessText(text));
+  }
+
+  private async vectorFor(cleanedText: string): Promise<number[]> {
+    switch (this.config.provider) {
+      case 'openai':
+        return this.generateOpenAIEmbedding(cleanedText);
+      case 'local':
+        return this.generateLocalEmbedding(cleanedText);
+      case 'huggingface':
+        return this.generateHuggingFaceEmbedding(cleanedText);
+      default:
+        throw new Error(`Unsupported embedding provider: ${this.config.provider}`);
+    }
+  }
+
   async generateEmbedding(text: string, metadata: Record<string, any> = {}): Promise<EmbeddingVector> {
     try {
       const cleanedText = this.preprocessText(text);
-      
-      let vector: number[];
-      
-      switch (this.config.provider) {
-        case 'openai':
-          vector = await this.generateOpenAIEmbedding(cleanedText);
-          break;
-        case 'local':
-          vector = await this.generateLocalEmbedding(cleanedText);
-          break;
-        case 'huggingface':
-          vector = await this.generateHuggingFaceEmbedding(cleanedText);
-          break;
-        default:
-          throw new Error(`Unsupported embedding provider: ${this.config.provider}`);
-      }
+      const vector = await this.vectorFor(cleanedText);
 
       const embedding: EmbeddingVector = {
         id: this.generateId(text, metadata),
         vector,
+        model: this.modelTag(),
         metadata,
         text: cleanedText,
         timestamp: new Date()
       };
 
       this.embeddings.set(embedding.id, embedding);
+      await this.persist(embedding);
       return embedding;
 
     } catch (error) {
@@ -86,6 +109,28 @@ export class EmbeddingService {
     }
   }
 
+  // The database copy is what findSimilar searches, so server and worker share it across restarts
+  private async persist(embedding: EmbeddingVector): Promise<void> {
+    const { metadata } = embedding;
+    const data = {
+      content: embedding.text,
+      metadata: JSON.stringify(metadata),
+      embedding: JSON.stringify(embedding.vector),
+      model: embedding.model,
+      type: String(metadata.type ?? 'memory'),
+      scope: 'memory',
+      owner: metadata.owner ?? null,
+      repo: metadata.repo ?? null,
+      timestamp: embedding.timestamp
+    };
+    try {
+      await prisma.embeddingDocument.upsert({ where: { id: embedding.id }, create: { id: embedding.id, ...data }, update: data });
+      await this.store.index('document', embedding.id, embedding.vector);
+    } catch (error) {
+      log.warn(`Embedding ${embedding.id} kept in memory only: ${error}`);
+    }
+  }
+
   async generateBatchEmbeddings(
     texts: string[], 
     metadataList: Record<string, any>[] = []
@@ -120,16 +165,30 @@ export class EmbeddingService {
     filterMetadata?: Record<string, any>
   ): Promise<SimilarityResult[]> {
     try {
-      const queryEmbedding = await this.generateEmbedding(queryText);
-      const results: SimilarityResult[] = [];
+      const query = await this.embedText(queryText);
+      const model = this.modelTag();
+      try {
+        const matches = await this.store.query('document', query, {
+          filter: { model, scope: 'memory', metadata: filterMetadata },
+          limit,
+          minScore: threshold
+        });
+        return matches.map(m => ({ id: m.id, similarity: m.score, metadata: m.row.metadata, text: m.row.content }));
+      } catch (error) {
+        log.warn(`Vector store unavailable, searching in-process embeddings: ${error}`);
+      }
 
+      const results: SimilarityResult[] = [];
       for (const [id, embedding] of this.embeddings) {
+        // Vectors from another provider or model live in a different space
+        if (embedding.model !== model || embedding.vector.length !== query.length) continue;
+
         // Apply metadata filters if provided
         if (filterMetadata && !this.matchesFilter(embedding.metadata, filterMetadata)) {
           continue;
         }
 
-        const similarity = this.cosineSimilarity(queryEmbedding.vector, embedding.vector);
+        const similarity = this.cosineSimilarity(query, embedding.vector);
         
         if (similarity >= threshold) {
           results.push({
@@ -182,6 +241,36 @@ export class EmbeddingService {
     return clusters;
   }
 
+  /**
+   * Cosine similarity between a query and the stored FileEmbedding rows of a repository, keyed by path.
+   * Rows from another embedding model are skipped; any failure yields an empty map.
+   */
+  async scoreRepoFiles(
+    scope: { installationId: number | bigint; owner: string; repo: string },
+    queryText: string,
+    paths?: string[]
+  ): Promise<Record<string, number>> {
+    const scores: Record<string, number> = {};
+    try {
+      const filter = { installationId: scope.installationId, owner: scope.owner, repo: scope.repo, model: this.modelTag() };
+      // Skip the query embedding call for repositories that were never indexed
+      const indexed = await prisma.fileEmbedding.count({ where: { ...filter, installationId: BigInt(scope.installationId) } });
+      if (!indexed) return scores;
+      const query = await this.embedText(queryText);
+      const matches = await this.store.query('file', query, {
+        filter: { ...filter, paths },
+        limit: paths ? paths.length * 4 : 200
+      });
+      // Large files are indexed as several symbol chunks; a file scores as its best chunk
+      for (const m of matches) {
+        scores[m.row.path] = Math.max(scores[m.row.path] ?? -1, m.score);
+      }
+    } catch (error) {
+      log.warn(`File similarity unavailable for ${scope.owner}/${scope.repo}: ${error}`);
+    }
+    return scores;
+  }
+
   async updateEmbedding(id: string, text?: string, metadata?: Record<string, any>): Promise<EmbeddingVector | null> {
     const existing = this.embeddings.get(id);
     if (!existing) return null;
@@ -191,9 +280,10 @@ export class EmbeddingService {
 
     // Only regenerate embedding if text changed
     let vector = existing.vector;
+    let model = existing.model;
     if (text && text !== existing.text) {
-      const newEmbedding = await this.generateEmbedding(updatedText);
-      vector = newEmbedding.vector;
+      vector = await this.embedText(updatedText);
+      model = this.modelTag();
     }
 
     const updated: EmbeddingVector = {
@@ -201,6 +291,7 @@ export class EmbeddingService {
       text: updatedText,
       metadata: updatedMetadata,
       vector,
+      model,
       timestamp: new Date()
     };
 
@@ -259,12 +350,8 @@ export class EmbeddingService {
   }
 
   private async generateLocalEmbedding(text: string): Promise<number[]> {
-    // Placeholder for local embedding model integration
-    // In practice, this would interface with Ollama, Sentence Transformers, etc.
-    log.warn('Local embedding generation not implemented - returning mock embedding');
-    
-    // Return a mock embedding vector
-    return Array.from({ length: this.config.dimensions }, () => Math.random() * 2 - 1);
+    this.local ??= new LocalEmbedder(this.config.dimensions);
+    return this.local.embed(text);
   }
 
   private async generateHuggingFaceEmbedding(text: string): Promise<number[]> {
@@ -1,17 +1,33 @@
 import { prisma } from "../storage/prisma.js";
-import { resolveProvider } from "./providerResolver.js";
 import { addMemory } from "../ai/memoryStore.js";
 import { cfg } from "../config.js";
+import { usageService } from "./usageService.js";
+import { markOutputInvalid, resolveAgentProvider } from "./issueAgentService.js";
+import { StructuredOutputError } from "../ai/outputSchemas.js";
+import { ProviderEvaluationResult, PlanTask } from "../types.js";
+import { findDependencyCycle } from "../ai/taskGraph.js";
+import { planSyncService } from "./planSyncService.js";
+import { updatePullRequest } from "./prService.js";
+import { GitHubChecksService } from "../core/communicationService.js";
+import { planApprovalService } from "./planApprovalService.js";
 
 export async function evaluateAgent(agentId: string) {
   const agent = await prisma.issueAgent.findUnique({
     where: { id: agentId },
     include: { tasks: true }
   });
-  if (!agent) return;
+  // Blocked agents (paused, awaiting approval, invalid output, over budget) wait for a human, not another evaluation
+  if (!agent || agent.blocked || agent.completed) return;
 
-  const provider = await resolveProvider(Number(agent.installationId));
-  if (!provider.evaluateAndSuggest) return;
+  if (await usageService.enforceBudget(agent)) return;
+  // A plan under review is not evaluated or expanded until it is approved
+  if (await planApprovalService.awaitingApproval(agent.id)) return;
+
+  // Stamped up front so a failing evaluation is retried on the worker's schedule, not every minute
+  await prisma.issueAgent.update({ where: { id: agent.id }, data: { lastEvalAt: new Date() } });
+
+  const provider = await resolveAgentProvider(agent);
+  if (!provider?.evaluateAndSuggest) return;
 
   // Fetch repository files for evaluation context
   const { repoFileService } = await import('./repoFileService.js');
@@ -25,24 +41,34 @@ export async function evaluateAgent(agentId: string) {
   );
   const repoFiles = repoSnapshot.files.map(f => f.path);
 
-  const completed = agent.tasks.filter((t: any) => t.status === 'done').map((t: any) => t.externalId);
-  const currentTasks = agent.tasks.filter((t: any) => t.status !== 'done').map((t: any) => ({
+  const completed = agent.tasks.filter((t: any) => t.status === 'verified').map((t: any) => t.externalId);
+  const currentTasks = agent.tasks.filter((t: any) => t.status !== 'verified').map((t: any) => ({
     id: t.externalId,
     title: t.title,
     type: t.type,
     paths: t.paths,
-    riskScore: t.riskScore
+    riskScore: t.riskScore,
+    dependsOn: t.dependsOn
   }));
 
-  const evalResult = await provider.evaluateAndSuggest({
-    issueTitle: agent.issueTitle,
-    issueBody: '<hidden>',
-    currentTasks,
-    completedTaskIds: completed,
-    repoFiles,
-    recentCommitsMeta: [],
-    planVersion: agent.planVersion
-  });
+  let evalResult: ProviderEvaluationResult;
+  try {
+    evalResult = await provider.evaluateAndSuggest({
+      issueTitle: agent.issueTitle,
+      issueBody: '<hidden>',
+      currentTasks,
+      completedTaskIds: completed,
+      repoFiles,
+      recentCommitsMeta: [],
+      planVersion: agent.planVersion
+    });
+  } catch (error) {
+    if (error instanceof StructuredOutputError) {
+      await markOutputInvalid(agent, error);
+      return;
+    }
+    throw error;
+  }
 
   await addMemory(agent.id, 'evaluation', JSON.stringify({
     coverage: evalResult.coverageScore,
@@ -50,9 +76,11 @@ export async function evaluateAgent(agentId: string) {
     newTasks: evalResult.newTasks?.length || 0
   }));
 
+  let held = false;
   if (cfg.eval.autoExpand && evalResult.newTasks?.length) {
     let idxBase = agent.tasks.length;
-    for (const nt of evalResult.newTasks.slice(0, cfg.eval.maxNewTasksPerEval)) {
+    const newTasks = linkNewTasks(agent.tasks, evalResult.newTasks.slice(0, cfg.eval.maxNewTasksPerEval));
+    for (const nt of newTasks) {
       await prisma.task.create({
         data: {
           id: `${agent.id}_${nt.id}`,
@@ -62,6 +90,7 @@ export async function evaluateAgent(agentId: string) {
             title: nt.title,
             type: nt.type,
             paths: nt.paths,
+            dependsOn: nt.dependsOn ?? [],
             riskScore: nt.riskScore ?? 0.4,
             origin: 'evaluation',
             status: 'pending',
@@ -72,8 +101,11 @@ export async function evaluateAgent(agentId: string) {
     }
     await prisma.issueAgent.update({
       where: { id: agent.id },
-      data: { totalTasks: agent.totalTasks + evalResult.newTasks.length }
+      data: { totalTasks: agent.totalTasks + newTasks.length, planVersion: agent.planVersion + 1 }
     });
+    // Added tasks can be as risky as a fresh plan, so the expanded version goes through the approval gate
+    held = !!(await planApprovalService.gateRevision(agent.id, newTasks.map(t => t.id)))?.required;
+    await planSyncService.refresh(agent.id);
   }
 
   const confAdj = evalResult.confidenceAdjustment ?? 0;
@@ -81,8 +113,27 @@ export async function evaluateAgent(agentId: string) {
     where: { id: agent.id },
     data: {
       confidence: Math.min(1, Math.max(0, agent.confidence + confAdj)),
-      lastEvalAt: new Date(),
-      phase: evalResult.stopRecommended ? 'finalizing' : 'executing'
+      // Gating just parked the agent in awaiting_approval
+      ...(held ? {} : { phase: evalResult.stopRecommended ? 'finalizing' : 'executing' })
     }
   });
+  await new GitHubChecksService().updateEvalCheck(agent.id, {
+    coverageScore: evalResult.coverageScore,
+    rationale: evalResult.rationale,
+    newTasks: cfg.eval.autoExpand ? Math.min(evalResult.newTasks?.length ?? 0, cfg.eval.maxNewTasksPerEval) : 0,
+    stopRecommended: evalResult.stopRecommended
+  });
+  // Finalization marks the draft PR ready for review
+  if (evalResult.stopRecommended && !held) await updatePullRequest(agent.id);
+}
+
+// New tasks may depend on existing or other new tasks; unknown ids are dropped and a cycle drops the new edges.
+// A new task reusing an existing id is skipped: ids are row keys.
+function linkNewTasks(existing: Array<{ externalId: string; dependsOn: string[] }>, proposed: PlanTask[]): PlanTask[] {
+  const existingIds = new Set(existing.map(t => t.externalId));
+  const newTasks = proposed.filter(t => !existingIds.has(t.id));
+  const known = new Set([...existingIds, ...newTasks.map(t => t.id)]);
+  const linked = newTasks.map(t => ({ ...t, dependsOn: (t.dependsOn ?? []).filter(d => d !== t.id && known.has(d)) }));
+  const graph = [...existing.map(t => ({ id: t.externalId, dependsOn: t.dependsOn })), ...linked];
+  return findDependencyCycle(graph) ? linked.map(t => ({ ...t, dependsOn: [] })) : linked;
 }
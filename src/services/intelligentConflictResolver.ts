@@ -153,6 +153,7 @@ export class IntelligentConflictResolver {
     
     let currentConflict: Partial<ConflictSection> | null = null;
     let inOurSection = false;
+    let inBaseSection = false;
     let inTheirSection = false;
     
     for (let i = 0; i < lines.length; i++) {
@@ -167,9 +168,14 @@ export class IntelligentConflictResolver {
           baseVersion: []
         };
         inOurSection = true;
+      } else if (line.startsWith('|||||||') && currentConflict) {
+        // diff3-style base section
+        inOurSection = false;
+        inBaseSection = true;
       } else if (line.startsWith('=======')) {
         // Switch from our to their changes
         inOurSection = false;
+        inBaseSection = false;
         inTheirSection = true;
       } else if (line.startsWith('>>>>>>>')) {
         // End of conflict
@@ -184,6 +190,8 @@ export class IntelligentConflictResolver {
       } else if (currentConflict) {
         if (inOurSection) {
           currentConflict.ourChanges!.push(line);
+        } else if (inBaseSection) {
+          currentConflict.baseVersion!.push(line);
         } else if (inTheirSection) {
           currentConflict.theirChanges!.push(line);
         }
@@ -797,6 +805,10 @@ export class IntelligentConflictResolver {
   // Public API methods
   async applyResolution(filePath: string, analysis: ConflictAnalysis): Promise<string> {
     const originalContent = await readFile(filePath, 'utf-8');
+    return this.applyResolutionToContent(originalContent, analysis);
+  }
+
+  applyResolutionToContent(originalContent: string, analysis: ConflictAnalysis): string {
     const lines = originalContent.split('\n');
     
     // Apply resolutions in reverse order to maintain line numbers
@@ -1,5 +1,10 @@
 import { prisma } from "../storage/prisma.js";
 import { sha256 } from "../util/hash.js";
+import { StructuredCommentService } from "../core/communicationService.js";
+import { StructuredOutputError } from "../ai/outputSchemas.js";
+import { ProviderConfigError } from "../providers/providerFactory.js";
+import { resolveProvider } from "./providerResolver.js";
+import { Provider } from "../types.js";
 
 export async function ensureIssueAgent(params: { installationId: number; owner: string; repo: string; issueNumber: number; title: string; body: string; }) {
   const id = `${params.owner}_${params.repo}_${params.issueNumber}`.toLowerCase();
@@ -13,3 +18,59 @@ export async function ensureIssueAgent(params: { installationId: number; owner:
 export async function loadAgent(owner: string, repo: string, number: number) {
   return prisma.issueAgent.findUnique({ where: { id: `${owner}_${repo}_${number}`.toLowerCase() }, include: { tasks: true } });
 }
+
+type NotifiedAgent = { id: string; installationId: bigint; owner: string; repo: string; issueNumber: number };
+
+export interface BlockNotice {
+  type: string;
+  message: string;
+  details: string;
+  recoveryActions: string[];
+}
+
+// Parks the agent in `phase` (the worker skips blocked agents) and explains why on the issue
+export async function blockAgent(agent: NotifiedAgent, phase: string, notice: BlockNotice) {
+  await prisma.issueAgent.update({
+    where: { id: agent.id },
+    data: { phase, blocked: true }
+  });
+  await new StructuredCommentService().postStructuredComment(
+    agent.installationId.toString(),
+    agent.owner,
+    agent.repo,
+    agent.issueNumber,
+    { type: 'error', agentId: agent.id, data: notice }
+  );
+}
+
+// Blocks the agent in phase `output_invalid` rather than continuing with a guessed plan or evaluation
+export async function markOutputInvalid(agent: NotifiedAgent, error: StructuredOutputError) {
+  await blockAgent(agent, 'output_invalid', {
+    type: 'OUTPUT_INVALID',
+    message: `The model returned an unusable ${error.kind} ${error.attempts} time(s); the agent is paused instead of guessing.`,
+    details: `${error.validationError}\n\nLast output:\n${error.raw.slice(0, 1500)}`,
+    recoveryActions: [
+      'Switch the installation to a stronger model or add a fallback provider',
+      'Resume with @ai-bot resume to retry'
+    ]
+  });
+}
+
+// The installation's LLM provider, or null after blocking the agent in `provider_misconfigured`
+export async function resolveAgentProvider(agent: NotifiedAgent): Promise<Provider | null> {
+  try {
+    return await resolveProvider(Number(agent.installationId), agent.id);
+  } catch (error) {
+    if (!(error instanceof ProviderConfigError)) throw error;
+    await blockAgent(agent, 'provider_misconfigured', {
+      type: 'PROVIDER_MISCONFIGURED',
+      message: `The LLM provider "${error.provider}" cannot be used, so the agent is paused instead of running on placeholder output.`,
+      details: error.reason,
+      recoveryActions: [
+        'Set the provider credentials or endpoint in the environment or the installation config',
+        'Resume with @ai-bot resume once fixed'
+      ]
+    });
+    return null;
+  }
+}
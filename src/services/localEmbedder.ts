@@ -0,0 +1,78 @@
+// Offline embeddings: hashed identifier/word/character n-grams, TF weighted and L2 normalised
+
+const VERSION = 'hash-v1';
+
+// Keywords carry little meaning in code search, so they count for a fraction of a normal term
+const LOW_WEIGHT = new Set([
+  'the', 'a', 'an', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'is', 'it', 'be', 'as', 'at', 'by', 'with', 'this', 'that',
+  'const', 'let', 'var', 'function', 'return', 'import', 'export', 'from', 'default', 'class', 'extends', 'new', 'if', 'else',
+  'true', 'false', 'null', 'undefined', 'async', 'await', 'type', 'interface', 'public', 'private', 'protected', 'static',
+  'def', 'self', 'none', 'pass', 'string', 'number', 'boolean', 'void', 'any'
+]);
+
+// FNV-1a; stable across processes and platforms, which is what makes the vectors comparable
+function fnv1a(text: string, seed = 0x811c9dc5): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/** Splits `parseHTTPResponse_v2` into `parse`, `http`, `response`, `v2`, keeping the whole identifier too. */
+export function codeTokens(text: string): string[] {
+  const tokens: string[] = [];
+  for (const raw of text.match(/[A-Za-z_$][\w$]*|\d+/g) ?? []) {
+    const parts = raw
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map(p => p.toLowerCase())
+      .filter(Boolean);
+    if (parts.length > 1) tokens.push(raw.toLowerCase());
+    tokens.push(...parts);
+  }
+  return tokens;
+}
+
+/**
+ * Deterministic, network-free text embedder. Features (subword tokens, token bigrams and
+ * character trigrams) are hashed into `dimensions` signed buckets (the hashing trick, a random
+ * projection of the sparse TF vector), so the same text always yields the same vector.
+ */
+export class LocalEmbedder {
+  constructor(public readonly dimensions = 384) {}
+
+  /** Model tag stored next to vectors; changes whenever the algorithm or size changes. */
+  get model(): string {
+    return `${VERSION}-${this.dimensions}`;
+  }
+
+  embed(text: string): number[] {
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => counts.set(feature, (counts.get(feature) ?? 0) + weight);
+
+    const tokens = codeTokens(text);
+    tokens.forEach((token, i) => {
+      const weight = LOW_WEIGHT.has(token) ? 0.1 : 1;
+      add(`w:${token}`, weight);
+      const next = tokens[i + 1];
+      if (next) add(`b:${token} ${next}`, 0.5 * weight);
+      if (token.length > 3) {
+        const padded = `^${token}$`;
+        for (let j = 0; j + 3 <= padded.length; j++) add(`c:${padded.slice(j, j + 3)}`, 0.25 * weight);
+      }
+    });
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, tf] of counts) {
+      const hash = fnv1a(feature);
+      const sign = fnv1a(feature, 0x9747b28c) & 1 ? 1 : -1;
+      // Sublinear TF so a repeated identifier does not drown out the rest of the text
+      vector[hash % this.dimensions]! += sign * (tf > 1 ? 1 + Math.log(tf) : tf);
+    }
+    const norm = Math.sqrt(vector.reduce((s, v) => s + v * v, 0));
+    return norm ? vector.map(v => v / norm) : vector;
+  }
+}
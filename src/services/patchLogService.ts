@@ -1,3 +1,5 @@
+import { HunkApplyResult } from '../types.js';
+
 export interface PatchAttemptLog {
   id: string;
   ts: number;
@@ -31,6 +33,7 @@ export async function logPatch(params: {
   validation: any;
   applied: boolean;
   commitSha?: string;
+  hunkResults?: HunkApplyResult[];
 }): Promise<void> {
   try {
     // Import prisma client for database logging
@@ -68,7 +71,8 @@ export async function logPatch(params: {
         },
         validation: {
           ok: params.validation.ok,
-          reasons: params.validation.reasons || []
+          reasons: params.validation.reasons || [],
+          hunks: (params.hunkResults || []) as any
         }
       }
     });
@@ -0,0 +1,203 @@
+// Plan approval gate: risky, large or protected-path plans wait for sign-off before execution starts
+import pino from 'pino';
+import { prisma } from '../storage/prisma.js';
+import { cfg } from '../config.js';
+import { PlanTask } from '../types.js';
+import { EnhancedPlanningService } from '../core/enhancedPlanningService.js';
+import { commandAuthorizer, CommandAuthorizer } from './commandPermissions.js';
+import { repoFileService } from './repoFileService.js';
+import { getInstallationOctokit } from '../octokit.js';
+import { PolicyEngine } from './policyEngine.js';
+import { CODEOWNERS_PATHS, matchesPathPattern, ownersFor, parseCodeowners } from '../util/codeowners.js';
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+export type ApprovalChannel = 'comment' | 'review' | 'dashboard';
+
+export interface ApprovalGate {
+  required: boolean;
+  reasons: string[];
+  /** Users/teams whose approval counts; empty means anyone allowed to run `approve` */
+  approvers: string[];
+  needed: number;
+}
+
+export interface ApprovalDecision {
+  agentId: string;
+  author: string;
+  decision: 'approve' | 'reject';
+  via: ApprovalChannel;
+  reason?: string;
+}
+
+export interface ApprovalOutcome {
+  status: 'not_required' | 'not_eligible' | 'pending' | 'approved' | 'rejected';
+  approvedBy: string[];
+  needed: number;
+  reason?: string;
+}
+
+// Review statuses that hold execution; `approved` and `superseded` release it
+const OPEN = ['pending', 'rejected'];
+
+type GateAgent = { id: string; installationId: bigint; owner: string; repo: string; issueNumber: number };
+
+/** Why a plan needs sign-off under `options`; empty when it may run straight away. */
+export function approvalReasons(tasks: PlanTask[], options = cfg.approval): string[] {
+  const reasons: string[] = [];
+  const risky = tasks.filter(t => (t.riskScore ?? 0.3) >= options.riskThreshold);
+  if (risky.length) reasons.push(`${risky.length} task(s) at or above risk ${options.riskThreshold} (${risky.map(t => t.id).join(', ')})`);
+  if (tasks.length > options.maxTasks) reasons.push(`${tasks.length} tasks (more than ${options.maxTasks})`);
+  const paths = [...new Set(tasks.flatMap(t => t.paths))];
+  const protectedPaths = paths.filter(p => options.protectedPaths.some(pattern => matchesPathPattern(p, pattern)));
+  if (protectedPaths.length) reasons.push(`touches protected paths: ${protectedPaths.join(', ')}`);
+  return reasons;
+}
+
+function parseList(json: string): string[] {
+  try {
+    const value = JSON.parse(json);
+    return Array.isArray(value) ? value.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+export class PlanApprovalService {
+  constructor(
+    private authorizer: CommandAuthorizer = commandAuthorizer,
+    private planning = new EnhancedPlanningService()
+  ) {}
+
+  /**
+   * Runs once a new plan version is stored. When the plan trips a trigger, opens a StakeholderReview
+   * for the version and parks the agent in `awaiting_approval`.
+   */
+  async gate(agent: GateAgent, planVersion: number, tasks: PlanTask[], overrides: Partial<typeof cfg.approval> = {}): Promise<ApprovalGate> {
+    const reasons = cfg.approval.enabled ? approvalReasons(tasks, { ...cfg.approval, ...overrides }) : [];
+    if (!reasons.length) {
+      // A replan that no longer needs sign-off must not stay stuck behind the previous version's review
+      await prisma.stakeholderReview.updateMany({ where: { agentId: agent.id, status: { in: OPEN } }, data: { status: 'superseded' } });
+      return { required: false, reasons, approvers: [], needed: 0 };
+    }
+
+    const approvers = await this.requiredApprovers(agent, tasks.flatMap(t => t.paths));
+    await this.planning.initiateStakeholderReview(agent.id, planVersion, approvers);
+    await prisma.issueAgent.update({ where: { id: agent.id }, data: { phase: 'awaiting_approval', blocked: true } });
+    log.info({ agentId: agent.id, planVersion, reasons, approvers }, 'Plan awaiting approval');
+    return { required: true, reasons, approvers, needed: cfg.approval.minApprovals };
+  }
+
+  /**
+   * Gates a revised plan (evaluation expansion, human edits) once its new version is stored. What a
+   * reviewer already approved is not gated again: after an approval only the `changed` tasks count.
+   */
+  async gateRevision(agentId: string, changed: string[]): Promise<ApprovalGate | null> {
+    const agent = await prisma.issueAgent.findUnique({ where: { id: agentId }, include: { tasks: true } });
+    if (!agent) return null;
+    const remaining: PlanTask[] = agent.tasks
+      .filter(t => t.status !== 'verified')
+      .map(t => ({ id: t.externalId, title: t.title, type: t.type, paths: t.paths, riskScore: t.riskScore ?? undefined, dependsOn: t.dependsOn }));
+    const approved = (await this.latestReview(agent.id))?.status === 'approved';
+    const gate = approved
+      ? await this.gate(agent, agent.planVersion, remaining.filter(t => changed.includes(t.id)), { maxTasks: Infinity })
+      : await this.gate(agent, agent.planVersion, remaining);
+    if (gate.required) {
+      const octo = await getInstallationOctokit(agent.installationId.toString());
+      const who = gate.approvers.length ? `from ${gate.approvers.join(', ')}` : 'from a maintainer';
+      await octo.rest.issues.createComment({
+        owner: agent.owner,
+        repo: agent.repo,
+        issue_number: agent.issueNumber,
+        body: [
+          `⏸️ Plan v${agent.planVersion} changed and needs ${gate.needed} approval(s) ${who} before the agent continues, because it:`,
+          ...gate.reasons.map(r => `- ${r}`),
+          '',
+          'Approve with `@ai-bot approve`, an approving review on the agent PR, or the dashboard; `@ai-bot reject <reason>` stops it.'
+        ].join('\n')
+      });
+    }
+    return gate;
+  }
+
+  /** True while the agent's latest plan review is pending or was rejected. */
+  async awaitingApproval(agentId: string): Promise<boolean> {
+    const review = await this.latestReview(agentId);
+    return !!review && OPEN.includes(review.status);
+  }
+
+  /**
+   * Records an approval or rejection of the open review. Comment commands arrive already authorized;
+   * PR reviews and dashboard decisions are checked against the `approve`/`reject` command rules.
+   */
+  async decide(decision: ApprovalDecision, opts: { authorized?: boolean } = {}): Promise<ApprovalOutcome> {
+    const needed = cfg.approval.minApprovals;
+    const review = await this.latestReview(decision.agentId);
+    if (!review || !OPEN.includes(review.status)) return { status: 'not_required', approvedBy: review ? parseList(review.approvedBy) : [], needed };
+    const agent = await prisma.issueAgent.findUnique({ where: { id: decision.agentId } });
+    if (!agent) return { status: 'not_required', approvedBy: [], needed };
+
+    const request = {
+      command: decision.decision,
+      author: decision.author,
+      installationId: agent.installationId.toString(),
+      owner: agent.owner,
+      repo: agent.repo,
+      agentId: agent.id,
+      issueNumber: agent.issueNumber
+    };
+    let approvedBy = parseList(review.approvedBy);
+    if (!opts.authorized) {
+      const authorization = await this.authorizer.authorize(request);
+      if (!authorization.allowed) return { status: 'not_eligible', approvedBy, needed, reason: authorization.reason };
+    }
+    const approvers = parseList(review.requiredApprovers);
+    if (approvers.length && !(await this.authorizer.isOwner(request, approvers))) {
+      return { status: 'not_eligible', approvedBy, needed, reason: `only ${approvers.join(', ')} can ${decision.decision} this plan` };
+    }
+
+    if (decision.decision === 'reject') {
+      await prisma.stakeholderReview.update({ where: { id: review.id }, data: { status: 'rejected', approvedBy: '[]' } });
+      await prisma.issueAgent.update({ where: { id: agent.id }, data: { phase: 'plan_rejected', blocked: true } });
+      log.info({ agentId: agent.id, author: decision.author, via: decision.via, reason: decision.reason }, 'Plan rejected');
+      return { status: 'rejected', approvedBy: [], needed, reason: decision.reason };
+    }
+
+    const author = decision.author.toLowerCase();
+    if (!approvedBy.includes(author)) approvedBy = [...approvedBy, author];
+    const approved = approvedBy.length >= needed;
+    await prisma.stakeholderReview.update({
+      where: { id: review.id },
+      data: { status: approved ? 'approved' : 'pending', approvedBy: JSON.stringify(approvedBy) }
+    });
+    if (approved) {
+      await prisma.issueAgent.update({ where: { id: agent.id }, data: { phase: 'executing', blocked: false } });
+    }
+    log.info({ agentId: agent.id, author, via: decision.via, approvedBy, needed }, approved ? 'Plan approved' : 'Plan approval recorded');
+    return { status: approved ? 'approved' : 'pending', approvedBy, needed };
+  }
+
+  private latestReview(agentId: string) {
+    return prisma.stakeholderReview.findFirst({ where: { agentId }, orderBy: { planVersion: 'desc' } });
+  }
+
+  // Configured approvers first, then owners of the plan's paths in .aiagent-ownership.yml, then CODEOWNERS
+  private async requiredApprovers(agent: GateAgent, paths: string[]): Promise<string[]> {
+    if (cfg.approval.approvers.length) return cfg.approval.approvers;
+    const installationId = agent.installationId.toString();
+    try {
+      const config = await repoFileService.getConfigFiles(installationId, agent.owner, agent.repo);
+      const owners = PolicyEngine.fromConfig(config.ownership).getOwners(paths.length ? paths : undefined);
+      if (owners.length) return owners;
+      const [codeowners] = await repoFileService.getSpecificFiles(installationId, agent.owner, agent.repo, CODEOWNERS_PATHS);
+      if (!codeowners) return [];
+      const rules = parseCodeowners(codeowners.content);
+      return [...new Set(paths.flatMap(p => ownersFor(rules, p)))];
+    } catch (error) {
+      log.warn(`Could not resolve plan approvers for ${agent.owner}/${agent.repo}: ${error}`);
+      return [];
+    }
+  }
+}
+
+export const planApprovalService = new PlanApprovalService();
@@ -0,0 +1,234 @@
+// Keeps the plan document on the agent branch and in the PR body in step with Task rows, in both directions
+import pino from 'pino';
+import type { Octokit } from 'octokit';
+import type { IssueAgent, Iteration, Task } from '@prisma/client';
+import { prisma } from '../storage/prisma.js';
+import { getInstallationOctokit } from '../octokit.js';
+import { cfg } from '../config.js';
+import { sha256 } from '../util/hash.js';
+import { reconcilePlan, renderPlanDocument } from '../util/planDocument.js';
+import { renderPullRequestBody } from '../util/pullRequestBody.js';
+import { planApprovalService } from './planApprovalService.js';
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+type PlanAgent = IssueAgent & { tasks: Task[]; iterationsLog?: Iteration[] };
+type RepoRef = { owner: string; repo: string };
+
+export class PlanSyncService {
+  render(agent: PlanAgent): string {
+    const rows = [...agent.tasks].sort((a, b) => a.orderIndex - b.orderIndex);
+    return renderPlanDocument({ issueNumber: agent.issueNumber, issueTitle: agent.issueTitle, version: agent.planVersion }, rows);
+  }
+
+  /** The agent PR's body: the issue reference (closing relies on it), the mirrored plan and the iteration log. */
+  pullRequestBody(agent: PlanAgent, doc = this.render(agent)): string {
+    const coverage = agent.coverageLines === null ? null : {
+      lines: agent.coverageLines,
+      statements: agent.coverageStmts ?? undefined,
+      branches: agent.coverageBranches ?? undefined,
+      functions: agent.coverageFuncs ?? undefined
+    };
+    return renderPullRequestBody({ ...agent, iterations: agent.iterationsLog ?? [], coverage }, doc);
+  }
+
+  /**
+   * Writes the plan document to the agent branch (creating the branch if needed) and mirrors it into
+   * the PR body when it changed. Returns the commit that holds the current plan.
+   */
+  async publish(agentId: string): Promise<string | null> {
+    const agent = await prisma.issueAgent.findUnique({ where: { id: agentId }, include: { tasks: true, iterationsLog: true } });
+    if (!agent) return null;
+    const doc = this.render(agent);
+    const hash = sha256(doc);
+    if (hash === agent.planHash && agent.planCommitSha) return agent.planCommitSha;
+
+    // Recorded first: the webhooks our own writes trigger must see this hash and ignore them
+    await prisma.issueAgent.update({ where: { id: agent.id }, data: { planHash: hash } });
+    try {
+      const octo = await getInstallationOctokit(agent.installationId.toString());
+      const repo = { owner: agent.owner, repo: agent.repo };
+      await this.ensureBranch(octo, repo, agent.branchName);
+      const existing = await this.readPlan(octo, repo, agent.branchName);
+      let commitSha = agent.planCommitSha;
+      if (existing?.content !== doc) {
+        const { data } = await octo.rest.repos.createOrUpdateFileContents({
+          ...repo,
+          path: cfg.planDocument.path,
+          branch: agent.branchName,
+          message: `agent: plan v${agent.planVersion}`,
+          content: Buffer.from(doc, 'utf8').toString('base64'),
+          sha: existing?.sha,
+          committer: { name: cfg.git.commitAuthorName, email: cfg.git.commitAuthorEmail }
+        });
+        commitSha = data.commit.sha ?? commitSha;
+      }
+      if (agent.prNumber) {
+        await octo.rest.pulls.update({ ...repo, pull_number: agent.prNumber, body: this.pullRequestBody(agent, doc) });
+      }
+      await prisma.issueAgent.update({ where: { id: agent.id }, data: { planCommitSha: commitSha } });
+      return commitSha;
+    } catch (error) {
+      await prisma.issueAgent.update({ where: { id: agent.id }, data: { planHash: agent.planHash } });
+      throw error;
+    }
+  }
+
+  /** `publish` for callers whose own work must not fail with it (planning, iterations, evaluations). */
+  async refresh(agentId: string): Promise<void> {
+    try {
+      await this.publish(agentId);
+    } catch (error) {
+      log.warn({ agentId, error: String(error) }, 'Could not publish the plan document');
+    }
+  }
+
+  /** Handles a push to an agent branch that touched the plan document. */
+  async syncFromBranch(params: { installationId: number; owner: string; repo: string; branch: string; commitSha: string; sender?: string }): Promise<boolean> {
+    const agent = await prisma.issueAgent.findFirst({
+      where: { installationId: BigInt(params.installationId), owner: params.owner, repo: params.repo, branchName: params.branch }
+    });
+    if (!agent) return false;
+    const octo = await getInstallationOctokit(params.installationId);
+    const file = await this.readPlan(octo, params, params.commitSha);
+    if (!file) {
+      // Deleted by hand; put it back rather than treating it as "remove every task"
+      await prisma.issueAgent.update({ where: { id: agent.id }, data: { planHash: null } });
+      await this.publish(agent.id);
+      return false;
+    }
+    return this.applyEdits(agent.id, file.content, 'branch', params.sender);
+  }
+
+  /** Handles an edit of the agent PR's body, e.g. checklist items ticked in the GitHub UI. */
+  async syncFromPullRequest(params: { installationId: number; owner: string; repo: string; prNumber: number; body: string; sender?: string }): Promise<boolean> {
+    const agent = await prisma.issueAgent.findFirst({
+      where: { installationId: BigInt(params.installationId), owner: params.owner, repo: params.repo, prNumber: params.prNumber }
+    });
+    if (!agent) return false;
+    const { start, end } = cfg.planDocument.mirrorMarkers;
+    // Bodies edited in the GitHub UI come back with CRLF line endings
+    const body = params.body.replace(/\r\n/g, '\n');
+    const from = body.indexOf(start);
+    const to = body.indexOf(end);
+    if (from === -1 || to < from) return false;
+    return this.applyEdits(agent.id, body.slice(from + start.length, to).trim() + '\n', 'pull_request', params.sender);
+  }
+
+  /**
+   * Reconciles an edited plan document into Task rows under a new plan version, then republishes
+   * the normalised document. Documents matching the last published plan are our own writes.
+   */
+  async applyEdits(agentId: string, doc: string, source: 'branch' | 'pull_request', editor?: string): Promise<boolean> {
+    const agent = await prisma.issueAgent.findUnique({ where: { id: agentId }, include: { tasks: true } });
+    if (!agent || sha256(doc) === agent.planHash) return false;
+
+    const result = reconcilePlan(agent.tasks, doc);
+    if (!result.ok) {
+      log.warn({ agentId, source, error: result.error }, 'Ignoring unparseable plan edit');
+      const octo = await getInstallationOctokit(agent.installationId.toString());
+      await octo.rest.issues.createComment({
+        owner: agent.owner,
+        repo: agent.repo,
+        issue_number: agent.issueNumber,
+        body: `⚠️ Could not apply the edits to \`${cfg.planDocument.path}\`: ${result.error}. The previous plan stays in effect.`
+      });
+      return false;
+    }
+
+    const { create, update, remove } = result.value;
+    if (!create.length && !update.length && !remove.length) return false;
+    const rows = new Map(agent.tasks.map(t => [t.externalId, t]));
+    const rowIds = new Map(agent.tasks.map(t => [t.externalId, t.id]));
+    for (const task of create) {
+      await prisma.task.create({
+        data: {
+          id: `${agent.id}_${task.id}`,
+          issueAgentId: agent.id,
+          externalId: task.id,
+          parentExternalId: null,
+          title: task.title,
+          type: task.type,
+          paths: task.paths,
+          dependsOn: task.dependsOn ?? [],
+          riskScore: task.riskScore ?? 0.3,
+          origin: 'human',
+          status: task.status,
+          acceptance: task.acceptance,
+          orderIndex: task.orderIndex,
+          generatedAtIteration: agent.iterations
+        }
+      });
+    }
+    for (const { externalId, data } of update) {
+      await prisma.task.update({ where: { id: rowIds.get(externalId)! }, data });
+    }
+    if (remove.length) {
+      await prisma.task.deleteMany({ where: { id: { in: remove.map(id => rowIds.get(id)!) } } });
+    }
+
+    const tasks = await prisma.task.findMany({ where: { issueAgentId: agent.id }, select: { status: true } });
+    await prisma.issueAgent.update({
+      where: { id: agent.id },
+      data: {
+        planVersion: agent.planVersion + 1,
+        totalTasks: tasks.length,
+        doneTasks: tasks.filter(t => t.status === 'verified').length
+      }
+    });
+    log.info({ agentId, source, created: create.length, updated: update.length, removed: remove.length }, 'Applied plan edits');
+    await this.recordOverrides(agent, source, editor, [
+      ...create.filter(t => t.status === 'verified').map(t => ({ task: t.id, from: null })),
+      ...update
+        .filter(({ externalId, data }) => data.status === 'verified' && rows.get(externalId)!.status !== 'verified')
+        .map(({ externalId }) => ({ task: externalId, from: rows.get(externalId)!.status }))
+    ]);
+    // Edits that add tasks or change a task's paths or risk can trip the approval triggers like a new plan
+    const rescoped = update.filter(({ externalId, data }) => {
+      const row = rows.get(externalId)!;
+      return JSON.stringify(row.paths) !== JSON.stringify(data.paths) || row.riskScore !== data.riskScore;
+    });
+    await planApprovalService.gateRevision(agent.id, [...create.map(t => t.id), ...rescoped.map(u => u.externalId)]);
+    await this.publish(agent.id);
+    return true;
+  }
+
+  // Ticked tasks become verified without the acceptance verifier running, so the audit trail says who decided that
+  private async recordOverrides(agent: IssueAgent, source: string, editor: string | undefined, overrides: Array<{ task: string; from: string | null }>) {
+    if (!overrides.length) return;
+    log.info({ agentId: agent.id, source, editor, tasks: overrides.map(o => o.task) }, 'Tasks marked verified by hand');
+    await prisma.activityLog.create({
+      data: {
+        agentId: agent.id,
+        event: 'task_verified_by_human',
+        details: JSON.stringify({ source, editor: editor ?? null, planVersion: agent.planVersion + 1, overrides }),
+        success: true
+      }
+    });
+  }
+
+  private async ensureBranch(octo: Octokit, repo: RepoRef, branch: string): Promise<void> {
+    try {
+      await octo.rest.git.getRef({ ...repo, ref: `heads/${branch}` });
+      return;
+    } catch (error: any) {
+      if (error?.status !== 404) throw error;
+    }
+    const { data: info } = await octo.rest.repos.get(repo);
+    const { data: base } = await octo.rest.git.getRef({ ...repo, ref: `heads/${info.default_branch || cfg.git.defaultBase}` });
+    await octo.rest.git.createRef({ ...repo, ref: `refs/heads/${branch}`, sha: base.object.sha });
+  }
+
+  private async readPlan(octo: Octokit, repo: RepoRef, ref: string): Promise<{ sha: string; content: string } | null> {
+    try {
+      const { data } = await octo.rest.repos.getContent({ owner: repo.owner, repo: repo.repo, path: cfg.planDocument.path, ref });
+      if (Array.isArray(data) || data.type !== 'file') return null;
+      return { sha: data.sha, content: Buffer.from(data.content, 'base64').toString('utf8') };
+    } catch (error: any) {
+      if (error?.status === 404) return null;
+      throw error;
+    }
+  }
+}
+
+export const planSyncService = new PlanSyncService();
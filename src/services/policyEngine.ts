@@ -2,15 +2,18 @@
 import { cfg } from '../config.js';
 import { readFileSync, existsSync } from 'fs';
 import { parse as parseYaml } from 'yaml';
+import { ParsedDiff } from '../types.js';
 
-interface OwnershipRule {
+export interface OwnershipRule {
   paths: string[];
-  owners: string[];
+  owners?: string[];
   operations: string[];
   required_approvals?: number;
 }
 
-interface PolicyConfig {
+export interface PolicyConfig {
+  /** Users (`@alice`) or teams (`@org/team`) who own the whole repository */
+  owners?: string[];
   max_file_size_kb?: number;
   restricted_paths?: string[];
   allowed_file_extensions?: string[];
@@ -18,6 +21,14 @@ interface PolicyConfig {
   ownership_rules?: OwnershipRule[];
 }
 
+/** A policy breach located in a patched file; `line` is in the new version of the file. */
+export interface PolicyViolation {
+  path: string;
+  line: number;
+  rule: 'restricted_path' | 'file_extension' | 'forbidden_pattern';
+  message: string;
+}
+
 export class PolicyEngine {
   private policyConfig: PolicyConfig | null = null;
   
@@ -25,6 +36,14 @@ export class PolicyEngine {
     this.loadPolicyConfig();
   }
   
+  // Builds an engine from an already-parsed `.aiagent-ownership.yml` (e.g. fetched via the GitHub API),
+  // skipping the constructor so the worker's own working directory is never read
+  static fromConfig(config: PolicyConfig | null | undefined): PolicyEngine {
+    const engine = Object.create(PolicyEngine.prototype) as PolicyEngine;
+    engine.policyConfig = config || {};
+    return engine;
+  }
+  
   private loadPolicyConfig(): void {
     try {
       const ownershipPath = this.workspacePath ? 
@@ -126,6 +145,42 @@ export class PolicyEngine {
     return { allowed, reasons };
   }
   
+  /** The checks of `validatePatch`, per file and added line, for check run annotations. */
+  findViolations(parsed: ParsedDiff): PolicyViolation[] {
+    const config = this.policyConfig;
+    if (!config) return [];
+    const violations: PolicyViolation[] = [];
+    for (const file of parsed.files) {
+      const path = file.newPath ?? file.oldPath;
+      if (!path || file.isDeleted) continue;
+      for (const pattern of config.restricted_paths ?? []) {
+        if (this.matchesPattern(path, pattern)) {
+          violations.push({ path, line: 1, rule: 'restricted_path', message: `Matches restricted path pattern ${pattern}` });
+        }
+      }
+      const ext = '.' + path.split('.').pop();
+      if (config.allowed_file_extensions && !config.allowed_file_extensions.includes(ext)) {
+        violations.push({ path, line: 1, rule: 'file_extension', message: `File extension ${ext} is not in the allowed list` });
+      }
+      const patterns = (config.forbidden_patterns ?? []).map(p => p.toLowerCase());
+      if (!patterns.length) continue;
+      for (const hunk of file.hunks) {
+        let line = hunk.newStart;
+        for (const text of hunk.lines) {
+          if (text.startsWith('-') || text.startsWith('\\')) continue;
+          if (text.startsWith('+')) {
+            const lower = text.toLowerCase();
+            for (const pattern of patterns.filter(p => lower.includes(p))) {
+              violations.push({ path, line, rule: 'forbidden_pattern', message: `Added line contains forbidden pattern "${pattern}"` });
+            }
+          }
+          line++;
+        }
+      }
+    }
+    return violations;
+  }
+
   async checkOwnership(path: string, operation: 'read' | 'write' | 'create' | 'delete'): Promise<boolean> {
     if (!this.policyConfig?.ownership_rules) {
       return true; // No ownership rules defined
@@ -152,6 +207,19 @@ export class PolicyEngine {
     return true; // No specific rules found, allow by default
   }
   
+  /**
+   * Owners declared in the policy: global `owners` plus the owners of every rule
+   * matching one of `paths` (or of all rules when no paths are given).
+   */
+  getOwners(paths?: string[]): string[] {
+    const owners = new Set<string>(this.policyConfig?.owners || []);
+    for (const rule of this.policyConfig?.ownership_rules || []) {
+      const applies = !paths || paths.some(p => rule.paths.some(rulePath => this.matchesPattern(p, rulePath)));
+      if (applies) (rule.owners || []).forEach(owner => owners.add(owner));
+    }
+    return [...owners];
+  }
+  
   async enforceRestrictions(changes: any[]): Promise<{ blocked: string[]; allowed: string[] }> {
     const blocked: string[] = [];
     const allowed: string[] = [];
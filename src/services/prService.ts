@@ -1,7 +1,11 @@
 import { Octokit } from 'octokit';
+import pino from 'pino';
 import { getInstallationOctokit } from "../octokit.js";
 import { prisma } from "../storage/prisma.js";
 import { cfg } from "../config.js";
+import { planSyncService } from "./planSyncService.js";
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
 
 export interface PRServiceOptions { token: string; owner: string; repo: string; }
 
@@ -19,7 +23,12 @@ export class PRService {
     this.octo = new Octokit({ auth: opts.token });
     this.owner = opts.owner; this.repo = opts.repo;
   }
-  async ensureBranch(branch: string, from = 'main') {
+  async defaultBranch(): Promise<string> {
+    const { data } = await this.octo.request('GET /repos/{owner}/{repo}', { owner: this.owner, repo: this.repo });
+    return data.default_branch || cfg.git.defaultBase;
+  }
+  async ensureBranch(branch: string, from?: string) {
+    from ??= await this.defaultBranch();
     const base = await this.octo.request('GET /repos/{owner}/{repo}/git/ref/{ref}', { owner: this.owner, repo: this.repo, ref: `heads/${from}` });
     try {
       await this.octo.request('GET /repos/{owner}/{repo}/git/ref/{ref}', { owner: this.owner, repo: this.repo, ref: `heads/${branch}` });
@@ -27,17 +36,23 @@ export class PRService {
       await this.octo.request('POST /repos/{owner}/{repo}/git/refs', { owner: this.owner, repo: this.repo, ref: `refs/heads/${branch}`, sha: base.data.object.sha });
     }
   }
-  async createOrUpdatePR(params: { branch: string; title: string; body?: string }) {
+  async createOrUpdatePR(params: { branch: string; title: string; body?: string; base?: string }) {
     const prs = await this.octo.request('GET /repos/{owner}/{repo}/pulls', { owner: this.owner, repo: this.repo, head: `${this.owner}:${params.branch}`, state: 'open' });
-    if (prs.data.length) return prs.data[0];
-    const pr = await this.octo.request('POST /repos/{owner}/{repo}/pulls', { owner: this.owner, repo: this.repo, title: params.title, head: params.branch, base: 'main', body: params.body });
+    const open = prs.data[0];
+    if (open) {
+      if (params.body === undefined || params.body === open.body) return open;
+      const updated = await this.octo.request('PATCH /repos/{owner}/{repo}/pulls/{pull_number}', { owner: this.owner, repo: this.repo, pull_number: open.number, body: params.body });
+      return updated.data;
+    }
+    const base = params.base ?? await this.defaultBranch();
+    const pr = await this.octo.request('POST /repos/{owner}/{repo}/pulls', { owner: this.owner, repo: this.repo, title: params.title, head: params.branch, base, body: params.body });
     return pr.data;
   }
 }
 
 // Missing function required by adaptiveLoop.ts
 export async function ensurePullRequest(options: PROptions): Promise<number> {
-  const agent = await prisma.issueAgent.findUnique({ where: { id: options.agentId } });
+  const agent = await prisma.issueAgent.findUnique({ where: { id: options.agentId }, include: { tasks: true, iterationsLog: true } });
   if (!agent) throw new Error('Agent not found');
   
   if (agent.prNumber) {
@@ -47,13 +62,14 @@ export async function ensurePullRequest(options: PROptions): Promise<number> {
   const octo = await getInstallationOctokit(options.installationId.toString());
   
   try {
+    const { data: repo } = await octo.rest.repos.get({ owner: options.owner, repo: options.repo });
     const { data: pr } = await octo.rest.pulls.create({
       owner: options.owner,
       repo: options.repo,
       title: `${cfg.git.pullRequestTitlePrefix} ${agent.issueTitle}`,
       head: agent.branchName,
-      base: cfg.git.defaultBase,
-      body: `Automated implementation of issue #${agent.issueNumber}\n\n- [ ] Implementation in progress\n- [ ] Tests added\n- [ ] Documentation updated`,
+      base: repo.default_branch || cfg.git.defaultBase,
+      body: planSyncService.pullRequestBody(agent),
       draft: true
     });
 
@@ -69,4 +85,56 @@ export async function ensurePullRequest(options: PROptions): Promise<number> {
   }
 }
 
-export default { PRService, ensurePullRequest };
\ No newline at end of file
+/**
+ * Regenerates the agent PR's description after an iteration, and once the agent reaches finalization
+ * converts the draft to ready for review and requests reviewers. Failures are logged, never thrown.
+ */
+export async function updatePullRequest(agentId: string): Promise<void> {
+  const agent = await prisma.issueAgent.findUnique({ where: { id: agentId }, include: { tasks: true, iterationsLog: true } });
+  if (!agent?.prNumber) return;
+  const repo = { owner: agent.owner, repo: agent.repo };
+  try {
+    const octo = await getInstallationOctokit(agent.installationId.toString());
+    const { data: pr } = await octo.rest.pulls.get({ ...repo, pull_number: agent.prNumber });
+    if (pr.state !== 'open') return;
+    const body = planSyncService.pullRequestBody(agent);
+    if (pr.body !== body) {
+      await octo.rest.pulls.update({ ...repo, pull_number: pr.number, body });
+    }
+    if (!pr.draft || !(agent.completed || agent.phase === 'finalizing')) return;
+
+    // REST cannot undraft a pull request
+    await octo.graphql(
+      'mutation($id: ID!) { markPullRequestReadyForReview(input: { pullRequestId: $id }) { pullRequest { isDraft } } }',
+      { id: pr.node_id }
+    );
+    const reviewers = await reviewersFor(agent.id);
+    if (reviewers.length) {
+      await octo.rest.pulls.requestReviewers({
+        ...repo,
+        pull_number: pr.number,
+        reviewers: reviewers.filter(r => !r.includes('/')),
+        team_reviewers: reviewers.filter(r => r.includes('/')).map(r => r.split('/')[1]!)
+      });
+    }
+    log.info({ agentId, prNumber: pr.number, reviewers }, 'Marked agent PR ready for review');
+  } catch (error) {
+    log.warn({ agentId, prNumber: agent.prNumber, error: String(error) }, 'Could not update the agent PR');
+  }
+}
+
+// Configured reviewers, else whoever had to approve the plan
+async function reviewersFor(agentId: string): Promise<string[]> {
+  let reviewers = cfg.git.reviewers;
+  if (!reviewers.length) {
+    const review = await prisma.stakeholderReview.findFirst({ where: { agentId }, orderBy: { planVersion: 'desc' } });
+    try {
+      reviewers = review ? JSON.parse(review.requiredApprovers) : [];
+    } catch {
+      reviewers = [];
+    }
+  }
+  return [...new Set(reviewers.map(r => String(r).replace(/^@/, '')).filter(Boolean))];
+}
+
+export default { PRService, ensurePullRequest, updatePullRequest };
\ No newline at end of file
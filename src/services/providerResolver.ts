@@ -1,10 +1,84 @@
-import { buildProvider } from "../providers/providerFactory.js";
+import { buildProvider, ProviderConfig } from "../providers/providerFactory.js";
+import { ReplayProvider, ReplayMode } from "../providers/replayProvider.js";
+import { RoutingProvider, PhaseChains } from "../providers/routingProvider.js";
+import { Provider, ProviderPhase } from "../types.js";
 import { cfg } from "../config.js";
 import { getInstallationConfig } from "./configService.js";
+import { usageService } from "./usageService.js";
 
-export async function resolveProvider(installationId: number) {
+const PHASES: ProviderPhase[] = ['plan', 'patch', 'evaluate', 'explode', 'refine', 'verify'];
+
+/** A model name, or a provider/model/endpoint override; missing fields inherit from the installation. */
+export type RouteTarget = string | { provider?: string; model?: string; endpoint?: string };
+
+/**
+ * Stored under `InstallationConfig.adaptiveness.routing`, e.g.
+ *   { phases: { evaluate: 'gpt-4o-mini', patch: 'gpt-4o' }, fallback: [{ provider: 'ollama', model: 'qwen2.5-coder' }] }
+ */
+export interface RoutingConfig {
+  phases?: Partial<Record<ProviderPhase, RouteTarget>>;
+  fallback?: RouteTarget | RouteTarget[];
+}
+
+// API keys never live in the database (only `apiKeyHash`), so each provider reads its key from the environment
+function apiKeyFor(provider: string): string | undefined {
+  switch (provider) {
+    case 'openai': return cfg.openaiKey;
+    case 'anthropic': return cfg.anthropicKey;
+    case 'openai-compatible':
+    case 'custom':
+    case 'chat-completions': return cfg.customKey;
+    default: return undefined;
+  }
+}
+
+function defaultProvider(): string {
+  if (cfg.openaiKey) return 'openai';
+  if (cfg.customEndpoint) return 'openai-compatible';
+  return 'mock';
+}
+
+function providerConfig(provider: string, model: string, endpoint?: string | null): ProviderConfig {
+  const usesCustomEndpoint = ['openai-compatible', 'custom', 'chat-completions'].includes(provider);
+  return {
+    provider,
+    model,
+    endpoint: endpoint || (usesCustomEndpoint ? cfg.customEndpoint : undefined),
+    apiKeyPlain: apiKeyFor(provider),
+    ghModelsToken: undefined
+  };
+}
+
+function targetConfig(target: RouteTarget, base: ProviderConfig): ProviderConfig {
+  const t = typeof target === 'string' ? { model: target } : target;
+  // A different provider must not inherit the base endpoint, which belongs to another server
+  const sameProvider = !t.provider || t.provider === base.provider;
+  return providerConfig(t.provider || base.provider, t.model || base.model, t.endpoint || (sameProvider ? base.endpoint : undefined));
+}
+
+export function buildRoutedProvider(base: ProviderConfig, routing?: RoutingConfig): Provider {
+  const primary = buildProvider(base);
+  if (!routing || (!routing.phases && !routing.fallback)) return primary;
+
+  const fallbackTargets = routing.fallback ? ([] as RouteTarget[]).concat(routing.fallback) : [];
+  const fallbacks = fallbackTargets.map(t => buildProvider(targetConfig(t, base)));
+  const chains: PhaseChains = { default: [primary, ...fallbacks] };
+  for (const phase of PHASES) {
+    const target = routing.phases?.[phase];
+    if (target) chains[phase] = [buildProvider(targetConfig(target, base)), ...fallbacks];
+  }
+  return new RoutingProvider(chains);
+}
+
+// Token usage of every call is recorded against the installation and, when given, the agent
+export async function resolveProvider(installationId: number, agentId?: string): Promise<Provider> {
   const ic = await getInstallationConfig(installationId);
-  const provider = ic?.provider || (cfg.openaiKey ? 'openai' : 'mock');
-  const config = { provider, model: ic?.model || cfg.defaultModel, endpoint: ic?.endpoint || undefined, apiKeyPlain: (provider==='openai') ? cfg.openaiKey : undefined, ghModelsToken: undefined };
-  return buildProvider(config);
+  const base = providerConfig(ic?.provider || defaultProvider(), ic?.model || cfg.defaultModel, ic?.endpoint);
+  const routing = (ic?.adaptiveness as any)?.routing as RoutingConfig | undefined;
+  const built = buildRoutedProvider(base, routing);
+  const provider = cfg.llm.replayMode === 'off'
+    ? built
+    : new ReplayProvider({ mode: cfg.llm.replayMode as ReplayMode, fixtures: cfg.llm.fixtures, inner: built });
+  provider.setUsageListener?.(usage => { void usageService.record({ installationId, agentId }, usage); });
+  return provider;
 }
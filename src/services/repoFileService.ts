@@ -115,6 +115,37 @@ export class RepoFileService {
     }
   }
 
+  /** Resolves a branch to its head commit and lists every blob in its tree (no contents). */
+  async getTree(
+    installationId: string,
+    owner: string,
+    repo: string,
+    branch: string = 'main'
+  ): Promise<{ commitSha: string; blobs: TreeNode[] }> {
+    const octokit = await getInstallationOctokit(installationId);
+    const { data: refData } = await octokit.rest.git.getRef({ owner, repo, ref: `heads/${branch}` });
+    const { data: treeData } = await octokit.rest.git.getTree({
+      owner,
+      repo,
+      tree_sha: refData.object.sha,
+      recursive: 'true'
+    });
+    if (treeData.truncated) log.warn(`Tree for ${owner}/${repo}@${branch} is truncated by the API`);
+    return {
+      commitSha: refData.object.sha,
+      blobs: treeData.tree
+        .filter(item => item.type === 'blob' && item.path && item.sha)
+        .map(item => ({ path: item.path!, type: 'blob' as const, size: item.size, sha: item.sha! }))
+    };
+  }
+
+  /** Fetches one blob by SHA, so contents always match the SHA they are indexed under. */
+  async getBlobContent(installationId: string, owner: string, repo: string, sha: string): Promise<string> {
+    const octokit = await getInstallationOctokit(installationId);
+    const { data } = await octokit.rest.git.getBlob({ owner, repo, file_sha: sha });
+    return Buffer.from(data.content, data.encoding === 'base64' ? 'base64' : 'utf-8').toString('utf-8');
+  }
+
   async getSpecificFiles(
     installationId: string,
     owner: string,
@@ -0,0 +1,150 @@
+// Reverts agent iterations on the agent branch and rewinds task/agent progress to match
+import pino from 'pino';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../storage/prisma.js';
+import { WorkspaceManager } from '../git/workspaceManager.js';
+import { openAgentWorkspace } from '../git/agentWorkspace.js';
+import { runGit } from '../util/commandRunner.js';
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+export interface RolledBackIteration {
+  iterationId: string;
+  number: number;
+  commitSha: string;
+  revertSha: string;
+  tasks: string[];
+}
+
+export interface RollbackSummary {
+  ok: boolean;
+  reverted: RolledBackIteration[];
+  tasksReset: string[];
+  doneTasks: number;
+  confidence: number;
+  error?: string;
+}
+
+interface RollbackAgent {
+  id: string;
+  installationId: bigint;
+  owner: string;
+  repo: string;
+  branchName: string;
+  doneTasks: number;
+  confidence: number;
+}
+
+type WorkspaceOpener = (agent: RollbackAgent) => Promise<WorkspaceManager>;
+
+export class RollbackService {
+  constructor(private openWorkspace: WorkspaceOpener = openAgentWorkspace) {}
+
+  /**
+   * Reverts the newest committed iterations. `target` is a count (default 1), an iteration id or a
+   * commit sha; for the latter two every later iteration is reverted as well, since it builds on it.
+   */
+  async rollback(agentId: string, target?: string): Promise<RollbackSummary> {
+    const agent = await prisma.issueAgent.findUnique({ where: { id: agentId } });
+    if (!agent) return this.failure(0, 0, 'Agent not found');
+
+    // Every pushed iteration, including those whose tasks then failed acceptance: later iterations build on them too
+    const candidates = await prisma.iteration.findMany({
+      where: { issueAgentId: agentId, commitSha: { not: null }, revertedAt: null },
+      orderBy: { number: 'desc' }
+    });
+
+    const selection = this.selectIterations(candidates, target);
+    if (typeof selection === 'string') return this.failure(agent.doneTasks, agent.confidence, selection);
+
+    const ws = await this.openWorkspace(agent);
+    const reverted: RolledBackIteration[] = [];
+    try {
+      for (const iteration of selection) {
+        const revertSha = await this.revertCommit(ws, iteration.commitSha!, iteration.number);
+        if (!revertSha) {
+          return this.failure(agent.doneTasks, agent.confidence, `Could not revert iteration ${iteration.number} (${iteration.commitSha!.slice(0, 7)}); later changes conflict with it`);
+        }
+        reverted.push({ iterationId: iteration.id, number: iteration.number, commitSha: iteration.commitSha!, revertSha, tasks: iteration.executedTasks });
+      }
+
+      const pushed = await ws.push(ws, agent.branchName);
+      if (!pushed.ok) {
+        return this.failure(agent.doneTasks, agent.confidence, `Push failed: ${pushed.timedOut ? 'timeout' : pushed.stderr.trim()}`);
+      }
+    } finally {
+      await ws.release();
+    }
+
+    return this.rewindProgress(agent, selection, reverted);
+  }
+
+  private selectIterations<T extends { id: string; commitSha: string | null }>(candidates: T[], target?: string): T[] | string {
+    if (!candidates.length) return 'No committed iterations to roll back';
+
+    const spec = target?.trim();
+    if (!spec || /^\d{1,4}$/.test(spec)) {
+      const count = spec ? parseInt(spec, 10) : 1;
+      if (count < 1) return 'Rollback count must be at least 1';
+      return candidates.slice(0, count);
+    }
+
+    const index = candidates.findIndex(it =>
+      it.id === spec || (/^[0-9a-f]{7,40}$/i.test(spec) && it.commitSha!.toLowerCase().startsWith(spec.toLowerCase()))
+    );
+    if (index < 0) return `No revertible iteration matches "${spec}"`;
+    return candidates.slice(0, index + 1);
+  }
+
+  private async revertCommit(ws: WorkspaceManager, sha: string, iterationNumber: number): Promise<string | null> {
+    const revert = await runGit(['revert', '--no-commit', sha], { cwd: ws.root });
+    if (!revert.ok) {
+      log.warn(`git revert ${sha} failed: ${revert.stderr.trim()}`);
+      await runGit(['revert', '--abort'], { cwd: ws.root });
+      return null;
+    }
+    const commit = await ws.commit(ws, `agent: rollback iteration ${iterationNumber} (${sha.slice(0, 7)})`);
+    if (!commit.ok) log.warn(`Committing the revert of ${sha} failed: ${commit.error}`);
+    return commit.sha ?? null;
+  }
+
+  private async rewindProgress(
+    agent: RollbackAgent,
+    selection: Array<{ id: string; executedTasks: string[]; deltaConfidence: number }>,
+    reverted: RolledBackIteration[]
+  ): Promise<RollbackSummary> {
+    const externalIds = [...new Set(selection.flatMap(it => it.executedTasks))];
+    const doneTasks = await prisma.task.findMany({
+      where: { issueAgentId: agent.id, externalId: { in: externalIds }, status: 'verified' }
+    });
+    await prisma.task.updateMany({
+      where: { issueAgentId: agent.id, externalId: { in: externalIds } },
+      data: { status: 'pending', attempts: 0, verification: Prisma.DbNull }
+    });
+
+    const delta = selection.reduce((sum, it) => sum + it.deltaConfidence, 0);
+    const confidence = Math.min(1, Math.max(0, agent.confidence - delta));
+    const remainingDone = Math.max(0, agent.doneTasks - doneTasks.length);
+    await prisma.issueAgent.update({
+      where: { id: agent.id },
+      data: { doneTasks: remainingDone, confidence, completed: false }
+    });
+
+    const revertedAt = new Date();
+    for (const item of reverted) {
+      await prisma.iteration.update({
+        where: { id: item.iterationId },
+        data: { revertedAt, revertCommitSha: item.revertSha }
+      });
+    }
+
+    log.info(`Rolled back ${reverted.length} iteration(s) for agent ${agent.id}`);
+    return { ok: true, reverted, tasksReset: externalIds, doneTasks: remainingDone, confidence };
+  }
+
+  private failure(doneTasks: number, confidence: number, error: string): RollbackSummary {
+    return { ok: false, reverted: [], tasksReset: [], doneTasks, confidence, error };
+  }
+}
+
+export const rollbackService = new RollbackService();
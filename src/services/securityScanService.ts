@@ -406,7 +406,7 @@ export class SecurityScanService {
     
     for (const line of lines) {
       if (line.startsWith('+++') && !line.includes('/dev/null')) {
-        const file = line.substring(4).trim();
+        const file = line.substring(4).trim().replace(/^b\//, '');
         if (file && !files.includes(file)) {
           files.push(file);
         }
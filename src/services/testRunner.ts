@@ -0,0 +1,215 @@
+// Post-apply test runs: detects a repository's test command and checks a patched workspace before it is pushed
+import pino from 'pino';
+import { cfg } from '../config.js';
+import { CommandResult, RunOptions } from '../util/commandRunner.js';
+import { SandboxOptions } from '../util/sandboxRunner.js';
+import { CoverageSummary } from '../types.js';
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+export interface TestCommand {
+  framework: 'npm-script' | 'vitest' | 'jest' | 'pytest';
+  command: string[];
+  /** Dependency install run first when the checkout has no node_modules */
+  install?: string[];
+}
+
+export interface TestRunReport {
+  command: string;
+  /** Exit code 0 */
+  ok: boolean;
+  /** Green, or within cfg.testRun tolerance of the branch's pre-patch failures */
+  passed: boolean;
+  exitCode: number | null;
+  timedOut: boolean;
+  /** Failed test count parsed from the output, when the framework reports one */
+  failed?: number;
+  /** Failed test count of the same command without the patch */
+  baselineFailed?: number;
+  /** Failure output trimmed for feeding back to the model */
+  output: string;
+  durationMs: number;
+  /** Present when the test command prints a coverage summary */
+  coverage?: CoverageSummary;
+}
+
+/** The parts of a checked-out workspace the runner needs (see WorkspaceManager). */
+export interface TestWorkspace {
+  exists(relPath: string): Promise<boolean>;
+  readFile(relPath: string): Promise<string>;
+  /** Trusted tooling (git) */
+  run(command: string[], dir?: string, opts?: Omit<RunOptions, 'cwd'>): Promise<CommandResult>;
+  /** Repository code, sandboxed */
+  exec(command: string[], opts?: Omit<SandboxOptions, 'cwd' | 'transcript'>): Promise<CommandResult>;
+}
+
+const CONFIG_EXTENSIONS = ['ts', 'mts', 'cts', 'js', 'mjs', 'cjs'];
+
+async function firstExisting(ws: TestWorkspace, candidates: string[]): Promise<string | undefined> {
+  for (const candidate of candidates) {
+    if (await ws.exists(candidate)) return candidate;
+  }
+  return undefined;
+}
+
+async function readOptional(ws: TestWorkspace, relPath: string): Promise<string> {
+  return ws.readFile(relPath).catch(() => '');
+}
+
+async function nodeInstall(ws: TestWorkspace): Promise<string[] | undefined> {
+  if (await ws.exists('node_modules')) return undefined;
+  if (await ws.exists('pnpm-lock.yaml')) return ['pnpm', 'install', '--frozen-lockfile'];
+  if (await ws.exists('yarn.lock')) return ['yarn', 'install', '--frozen-lockfile'];
+  if (await ws.exists('package-lock.json')) return ['npm', 'ci', '--no-audit', '--no-fund'];
+  return ['npm', 'install', '--no-audit', '--no-fund'];
+}
+
+/** Picks the test command: package.json `test` script, then vitest/jest configs, then pytest markers. */
+export async function detectTestCommand(ws: TestWorkspace): Promise<TestCommand | null> {
+  if (await ws.exists('package.json')) {
+    let pkg: any = {};
+    try {
+      pkg = JSON.parse(await ws.readFile('package.json'));
+    } catch {
+      log.debug('Unparseable package.json; looking for test configs instead');
+    }
+    const install = await nodeInstall(ws);
+    const script = pkg.scripts?.test;
+    if (typeof script === 'string' && script.trim() && !/no test specified/.test(script)) {
+      const manager = await ws.exists('pnpm-lock.yaml') ? 'pnpm' : await ws.exists('yarn.lock') ? 'yarn' : 'npm';
+      return { framework: 'npm-script', command: [manager, 'test'], install };
+    }
+    if (await firstExisting(ws, CONFIG_EXTENSIONS.map(ext => `vitest.config.${ext}`))) {
+      return { framework: 'vitest', command: ['npx', 'vitest', 'run'], install };
+    }
+    if (await firstExisting(ws, CONFIG_EXTENSIONS.map(ext => `jest.config.${ext}`)) || pkg.jest) {
+      return { framework: 'jest', command: ['npx', 'jest', '--ci'], install };
+    }
+  }
+
+  const pytest = await ws.exists('pytest.ini') || await ws.exists('conftest.py')
+    || /\[tool\.pytest\.ini_options\]/.test(await readOptional(ws, 'pyproject.toml'))
+    || /\[tool:pytest\]/.test(await readOptional(ws, 'setup.cfg'));
+  if (pytest) return { framework: 'pytest', command: ['python', '-m', 'pytest', '-q'] };
+  return null;
+}
+
+/** Failed test count as reported by vitest/jest (`Tests: 2 failed`), pytest (`2 failed`) or mocha (`2 failing`). */
+export function countFailures(output: string): number | undefined {
+  const match = output.match(/\bTests:?\s+(\d+) failed/) ?? output.match(/\b(\d+) failed\b/) ?? output.match(/\b(\d+) failing\b/);
+  return match ? parseInt(match[1]!, 10) : undefined;
+}
+
+const percent = (value: string) => Math.round(parseFloat(value) * 100) / 10000;
+
+/**
+ * Coverage from an istanbul text table (`All files | 85.7 | 50 | 100 | 85.7 |`), an istanbul
+ * text-summary (`Lines : 85.7% ( 6/7 )`) or pytest-cov (`TOTAL  120  12  90%`, lines only).
+ */
+export function parseCoverage(output: string): CoverageSummary | undefined {
+  // eslint-disable-next-line no-control-regex
+  const text = output.replace(/\u001b\[[0-9;]*m/g, '');
+  const table = text.match(/^\s*All files\s*\|\s*([\d.]+)\s*\|\s*([\d.]+)\s*\|\s*([\d.]+)\s*\|\s*([\d.]+)/m);
+  if (table) {
+    return { statements: percent(table[1]!), branches: percent(table[2]!), functions: percent(table[3]!), lines: percent(table[4]!) };
+  }
+  const summary: CoverageSummary = {};
+  for (const [, name, value] of text.matchAll(/^\s*(Statements|Branches|Functions|Lines)\s*:\s*([\d.]+)%/gm)) {
+    summary[name!.toLowerCase() as keyof CoverageSummary] = percent(value!);
+  }
+  if (Object.keys(summary).length) return summary;
+  const pytest = text.match(/^TOTAL\s+\d+\s+\d+(?:\s+\d+\s+\d+)?\s+([\d.]+)%/m);
+  return pytest ? { lines: percent(pytest[1]!) } : undefined;
+}
+
+/** Drops ANSI colours and passing-test lines, then keeps the head and (mostly) the tail within `maxChars`. */
+export function trimFailureOutput(output: string, maxChars = cfg.testRun.feedbackChars): string {
+  const lines = output
+    // eslint-disable-next-line no-control-regex
+    .replace(/\u001b\[[0-9;]*m/g, '')
+    .split('\n')
+    .filter(line => !/^\s*(?:✓|√|PASS\b|ok \d+)/.test(line));
+  const text = lines.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+  if (text.length <= maxChars) return text;
+  const head = Math.floor(maxChars * 0.3);
+  const tail = maxChars - head;
+  return `${text.slice(0, head)}\n... [${text.length - maxChars} chars trimmed] ...\n${text.slice(-tail)}`;
+}
+
+/**
+ * Runs one workspace's tests, possibly several times across fix-up attempts. The command is
+ * detected and dependencies installed once; the pre-patch baseline is measured (by stashing the
+ * patch) only when a run fails and cfg.testRun.tolerateBaseline is set.
+ */
+export class TestRunner {
+  private detected?: Promise<TestCommand | null>;
+  private baseline?: Promise<number | undefined>;
+
+  constructor(private ws: TestWorkspace) {}
+
+  /** Null when the repository has no recognisable test command. */
+  async check(): Promise<TestRunReport | null> {
+    const test = await (this.detected ??= this.prepare());
+    if (!test) return null;
+
+    const result = await this.exec(test.command, cfg.testRun.timeoutMs);
+    const output = `${result.stdout}\n${result.stderr}`;
+    const failed = result.ok ? 0 : countFailures(output);
+    const report: TestRunReport = {
+      command: test.command.join(' '),
+      ok: result.ok,
+      passed: result.ok,
+      exitCode: result.exitCode,
+      timedOut: result.timedOut,
+      failed,
+      output: result.ok ? '' : trimFailureOutput(output),
+      durationMs: result.durationMs,
+      coverage: parseCoverage(output)
+    };
+    if (result.ok || failed === undefined || !cfg.testRun.tolerateBaseline) return report;
+
+    report.baselineFailed = await (this.baseline ??= this.measureBaseline(test));
+    report.passed = report.baselineFailed !== undefined && failed <= report.baselineFailed + cfg.testRun.maxNewFailures;
+    return report;
+  }
+
+  /** Discards the applied patch so the next fix-up attempt starts from the branch head. */
+  async reset(): Promise<void> {
+    await this.git(['reset', '--hard', '-q']);
+    await this.git(['clean', '-fdq']);
+  }
+
+  private async prepare(): Promise<TestCommand | null> {
+    const test = await detectTestCommand(this.ws);
+    if (!test) return null;
+    if (test.install) {
+      // Installs need the registry; the tests themselves run without network
+      const installed = await this.exec(test.install, cfg.testRun.installTimeoutMs, true);
+      if (!installed.ok) log.warn(`${test.install.join(' ')} failed (exit ${installed.exitCode}); running tests anyway`);
+    }
+    return test;
+  }
+
+  private async measureBaseline(test: TestCommand): Promise<number | undefined> {
+    const stashed = await this.ws.run(['git', 'stash', 'push', '--include-untracked', '-q']);
+    if (!stashed.ok) {
+      log.warn(`Could not stash the patch to measure baseline test failures: ${stashed.stderr.trim()}`);
+      return undefined;
+    }
+    try {
+      const result = await this.exec(test.command, cfg.testRun.timeoutMs);
+      return result.ok ? 0 : countFailures(`${result.stdout}\n${result.stderr}`);
+    } finally {
+      await this.git(['stash', 'pop', '-q']);
+    }
+  }
+
+  private exec(command: string[], timeoutMs: number, network?: boolean): Promise<CommandResult> {
+    return this.ws.exec(command, { timeoutMs, network, maxOutputBytes: 2 * 1024 * 1024 });
+  }
+
+  private async git(args: string[]): Promise<void> {
+    const result = await this.ws.run(['git', ...args]);
+    if (!result.ok) throw new Error(`git ${args[0]} failed: ${result.stderr.trim()}`);
+  }
+}
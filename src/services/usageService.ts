@@ -0,0 +1,177 @@
+// LLM token/cost accounting and per-installation budgets
+import pino from 'pino';
+import { prisma } from '../storage/prisma.js';
+import { cfg } from '../config.js';
+import { ProviderUsage } from '../types.js';
+import { StructuredCommentService } from '../core/communicationService.js';
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+export interface UsageScope {
+  installationId: number | bigint;
+  agentId?: string;
+}
+
+export interface UsageTotals {
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface BudgetStatus {
+  exceeded: boolean;
+  period?: 'daily' | 'monthly';
+  spentUsd: number;
+  limitUsd?: number;
+}
+
+export function estimateCostUsd(model: string, promptTokens: number, completionTokens: number): number {
+  const name = model.toLowerCase();
+  const key = Object.keys(cfg.llm.pricing)
+    .filter(prefix => name.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return 0;
+  const price = cfg.llm.pricing[key]!;
+  return (promptTokens * price.input + completionTokens * price.output) / 1_000_000;
+}
+
+function startOfUtcDay(now: Date) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfUtcMonth(now: Date) {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export class UsageService {
+  private commentService = new StructuredCommentService();
+
+  async record(scope: UsageScope, usage: ProviderUsage): Promise<void> {
+    try {
+      await prisma.llmUsage.create({
+        data: {
+          installationId: BigInt(scope.installationId),
+          issueAgentId: scope.agentId ?? null,
+          phase: usage.phase,
+          provider: usage.provider,
+          model: usage.model,
+          promptTokens: usage.promptTokens,
+          completionTokens: usage.completionTokens,
+          costUsd: estimateCostUsd(usage.model, usage.promptTokens, usage.completionTokens),
+          estimated: !!usage.estimated
+        }
+      });
+    } catch (error) {
+      log.error(`Failed to record LLM usage: ${error}`);
+    }
+  }
+
+  /** Totals for one agent, overall and per phase. */
+  async getAgentUsage(agentId: string): Promise<UsageTotals & { byPhase: Record<string, UsageTotals> }> {
+    const rows = await prisma.llmUsage.groupBy({
+      by: ['phase'],
+      where: { issueAgentId: agentId },
+      _sum: { promptTokens: true, completionTokens: true, costUsd: true }
+    });
+    const byPhase: Record<string, UsageTotals> = {};
+    const total: UsageTotals = { promptTokens: 0, completionTokens: 0, costUsd: 0 };
+    for (const row of rows) {
+      const t = { promptTokens: row._sum.promptTokens ?? 0, completionTokens: row._sum.completionTokens ?? 0, costUsd: row._sum.costUsd ?? 0 };
+      byPhase[row.phase] = t;
+      total.promptTokens += t.promptTokens;
+      total.completionTokens += t.completionTokens;
+      total.costUsd += t.costUsd;
+    }
+    return { ...total, byPhase };
+  }
+
+  /** Per-issue cost breakdown for a repository, most expensive first. */
+  async getRepositoryCosts(owner: string, repo: string): Promise<Array<UsageTotals & { agentId: string; issueNumber: number; issueTitle: string }>> {
+    const agents = await prisma.issueAgent.findMany({
+      where: { owner, repo },
+      select: { id: true, issueNumber: true, issueTitle: true }
+    });
+    if (!agents.length) return [];
+    const rows = await prisma.llmUsage.groupBy({
+      by: ['issueAgentId'],
+      where: { issueAgentId: { in: agents.map(a => a.id) } },
+      _sum: { promptTokens: true, completionTokens: true, costUsd: true }
+    });
+    const byAgent = new Map(rows.map(r => [r.issueAgentId, r._sum]));
+    return agents
+      .map(a => {
+        const sum = byAgent.get(a.id);
+        return {
+          agentId: a.id,
+          issueNumber: a.issueNumber,
+          issueTitle: a.issueTitle,
+          promptTokens: sum?.promptTokens ?? 0,
+          completionTokens: sum?.completionTokens ?? 0,
+          costUsd: sum?.costUsd ?? 0
+        };
+      })
+      .sort((a, b) => b.costUsd - a.costUsd);
+  }
+
+  async getInstallationSpend(installationId: number | bigint, since: Date): Promise<number> {
+    const agg = await prisma.llmUsage.aggregate({
+      where: { installationId: BigInt(installationId), createdAt: { gte: since } },
+      _sum: { costUsd: true }
+    });
+    return agg._sum.costUsd ?? 0;
+  }
+
+  async checkBudget(installationId: number | bigint, now = new Date()): Promise<BudgetStatus> {
+    const ic = await prisma.installationConfig.findUnique({ where: { installationId: BigInt(installationId) } });
+    const limits: Array<['daily' | 'monthly', number | null | undefined, Date]> = [
+      ['daily', ic?.dailyBudgetUsd, startOfUtcDay(now)],
+      ['monthly', ic?.monthlyBudgetUsd, startOfUtcMonth(now)]
+    ];
+    let spentUsd = 0;
+    for (const [period, limitUsd, since] of limits) {
+      if (limitUsd == null) continue;
+      spentUsd = await this.getInstallationSpend(installationId, since);
+      if (spentUsd >= limitUsd) return { exceeded: true, period, spentUsd, limitUsd };
+    }
+    return { exceeded: false, spentUsd };
+  }
+
+  /**
+   * Pauses the agent with phase `budget_exceeded` when its installation is over budget and posts
+   * one comment on the issue. Returns true when the caller must not spend more tokens.
+   */
+  async enforceBudget(agent: { id: string; installationId: bigint; owner: string; repo: string; issueNumber: number; phase: string }): Promise<boolean> {
+    const status = await this.checkBudget(agent.installationId);
+    if (!status.exceeded) return false;
+    if (agent.phase === 'budget_exceeded') return true;
+
+    await prisma.issueAgent.update({
+      where: { id: agent.id },
+      data: { phase: 'budget_exceeded', blocked: true }
+    });
+    log.warn(`Agent ${agent.id} paused: ${status.period} LLM budget exceeded ($${status.spentUsd.toFixed(2)} / $${status.limitUsd!.toFixed(2)})`);
+
+    await this.commentService.postStructuredComment(
+      agent.installationId.toString(),
+      agent.owner,
+      agent.repo,
+      agent.issueNumber,
+      {
+        type: 'error',
+        agentId: agent.id,
+        data: {
+          type: 'BUDGET_EXCEEDED',
+          message: `The ${status.period} LLM budget for this installation is exhausted ($${status.spentUsd.toFixed(2)} spent of $${status.limitUsd!.toFixed(2)}). The agent is paused.`,
+          details: `Period: ${status.period}\nSpent: $${status.spentUsd.toFixed(4)}\nLimit: $${status.limitUsd!.toFixed(2)}`,
+          recoveryActions: [
+            'Raise dailyBudgetUsd / monthlyBudgetUsd in the installation config',
+            'Resume with @ai-bot resume once the budget resets'
+          ]
+        }
+      }
+    );
+    return true;
+  }
+}
+
+export const usageService = new UsageService();
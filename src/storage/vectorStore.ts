@@ -0,0 +1,256 @@
+// Persistent vector search over FileEmbedding, IssueEmbedding and EmbeddingDocument rows
+import pino from 'pino';
+import { Prisma } from '@prisma/client';
+import { prisma } from './prisma.js';
+import { cfg } from '../config.js';
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+export type VectorCollection = 'file' | 'issue' | 'document';
+export type VectorBackend = 'pgvector' | 'bruteforce';
+
+export interface VectorFilter {
+  /** Vectors are only ever compared within one embedding model (see EmbeddingService.modelTag) */
+  model: string;
+  installationId?: number | bigint;
+  owner?: string;
+  repo?: string;
+  /** EmbeddingDocument.type */
+  type?: string;
+  /** IssueEmbedding.scope or EmbeddingDocument.scope */
+  scope?: string;
+  issueAgentId?: string;
+  paths?: string[];
+  /** Subset match against EmbeddingDocument.metadata */
+  metadata?: Record<string, unknown>;
+}
+
+export interface VectorQuery {
+  filter: VectorFilter;
+  limit?: number;
+  minScore?: number;
+}
+
+export interface VectorMatch {
+  id: string;
+  /** Cosine similarity */
+  score: number;
+  /** The row's non-vector columns (document metadata is parsed) */
+  row: Record<string, any>;
+}
+
+export interface VectorStore {
+  readonly backend: VectorBackend;
+  query(collection: VectorCollection, vector: number[], query: VectorQuery): Promise<VectorMatch[]>;
+  /** Copies a row's vector into the ANN column after the row itself was written; a no-op without pgvector. */
+  index(collection: VectorCollection, id: string, vector: number[]): Promise<void>;
+}
+
+const TABLES: Record<VectorCollection, string> = {
+  file: 'FileEmbedding',
+  issue: 'IssueEmbedding',
+  document: 'EmbeddingDocument'
+};
+
+const COLUMNS: Record<VectorCollection, string[]> = {
+  file: ['id', 'path', 'chunk', 'symbol', 'startLine', 'endLine'],
+  issue: ['id', 'issueAgentId', 'scope', 'referenceId'],
+  document: ['id', 'content', 'metadata', 'type', 'scope']
+};
+
+// Dimensions with a partial HNSW index (see the pgvector migration); others fall back to exact scans
+const INDEXED_DIMS = [384, 1536];
+
+// Which filter keys each table can answer
+const FILTERABLE: Record<VectorCollection, Array<keyof VectorFilter>> = {
+  file: ['installationId', 'owner', 'repo', 'paths'],
+  issue: ['issueAgentId', 'scope'],
+  document: ['owner', 'repo', 'type', 'scope', 'metadata']
+};
+
+function unsupportedFilters(collection: VectorCollection, filter: VectorFilter): string[] {
+  return (Object.keys(filter) as Array<keyof VectorFilter>)
+    .filter(k => k !== 'model' && filter[k] !== undefined && !FILTERABLE[collection].includes(k));
+}
+
+// EmbeddingDocument keeps metadata and embedding as JSON text
+function parseJson(raw: unknown): any {
+  if (typeof raw !== 'string') return raw ?? {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return {};
+  }
+}
+
+function matchesMetadata(metadata: Record<string, any>, expected?: Record<string, unknown>): boolean {
+  return !expected || Object.entries(expected).every(([k, v]) => JSON.stringify(metadata[k]) === JSON.stringify(v));
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || !a.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i]! * b[i]!;
+    normA += a[i]! * a[i]!;
+    normB += b[i]! * b[i]!;
+  }
+  return normA && normB ? dot / (Math.sqrt(normA) * Math.sqrt(normB)) : 0;
+}
+
+/** Exact search in process; used where pgvector is unavailable (SQLite, tests, plain Postgres). */
+export class BruteForceVectorStore implements VectorStore {
+  readonly backend = 'bruteforce' as const;
+
+  async query(collection: VectorCollection, vector: number[], { filter, limit = 10, minScore = -1 }: VectorQuery): Promise<VectorMatch[]> {
+    const unsupported = unsupportedFilters(collection, filter);
+    if (unsupported.length) throw new Error(`Unsupported ${collection} filters: ${unsupported.join(', ')}`);
+
+    const rows = await this.load(collection, filter);
+    const matches: VectorMatch[] = [];
+    for (const row of rows) {
+      const raw = collection === 'document' ? parseJson(row.embedding) : row.vector;
+      // Empty vectors mark files indexed without content (binary or empty files)
+      if (!Array.isArray(raw) || !raw.length) continue;
+      const { vector: _v, embedding: _e, ...rest } = row;
+      const columns = collection === 'document' ? { ...rest, metadata: parseJson(rest.metadata) } : rest;
+      if (collection === 'document' && !matchesMetadata(columns.metadata, filter.metadata)) continue;
+      const score = cosineSimilarity(vector, raw as number[]);
+      if (score >= minScore) matches.push({ id: row.id, score, row: columns });
+    }
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  async index(): Promise<void> {}
+
+  private load(collection: VectorCollection, f: VectorFilter): Promise<any[]> {
+    switch (collection) {
+      case 'file':
+        return prisma.fileEmbedding.findMany({
+          where: {
+            model: f.model,
+            ...(f.installationId !== undefined ? { installationId: BigInt(f.installationId) } : {}),
+            ...(f.owner ? { owner: f.owner } : {}),
+            ...(f.repo ? { repo: f.repo } : {}),
+            ...(f.paths ? { path: { in: f.paths } } : {})
+          }
+        });
+      case 'issue':
+        return prisma.issueEmbedding.findMany({
+          where: { model: f.model, ...(f.issueAgentId ? { issueAgentId: f.issueAgentId } : {}), ...(f.scope ? { scope: f.scope } : {}) }
+        });
+      case 'document':
+        return prisma.embeddingDocument.findMany({
+          where: {
+            model: f.model,
+            ...(f.owner ? { owner: f.owner } : {}),
+            ...(f.repo ? { repo: f.repo } : {}),
+            ...(f.type ? { type: f.type } : {}),
+            ...(f.scope ? { scope: f.scope } : {})
+          }
+        });
+    }
+  }
+}
+
+/**
+ * Approximate nearest-neighbour search with pgvector. Filters are applied in SQL; with HNSW
+ * they are post-filters, so very selective filters can return fewer than `limit` rows.
+ */
+export class PgVectorStore implements VectorStore {
+  readonly backend = 'pgvector' as const;
+
+  async query(collection: VectorCollection, vector: number[], { filter, limit = 10, minScore = -1 }: VectorQuery): Promise<VectorMatch[]> {
+    const unsupported = unsupportedFilters(collection, filter);
+    if (unsupported.length) throw new Error(`Unsupported ${collection} filters: ${unsupported.join(', ')}`);
+
+    const dims = vector.length;
+    const literal = `[${vector.join(',')}]`;
+    // Cast to the indexed type so the planner can use the partial HNSW index for this dimension
+    const column = Prisma.raw(INDEXED_DIMS.includes(dims) ? `"vec"::vector(${dims})` : '"vec"');
+    const where: Prisma.Sql[] = [
+      Prisma.sql`"model" = ${filter.model}`,
+      Prisma.sql`"dims" = ${dims}`,
+      Prisma.sql`"vec" IS NOT NULL`
+    ];
+    if (filter.installationId !== undefined) where.push(Prisma.sql`"installationId" = ${BigInt(filter.installationId)}`);
+    if (filter.owner) where.push(Prisma.sql`"owner" = ${filter.owner}`);
+    if (filter.repo) where.push(Prisma.sql`"repo" = ${filter.repo}`);
+    if (filter.type) where.push(Prisma.sql`"type" = ${filter.type}`);
+    if (filter.scope) where.push(Prisma.sql`"scope" = ${filter.scope}`);
+    if (filter.issueAgentId) where.push(Prisma.sql`"issueAgentId" = ${filter.issueAgentId}`);
+    if (filter.paths) where.push(Prisma.sql`"path" = ANY(${filter.paths})`);
+    if (filter.metadata) where.push(Prisma.sql`"metadata"::jsonb @> ${JSON.stringify(filter.metadata)}::jsonb`);
+
+    const columns = Prisma.raw(COLUMNS[collection].map(c => `"${c}"`).join(', '));
+    const rows = await prisma.$queryRaw<Array<Record<string, any>>>`
+      SELECT ${columns}, 1 - (${column} <=> ${literal}::vector) AS "score"
+      FROM ${Prisma.raw(`"${TABLES[collection]}"`)}
+      WHERE ${Prisma.join(where, ' AND ')}
+      ORDER BY ${column} <=> ${literal}::vector
+      LIMIT ${limit}`;
+
+    return rows
+      .map(({ score, ...row }) => ({
+        id: row.id as string,
+        score: Number(score),
+        row: collection === 'document' ? { ...row, metadata: parseJson(row.metadata) } : row
+      }))
+      .filter(m => m.score >= minScore);
+  }
+
+  async index(collection: VectorCollection, id: string, vector: number[]): Promise<void> {
+    await prisma.$executeRaw`
+      UPDATE ${Prisma.raw(`"${TABLES[collection]}"`)}
+      SET "vec" = ${`[${vector.join(',')}]`}::vector, "dims" = ${vector.length}
+      WHERE "id" = ${id}`;
+  }
+}
+
+/** Picks pgvector when configured (or, in `auto` mode, when the extension and its columns are installed), else brute force. */
+export class AutoVectorStore implements VectorStore {
+  private resolved?: Promise<VectorStore>;
+
+  constructor(private mode = cfg.vectorStore.backend) {}
+
+  get backend(): VectorBackend {
+    return this.mode === 'pgvector' ? 'pgvector' : 'bruteforce';
+  }
+
+  async query(collection: VectorCollection, vector: number[], query: VectorQuery): Promise<VectorMatch[]> {
+    return (await this.resolve()).query(collection, vector, query);
+  }
+
+  async index(collection: VectorCollection, id: string, vector: number[]): Promise<void> {
+    return (await this.resolve()).index(collection, id, vector);
+  }
+
+  resolve(): Promise<VectorStore> {
+    this.resolved ??= this.detect();
+    return this.resolved;
+  }
+
+  private async detect(): Promise<VectorStore> {
+    if (this.mode === 'pgvector') return new PgVectorStore();
+    if (this.mode === 'bruteforce') return new BruteForceVectorStore();
+    try {
+      // The migration only adds the "vec" columns where the extension could be installed
+      const rows = await prisma.$queryRaw<Array<{ extname: string }>>`
+        SELECT "extname" FROM pg_extension WHERE "extname" = 'vector'
+        AND EXISTS (SELECT 1 FROM information_schema.columns WHERE "table_name" = 'FileEmbedding' AND "column_name" = 'vec')`;
+      if (rows.length) {
+        this.mode = 'pgvector';
+        return new PgVectorStore();
+      }
+    } catch (error) {
+      log.debug(`pgvector detection failed: ${error}`);
+    }
+    log.info('pgvector not available; using brute-force vector search');
+    this.mode = 'bruteforce';
+    return new BruteForceVectorStore();
+  }
+}
+
+export const vectorStore: VectorStore = new AutoVectorStore();
@@ -1,6 +1,8 @@
 import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
 import pino from 'pino';
+import { cfg } from '../../config.js';
+import { CommandTranscript, sandboxRunner, SandboxBackend } from '../../util/sandboxRunner.js';
 
 const log = pino({ level: process.env.LOG_LEVEL || 'info' });
 
@@ -11,6 +13,11 @@ export interface BashSession {
   cwd: string;
   isActive: boolean;
   timeout?: any;
+  backend: SandboxBackend;
+  network: boolean;
+  transcript?: CommandTranscript;
+  /** Removes the session's throwaway sandbox HOME */
+  releaseSandbox(): Promise<void>;
 }
 
 export interface BashCommandOptions {
@@ -18,7 +25,15 @@ export interface BashCommandOptions {
   async?: boolean;
   timeout?: number;
   cwd?: string;
+  /** Added to the sandbox's scrubbed environment; the worker's own environment is never inherited */
   env?: Record<string, string>;
+  /** Network access for a new session (defaults to cfg.sandbox.network) */
+  network?: boolean;
+  /** Records synchronous commands of a new session */
+  transcript?: CommandTranscript;
+  /** Repository whose sandbox HOME and git directory a new session gets (see SandboxOptions) */
+  repoKey?: string;
+  gitDir?: string;
 }
 
 export interface BashCommandResult {
@@ -38,9 +53,8 @@ export class BashTool {
    */
   async runCommand(command: string, options: BashCommandOptions = {}): Promise<BashCommandResult> {
     const sessionId = options.sessionId || this.generateSessionId();
-    const session = this.getOrCreateSession(sessionId, options.cwd, options.env);
-
     try {
+      const session = await this.getOrCreateSession(sessionId, options);
       if (options.async) {
         return await this.runAsyncCommand(session, command, options.timeout);
       } else {
@@ -115,16 +129,23 @@ export class BashTool {
     });
   }
 
-  private getOrCreateSession(sessionId: string, cwd?: string, env?: Record<string, string>): BashSession {
+  private async getOrCreateSession(sessionId: string, options: BashCommandOptions): Promise<BashSession> {
     let session = this.sessions.get(sessionId);
     
     if (!session || !session.isActive) {
-      const workingDir = cwd || process.cwd();
-      const environment = { ...process.env, ...env };
+      const workingDir = options.cwd || process.cwd();
+      // Sessions run model-chosen commands, so they get the same sandbox as repository tests
+      const { argv, env, backend, release } = await sandboxRunner.wrap(['bash', '-i'], {
+        cwd: workingDir,
+        network: options.network,
+        env: options.env,
+        repoKey: options.repoKey,
+        gitDir: options.gitDir
+      });
       
-      const childProcess = spawn('bash', ['-i'], {
+      const childProcess = spawn(argv[0]!, argv.slice(1), {
         cwd: workingDir,
-        env: environment,
+        env,
         stdio: ['pipe', 'pipe', 'pipe']
       });
 
@@ -133,7 +154,11 @@ export class BashTool {
         process: childProcess,
         events: new EventEmitter(),
         cwd: workingDir,
-        isActive: true
+        isActive: true,
+        backend,
+        network: options.network ?? cfg.sandbox.network,
+        transcript: options.transcript,
+        releaseSandbox: release
       };
 
       this.setupProcessHandlers(session);
@@ -144,7 +169,8 @@ export class BashTool {
   }
 
   private async runSyncCommand(session: BashSession, command: string, timeout?: number): Promise<BashCommandResult> {
-    return new Promise((resolve) => {
+    const startedAt = new Date();
+    const result = await new Promise<BashCommandResult>((resolve) => {
       const timeoutMs = timeout ? timeout * 1000 : this.defaultTimeout;
       let output = '';
       let error = '';
@@ -188,6 +214,21 @@ export class BashTool {
       // Execute command
       session.process.stdin?.write(command + '\n');
     });
+
+    session.transcript?.record({
+      command: ['bash', '-c', command],
+      cwd: session.cwd,
+      backend: session.backend,
+      network: session.network,
+      startedAt: startedAt.toISOString(),
+      durationMs: Date.now() - startedAt.getTime(),
+      exitCode: result.exitCode ?? (result.success ? 0 : null),
+      signal: null,
+      timedOut: result.error === 'Command timed out',
+      stdout: result.output,
+      stderr: result.error ?? ''
+    });
+    return result;
   }
 
   private async runAsyncCommand(session: BashSession, command: string, timeout?: number): Promise<BashCommandResult> {
@@ -219,6 +260,7 @@ export class BashTool {
       if (session.timeout) {
         clearTimeout(session.timeout);
       }
+      session.releaseSandbox().catch(error => log.warn(`Could not remove the sandbox home of bash session ${session.id}: ${error}`));
     });
 
     session.process.on('error', (error) => {
@@ -1,8 +1,6 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import pino from 'pino';
+import { runGit, runGitChecked } from '../../util/commandRunner.js';
 
-const execAsync = promisify(exec);
 const log = pino({ level: process.env.LOG_LEVEL || 'info' });
 
 export interface ProgressReportOptions {
@@ -43,7 +41,7 @@ export class ReportProgressTool {
       }
 
       // Stage all changes
-      await execAsync('git add .', { cwd: workingDir });
+      await runGitChecked(['add', '-A'], { cwd: workingDir });
 
       // Commit changes
       const commitResult = await this.commitChanges(options.commitMessage, workingDir);
@@ -97,7 +95,7 @@ export class ReportProgressTool {
    */
   private async getGitStatus(workingDir: string): Promise<{ hasChanges: boolean; modifiedFiles: string[] }> {
     try {
-      const { stdout } = await execAsync('git status --porcelain', { cwd: workingDir });
+      const { stdout } = await runGitChecked(['status', '--porcelain'], { cwd: workingDir });
       const lines = stdout.trim().split('\n').filter(line => line.length > 0);
       
       return {
@@ -115,11 +113,11 @@ export class ReportProgressTool {
    */
   private async commitChanges(message: string, workingDir: string): Promise<{ success: boolean; sha?: string; error?: string }> {
     try {
-      // Commit with message
-      await execAsync(`git commit -m "${this.escapeShellArg(message)}"`, { cwd: workingDir });
+      // Commit with message (argv, so the message is never shell-interpreted)
+      await runGitChecked(['commit', '-m', message], { cwd: workingDir });
       
       // Get the commit SHA
-      const { stdout } = await execAsync('git rev-parse HEAD', { cwd: workingDir });
+      const { stdout } = await runGitChecked(['rev-parse', 'HEAD'], { cwd: workingDir });
       const sha = stdout.trim();
 
       return { success: true, sha };
@@ -140,7 +138,10 @@ export class ReportProgressTool {
       const currentBranch = branch || await this.getCurrentBranch(workingDir);
       
       // Push to origin
-      await execAsync(`git push origin ${currentBranch}`, { cwd: workingDir });
+      const result = await runGit(['push', 'origin', currentBranch], { cwd: workingDir, timeoutMs: 5 * 60 * 1000 });
+      if (!result.ok) {
+        return { success: false, error: result.timedOut ? 'git push timed out' : result.stderr.trim() };
+      }
       
       return { success: true };
     } catch (error) {
@@ -156,7 +157,7 @@ export class ReportProgressTool {
    */
   private async getCurrentBranch(workingDir?: string): Promise<string> {
     try {
-      const { stdout } = await execAsync('git branch --show-current', { cwd: workingDir });
+      const { stdout } = await runGitChecked(['branch', '--show-current'], { cwd: workingDir });
       return stdout.trim() || this.defaultBranch;
     } catch (error) {
       log.warn(`Could not get current branch: ${error}`);
@@ -196,8 +197,8 @@ export class ReportProgressTool {
    */
   async getCommitHistory(count: number = 10, workingDir?: string): Promise<Array<{ sha: string; message: string; author: string; date: string }>> {
     try {
-      const { stdout } = await execAsync(
-        `git log --oneline --format="%H|%s|%an|%ad" --date=short -n ${count}`,
+      const { stdout } = await runGitChecked(
+        ['log', '--format=%H|%s|%an|%ad', '--date=short', '-n', String(count)],
         { cwd: workingDir }
       );
 
@@ -224,12 +225,9 @@ export class ReportProgressTool {
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
       const branchName = `backup-${suffix || 'auto'}-${timestamp}`;
       
-      await execAsync(`git checkout -b ${branchName}`, { cwd: workingDir });
-      await execAsync(`git push origin ${branchName}`, { cwd: workingDir });
-      
-      // Switch back to original branch
-      const originalBranch = await this.getCurrentBranch(workingDir);
-      await execAsync(`git checkout ${originalBranch}`, { cwd: workingDir });
+      // Create the backup ref without switching branches, then publish it
+      await runGitChecked(['branch', branchName], { cwd: workingDir });
+      await runGitChecked(['push', 'origin', branchName], { cwd: workingDir, timeoutMs: 5 * 60 * 1000 });
 
       return { success: true, branchName };
     } catch (error) {
@@ -240,13 +238,6 @@ export class ReportProgressTool {
     }
   }
 
-  /**
-   * Escape shell arguments
-   */
-  private escapeShellArg(arg: string): string {
-    return arg.replace(/'/g, "'\"'\"'");
-  }
-
   /**
    * Generate progress summary
    */
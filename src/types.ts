@@ -1,3 +1,6 @@
+/** pending → in_progress → applied → verified | failed; only `verified` counts as done */
+export type TaskStatus = 'pending' | 'in_progress' | 'applied' | 'verified' | 'failed';
+
 export interface PlanTask {
   id: string;
   title: string;
@@ -37,6 +40,8 @@ export interface ProviderPatchContext {
     strategicHints?: string[];
   };
   reasoningChain?: string[];
+  /** Set on fix-up attempts: the previous patch applied but the repository's tests failed */
+  testFeedback?: { command: string; output: string; previousDiff: string };
 }
 
 export interface ProviderEvaluationContext {
@@ -70,18 +75,48 @@ export interface ExplodeResult {
   rationale: string;
 }
 
+export interface ProviderAcceptanceContext {
+  task: PlanTask;
+  /** Acceptance criteria left after command and file checks were taken out */
+  criteria: string[];
+  diff: string;
+}
+
+export interface AcceptanceJudgement {
+  satisfied: boolean;
+  rationale: string;
+  unmet?: string[];
+}
+
 export interface ReasoningTrace {
   phase: string;
   steps: { thought: string; evidence?: string; decision?: string }[];
   summary: string;
 }
 
+/* LLM usage accounting */
+export type ProviderPhase = 'plan' | 'patch' | 'evaluate' | 'explode' | 'refine' | 'verify';
+
+export interface ProviderUsage {
+  provider: string;
+  model: string;
+  phase: ProviderPhase;
+  promptTokens: number;
+  completionTokens: number;
+  /** True when the backend reported no usage and tokens were estimated from text length */
+  estimated?: boolean;
+}
+
+export type UsageListener = (usage: ProviderUsage) => void;
+
 export interface Provider {
   name(): string;
+  setUsageListener?(listener: UsageListener | undefined): void;
   generatePlan(ctx: ProviderPlanContext): Promise<string>;
   generatePatch(ctx: ProviderPatchContext): Promise<{ diff: string; noChanges?: boolean; trace?: ReasoningTrace }>;
   evaluateAndSuggest?(ctx: ProviderEvaluationContext): Promise<ProviderEvaluationResult>;
   explodeTask?(ctx: ProviderExplodeContext): Promise<ExplodeResult>;
+  verifyAcceptance?(ctx: ProviderAcceptanceContext): Promise<AcceptanceJudgement>;
   metaRefinePrompt?(rawPrompt: string, phase: string): Promise<string>;
 }
 
@@ -92,6 +127,8 @@ export interface ParsedDiffFile {
   isNew: boolean;
   isDeleted: boolean;
   isRename: boolean;
+  oldMode?: string;
+  newMode?: string;
   hunks: DiffHunk[];
   added: number;
   deleted: number;
@@ -126,9 +163,43 @@ export interface PatchValidationResult {
   };
 }
 
+export interface HunkApplyResult {
+  file: string;
+  index: number;
+  header: string;
+  applied: boolean;
+  /** Line shift between the header position and where the hunk matched */
+  offset?: number;
+  /** Number of context lines ignored at each edge to find a match */
+  fuzz?: number;
+  /** Applied through the three-way merge fallback */
+  merged?: boolean;
+  conflicts?: number;
+  reason?: string;
+}
+
 export interface ApplyPatchOutcome {
   applied: boolean;
   failedFiles: string[];
+  hunkResults: HunkApplyResult[];
   commitSha?: string;
   validation: PatchValidationResult;
 }
+
+/** Coverage fractions (0-1) parsed from a test run's report. */
+export interface CoverageSummary {
+  lines?: number;
+  statements?: number;
+  branches?: number;
+  functions?: number;
+}
+
+/** Checks of one iteration, stored on its Iteration row and summarised in the PR description. */
+export interface IterationReport {
+  validation: { ok: boolean; reasons: string[]; added: number; deleted: number; files: number };
+  /** Absent when the repository has no test command or tests are disabled */
+  tests?: { command: string; passed: boolean; failed?: number; baselineFailed?: number; durationMs: number };
+  /** Absent when cfg.security.scanIterations is off or nothing was pushed */
+  security?: { tools: string[]; findings: number; blockers: string[] };
+  coverage?: CoverageSummary;
+}
@@ -0,0 +1,57 @@
+// Check run annotations for patch application, policy violations and security findings
+import type { CheckAnnotation } from '../core/communicationService.js';
+import type { PolicyViolation } from '../services/policyEngine.js';
+import type { SecurityFinding } from '../services/securityScanService.js';
+import { HunkApplyResult } from '../types.js';
+
+/** GitHub accepts at most 50 annotations per check run create/update request. */
+export const MAX_ANNOTATIONS = 50;
+
+// `@@ -10,4 +12,6 @@` -> 12, the hunk's first line in the new file
+function hunkLine(header: string): number {
+  const match = header.match(/\+(\d+)/);
+  return Math.max(1, match ? parseInt(match[1]!, 10) : 1);
+}
+
+/** Rejected hunks as failures; hunks that only applied with an offset, fuzz or a three-way merge as notices. */
+export function hunkAnnotations(results: HunkApplyResult[]): CheckAnnotation[] {
+  const annotations: CheckAnnotation[] = [];
+  for (const h of results) {
+    const line = hunkLine(h.header);
+    if (!h.applied) {
+      annotations.push({ path: h.file, start_line: line, end_line: line, annotation_level: 'failure', title: 'Patch hunk rejected', message: `Hunk ${h.index + 1} did not apply: ${h.reason ?? 'no match'}` });
+    } else if (h.merged) {
+      const conflicts = h.conflicts ? ` (${h.conflicts} conflict(s) resolved)` : '';
+      annotations.push({ path: h.file, start_line: line, end_line: line, annotation_level: h.conflicts ? 'warning' : 'notice', title: 'Three-way merge', message: `Hunk ${h.index + 1} applied by three-way merge${conflicts}; review the result` });
+    } else if (h.offset || h.fuzz) {
+      const how = [h.offset ? `${h.offset} line(s) from its header position` : '', h.fuzz ? `ignoring ${h.fuzz} context line(s)` : ''].filter(Boolean).join(', ');
+      annotations.push({ path: h.file, start_line: line, end_line: line, annotation_level: 'notice', title: 'Inexact hunk match', message: `Hunk ${h.index + 1} applied ${how}` });
+    }
+  }
+  return annotations;
+}
+
+export function policyAnnotations(violations: PolicyViolation[]): CheckAnnotation[] {
+  return violations.map(v => ({
+    path: v.path,
+    start_line: v.line,
+    end_line: v.line,
+    annotation_level: 'warning',
+    title: `Policy: ${v.rule.replace(/_/g, ' ')}`,
+    message: v.message
+  }));
+}
+
+export function securityAnnotations(findings: SecurityFinding[]): CheckAnnotation[] {
+  return findings.filter(f => f.file).map(f => ({
+    path: f.file,
+    start_line: f.line || 1,
+    end_line: f.line || 1,
+    start_column: f.column,
+    end_column: f.column,
+    annotation_level: f.severity === 'critical' ? 'failure' : f.severity === 'high' ? 'warning' : 'notice',
+    message: f.description,
+    title: f.title,
+    raw_details: `Rule: ${f.rule}\nCategory: ${f.category}\nRecommendation: ${f.recommendation}`
+  }));
+}
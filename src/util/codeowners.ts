@@ -0,0 +1,49 @@
+// CODEOWNERS parsing and gitignore-style path matching (also used for protected path lists)
+
+export interface CodeownersRule {
+  pattern: string;
+  owners: string[];
+}
+
+export const CODEOWNERS_PATHS = ['.github/CODEOWNERS', 'CODEOWNERS', 'docs/CODEOWNERS'];
+
+export function parseCodeowners(text: string): CodeownersRule[] {
+  return text
+    .split(/\r?\n/)
+    .map(line => line.replace(/(^|\s)#.*$/, '').trim())
+    .filter(Boolean)
+    .map(line => {
+      const [pattern, ...owners] = line.split(/\s+/);
+      return { pattern: pattern!, owners };
+    });
+}
+
+/**
+ * gitignore semantics as GitHub applies them to CODEOWNERS: a leading or inner `/` anchors the
+ * pattern to the root, a trailing `/` matches everything below a directory, `*` stays within one
+ * segment (so `docs/*` skips subdirectories) and `**` spans any number of them.
+ */
+export function matchesPathPattern(filePath: string, pattern: string): boolean {
+  const anchored = pattern.replace(/\/$/, '').includes('/');
+  let body = pattern.replace(/^\//, '');
+  const directory = body.endsWith('/');
+  if (directory) body = body.slice(0, -1);
+  const source = body
+    .split(/(\*\*\/?|\*|\?)/)
+    .map(part => part === '**/' || part === '**' ? '(?:.*/)?' + (part === '**' ? '.*' : '')
+      : part === '*' ? '[^/]*'
+      : part === '?' ? '[^/]'
+      : part.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  const suffix = directory ? '/.*' : /(^|[^*])\*$/.test(body) ? '' : '(?:/.*)?';
+  const regex = new RegExp(`^${anchored ? '' : '(?:.*/)?'}${source}${suffix}$`);
+  return regex.test(filePath.replace(/^\//, ''));
+}
+
+/** Owners of `filePath`; the last matching rule wins, as on GitHub. */
+export function ownersFor(rules: CodeownersRule[], filePath: string): string[] {
+  for (let i = rules.length - 1; i >= 0; i--) {
+    if (matchesPathPattern(filePath, rules[i]!.pattern)) return rules[i]!.owners;
+  }
+  return [];
+}
@@ -0,0 +1,142 @@
+import { spawn } from 'child_process';
+
+export interface RunOptions {
+  cwd?: string;
+  /** Written to the child's stdin, which is then closed */
+  input?: string;
+  timeoutMs?: number;
+  env?: Record<string, string | undefined>;
+  /** Output beyond this many bytes per stream is dropped (the result is flagged `truncated`) */
+  maxOutputBytes?: number;
+}
+
+export interface CommandResult {
+  command: string[];
+  ok: boolean;
+  exitCode: number | null;
+  signal: string | null;
+  stdout: string;
+  stderr: string;
+  timedOut: boolean;
+  truncated: boolean;
+  durationMs: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+const DEFAULT_MAX_OUTPUT = 8 * 1024 * 1024;
+
+/**
+ * Runs a program with an argv array (no shell involved), so arguments such as
+ * commit messages are never interpreted. Never rejects: spawn errors, non-zero
+ * exits and timeouts are all reported through the result.
+ */
+export function runCommand(argv: string[], options: RunOptions = {}): Promise<CommandResult> {
+  const [program, ...args] = argv;
+  const started = Date.now();
+  const maxOutput = options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT;
+  if (!program) {
+    return Promise.resolve({
+      command: argv, ok: false, exitCode: null, signal: null, stdout: '', stderr: 'Empty command',
+      timedOut: false, truncated: false, durationMs: 0
+    });
+  }
+
+  return new Promise(resolve => {
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let stdoutBytes = 0;
+    let stderrBytes = 0;
+    let truncated = false;
+    let timedOut = false;
+    let spawnError: Error | undefined;
+    let settled = false;
+
+    const finish = (exitCode: number | null, signal: string | null) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      const err = Buffer.concat(stderr).toString('utf8');
+      resolve({
+        command: argv,
+        ok: exitCode === 0 && !timedOut && !spawnError,
+        exitCode,
+        signal,
+        stdout: Buffer.concat(stdout).toString('utf8'),
+        stderr: spawnError ? `${err}${spawnError.message}` : err,
+        timedOut,
+        truncated,
+        durationMs: Date.now() - started
+      });
+    };
+
+    const child = spawn(program, args, {
+      cwd: options.cwd,
+      env: options.env ?? process.env,
+      stdio: ['pipe', 'pipe', 'pipe']
+    });
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      child.kill('SIGKILL');
+    }, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      if (stdoutBytes + chunk.length > maxOutput) { truncated = true; return; }
+      stdoutBytes += chunk.length;
+      stdout.push(chunk);
+    });
+    child.stderr.on('data', (chunk: Buffer) => {
+      if (stderrBytes + chunk.length > maxOutput) { truncated = true; return; }
+      stderrBytes += chunk.length;
+      stderr.push(chunk);
+    });
+
+    child.on('error', err => {
+      spawnError = err;
+      // 'close' may never follow when the program could not be started
+      if (child.pid === undefined) finish(null, null);
+    });
+    child.on('close', (code, signal) => finish(code, signal));
+
+    // A child that exits without reading stdin would otherwise raise EPIPE
+    child.stdin.on('error', () => undefined);
+    if (options.input !== undefined) child.stdin.write(options.input);
+    child.stdin.end();
+  });
+}
+
+/** Environment for repository code (tests, acceptance commands): no agent secrets, CI mode on. */
+export function scrubbedEnv(): Record<string, string | undefined> {
+  return { PATH: process.env.PATH, LANG: process.env.LANG, TERM: 'dumb', CI: 'true' };
+}
+
+/**
+ * Environment that authenticates git's HTTPS requests to GitHub with an installation token. The token
+ * reaches git through GIT_CONFIG_* variables for one command only, so it is never written to .git/config.
+ */
+export function gitAuthEnv(token: string): Record<string, string | undefined> {
+  const basic = Buffer.from(`x-access-token:${token}`).toString('base64');
+  return {
+    ...process.env,
+    GIT_TERMINAL_PROMPT: '0',
+    GIT_CONFIG_COUNT: '1',
+    GIT_CONFIG_KEY_0: 'http.https://github.com/.extraheader',
+    GIT_CONFIG_VALUE_0: `AUTHORIZATION: basic ${basic}`
+  };
+}
+
+export function runGit(args: string[], options: RunOptions = {}): Promise<CommandResult> {
+  return runCommand(['git', ...args], options);
+}
+
+// Like runGit, but throws when git exits non-zero or times out.
+export async function runGitChecked(args: string[], options: RunOptions = {}): Promise<CommandResult> {
+  const result = await runGit(args, options);
+  if (!result.ok) {
+    const reason = result.timedOut ? 'timed out' : `exit ${result.exitCode}`;
+    throw new Error(`git ${args[0]} failed (${reason}): ${result.stderr.trim()}`);
+  }
+  return result;
+}
+
+export default { runCommand, runGit, runGitChecked, scrubbedEnv };
@@ -0,0 +1,170 @@
+// The plan as a human-editable markdown document: a checklist plus a structured details block, parsed back into task changes
+import yaml from 'yaml';
+import { cfg } from '../config.js';
+import { PlanTask, TaskStatus } from '../types.js';
+import { parsePlanDetails, ParseResult } from '../ai/outputSchemas.js';
+import { validateTaskGraph } from '../ai/taskGraph.js';
+
+/** The Task row fields the document shows. */
+export interface PlanDocumentRow {
+  externalId: string;
+  title: string;
+  type: string;
+  paths: string[];
+  acceptance: string | null;
+  riskScore: number;
+  dependsOn: string[];
+  status: string;
+  orderIndex: number;
+}
+
+export interface ChecklistItem {
+  /** Absent on items a human added */
+  id?: string;
+  title: string;
+  done: boolean;
+}
+
+export interface PlanChanges {
+  create: Array<PlanTask & { status: TaskStatus; orderIndex: number }>;
+  update: Array<{ externalId: string; data: Omit<PlanDocumentRow, 'externalId'> & { attempts?: number } }>;
+  remove: string[];
+}
+
+const STATUS_NOTES: Partial<Record<TaskStatus, string>> = { in_progress: 'in progress', applied: 'verifying', failed: 'failed' };
+const CHECKLIST_ITEM = /^\s*[-*]\s+\[([ xX])\]\s+(.+?)\s*$/;
+const ITEM_ID = /^`([^`]+)`\s+/;
+const NOTE_SUFFIX = /\s+_\([^)]*\)_$/;
+const AFTER_SUFFIX = /\s+— after [^—]+$/;
+// Rows a running iteration is holding; removing them would pull the task out from under it
+const ACTIVE = ['in_progress', 'applied'];
+
+export function renderPlanDocument(plan: { issueNumber: number; issueTitle: string; version: number }, rows: PlanDocumentRow[]): string {
+  const items = rows.map(r => {
+    const after = r.dependsOn.length ? ` — after ${r.dependsOn.join(', ')}` : '';
+    const note = STATUS_NOTES[r.status as TaskStatus];
+    return `- [${r.status === 'verified' ? 'x' : ' '}] \`${r.externalId}\` ${r.title}${after}${note ? ` _(${note})_` : ''}`;
+  });
+  const details = yaml.stringify({
+    tasks: rows.map(r => ({
+      id: r.externalId,
+      type: r.type,
+      paths: r.paths,
+      ...(r.acceptance ? { acceptance: r.acceptance } : {}),
+      riskScore: r.riskScore,
+      ...(r.dependsOn.length ? { dependsOn: r.dependsOn } : {})
+    }))
+  });
+  return [
+    `# Plan v${plan.version} for #${plan.issueNumber}: ${plan.issueTitle}`,
+    '',
+    'Tick, untick, add (no id needed), remove or reorder checklist items, or edit the task details below; the agent picks the changes up.',
+    '',
+    ...items,
+    '',
+    '<details><summary>Task details</summary>',
+    '',
+    cfg.planMarkers.start,
+    '```yaml',
+    details.trimEnd(),
+    '```',
+    cfg.planMarkers.end,
+    '',
+    '</details>',
+    ''
+  ].join('\n');
+}
+
+/** Checklist items outside the details block, in document order. */
+export function parseChecklist(doc: string): ChecklistItem[] {
+  const start = doc.indexOf(cfg.planMarkers.start);
+  const end = doc.indexOf(cfg.planMarkers.end);
+  const outside = start !== -1 && end > start ? doc.slice(0, start) + doc.slice(end) : doc;
+  const items: ChecklistItem[] = [];
+  for (const line of outside.split(/\r?\n/)) {
+    const match = line.match(CHECKLIST_ITEM);
+    if (!match) continue;
+    let text = match[2]!.replace(NOTE_SUFFIX, '').replace(AFTER_SUFFIX, '');
+    const id = text.match(ITEM_ID)?.[1];
+    if (id) text = text.replace(ITEM_ID, '');
+    if (text.trim()) items.push({ ...(id ? { id } : {}), title: text.trim(), done: match[1] !== ' ' });
+  }
+  return items;
+}
+
+function nextHumanId(taken: Set<string>): string {
+  let n = 1;
+  while (taken.has(`H${n}`)) n++;
+  taken.add(`H${n}`);
+  return `H${n}`;
+}
+
+/**
+ * Diffs an edited plan document against the current task rows. The checklist decides which tasks
+ * exist, their order and whether they are done; the details block (falling back to the row) decides
+ * everything else. Unticking a verified task reopens it; ticking any task marks it verified.
+ */
+export function reconcilePlan(rows: PlanDocumentRow[], doc: string): ParseResult<PlanChanges> {
+  const items = parseChecklist(doc);
+  if (!items.length) return { ok: false, error: 'the plan has no checklist items' };
+  const seen = new Set<string>();
+  for (const item of items.filter(i => i.id)) {
+    if (seen.has(item.id!)) return { ok: false, error: `task ${item.id} is listed twice` };
+    seen.add(item.id!);
+  }
+
+  let details = new Map<string, Partial<PlanTask>>();
+  if (doc.includes(cfg.planMarkers.start)) {
+    const parsed = parsePlanDetails(doc);
+    if (!parsed.ok) return { ok: false, error: `task details: ${parsed.error}` };
+    details = new Map(parsed.value.map(d => [d.id, d]));
+  }
+
+  const byId = new Map(rows.map(r => [r.externalId, r]));
+  const taken = new Set([...byId.keys(), ...seen]);
+  const listed = items.map(item => ({ ...item, id: item.id ?? nextHumanId(taken) }));
+  const ids = new Set(listed.map(i => i.id));
+  const tasks = listed.map((item): PlanTask & { done: boolean } => {
+    const source = details.get(item.id) ?? byId.get(item.id);
+    return {
+      id: item.id,
+      title: item.title,
+      type: source?.type ?? 'code',
+      paths: source?.paths ?? [],
+      acceptance: source?.acceptance ?? undefined,
+      riskScore: source?.riskScore ?? 0.3,
+      // Prerequisites a human removed from the plan are dropped rather than rejected
+      dependsOn: (source?.dependsOn ?? []).filter(d => ids.has(d) || d === item.id),
+      done: item.done
+    };
+  });
+  const problems = validateTaskGraph(tasks);
+  if (problems.length) return { ok: false, error: problems.join('; ') };
+
+  const changes: PlanChanges = { create: [], update: [], remove: [] };
+  tasks.forEach(({ done, ...task }, orderIndex) => {
+    const row = byId.get(task.id);
+    if (!row) {
+      changes.create.push({ ...task, status: done ? 'verified' : 'pending', orderIndex });
+      return;
+    }
+    const reopened = !done && row.status === 'verified';
+    const status = done ? 'verified' : reopened ? 'pending' : row.status;
+    const data: Omit<PlanDocumentRow, 'externalId'> = {
+      title: task.title,
+      type: task.type,
+      paths: task.paths,
+      acceptance: task.acceptance ?? null,
+      riskScore: task.riskScore ?? 0.3,
+      dependsOn: task.dependsOn ?? [],
+      status,
+      orderIndex
+    };
+    const current = { title: row.title, type: row.type, paths: row.paths, acceptance: row.acceptance, riskScore: row.riskScore, dependsOn: row.dependsOn, status: row.status, orderIndex: row.orderIndex };
+    if (JSON.stringify(data) !== JSON.stringify(current)) {
+      changes.update.push({ externalId: task.id, data: reopened ? { ...data, attempts: 0 } : data });
+    }
+  });
+  changes.remove = rows.filter(r => !ids.has(r.externalId) && !ACTIVE.includes(r.status)).map(r => r.externalId);
+  return { ok: true, value: changes };
+}
@@ -1,22 +1,9 @@
-import yaml from 'yaml';
 import { PlanTask } from "../types.js";
-import { cfg } from "../config.js";
+import { parsePlanOutput, StructuredOutputError } from "../ai/outputSchemas.js";
 
+// Throws StructuredOutputError instead of returning an empty plan when the block is missing or invalid
 export function extractPlanTasks(planContent: string): PlanTask[] {
-  const start = planContent.indexOf(cfg.planMarkers.start);
-  const end = planContent.indexOf(cfg.planMarkers.end);
-  if (start === -1 || end === -1) return [];
-  const block = planContent.slice(start + cfg.planMarkers.start.length, end);
-  let doc: any;
-  try { doc = yaml.parse(block); } catch { return []; }
-  if (!doc || !Array.isArray(doc.tasks)) return [];
-  return doc.tasks.map((t: any, idx: number) => ({
-    id: String(t.id ?? `T${idx+1}`),
-    title: t.title || 'Untitled',
-    type: t.type || 'code',
-    paths: Array.isArray(t.paths) ? t.paths : [],
-    acceptance: t.acceptance,
-    riskScore: typeof t.riskScore === 'number' ? t.riskScore : 0.3,
-    dependsOn: Array.isArray(t.dependsOn) ? t.dependsOn : []
-  }));
+  const result = parsePlanOutput(planContent);
+  if (!result.ok) throw new StructuredOutputError('plan', result.error, 1, planContent);
+  return result.value;
 }
@@ -0,0 +1,111 @@
+// The agent PR's description: issue reference, progress, the mirrored plan document, an iteration log and the latest checks
+import { cfg } from '../config.js';
+import { CoverageSummary, IterationReport } from '../types.js';
+
+/** The Iteration row fields the description shows. */
+export interface PullRequestIteration {
+  number: number;
+  executedTasks: string[];
+  commitSha: string | null;
+  success: boolean;
+  errorMessage: string | null;
+  revertedAt: Date | null;
+  report: unknown;
+}
+
+export interface PullRequestBodyInput {
+  owner: string;
+  repo: string;
+  issueNumber: number;
+  phase: string;
+  completed: boolean;
+  confidence: number;
+  tasks: Array<{ status: string }>;
+  iterations: PullRequestIteration[];
+  coverage: CoverageSummary | null;
+}
+
+const LOGGED_ITERATIONS = 15;
+
+const pct = (value: number) => `${Math.round(value * 100)}%`;
+
+function outcome(iteration: PullRequestIteration): string {
+  if (iteration.revertedAt) return '↩️ reverted';
+  if (iteration.success) return '✅';
+  const reason = iteration.errorMessage?.split('; ')[0];
+  return reason ? `❌ ${reason.replace(/\|/g, '\\|').slice(0, 120)}` : '❌';
+}
+
+function iterationLog(input: PullRequestBodyInput): string[] {
+  if (!input.iterations.length) return [];
+  const rows = [...input.iterations].sort((a, b) => b.number - a.number).slice(0, LOGGED_ITERATIONS).map(i => {
+    const commit = i.commitSha ? `[\`${i.commitSha.slice(0, 7)}\`](https://github.com/${input.owner}/${input.repo}/commit/${i.commitSha})` : '—';
+    return `| ${i.number + 1} | ${i.executedTasks.join(', ') || '—'} | ${commit} | ${outcome(i)} |`;
+  });
+  const older = input.iterations.length - rows.length;
+  return [
+    '## Iterations',
+    '',
+    '| # | Tasks | Commit | Result |',
+    '|---|---|---|---|',
+    ...rows,
+    ...(older > 0 ? ['', `_${older} earlier iteration(s) not shown._`] : []),
+    ''
+  ];
+}
+
+function checks(input: PullRequestBodyInput): string[] {
+  const latest = [...input.iterations].sort((a, b) => b.number - a.number).find(i => i.report);
+  const report = latest?.report as IterationReport | undefined;
+  const lines: string[] = [];
+  if (report) {
+    const v = report.validation;
+    lines.push(`- **Validation:** ${v.ok ? '✅ passed' : `❌ ${v.reasons.join(', ') || 'failed'}`} (+${v.added}/−${v.deleted} in ${v.files} file(s))`);
+    const t = report.tests;
+    if (!t) {
+      lines.push('- **Tests:** not run');
+    } else {
+      const counts = t.failed ? ` — ${t.failed} failed${t.baselineFailed !== undefined ? `, ${t.baselineFailed} before the patch` : ''}` : '';
+      lines.push(`- **Tests:** ${t.passed ? '✅' : '❌'} \`${t.command}\`${counts} (${Math.round(t.durationMs / 1000)}s)`);
+    }
+    const s = report.security;
+    if (!s) {
+      lines.push('- **Security:** not scanned');
+    } else if (!s.tools.length) {
+      lines.push('- **Security:** no scanner available');
+    } else {
+      const blockers = s.blockers.length ? `; blocking: ${s.blockers.slice(0, 5).join(', ')}` : '';
+      lines.push(`- **Security:** ${s.blockers.length ? '⚠️' : '✅'} ${s.findings} finding(s) from ${s.tools.join(', ')}${blockers}`);
+    }
+  }
+  const coverage = input.coverage;
+  if (coverage?.lines !== undefined) {
+    const others = (['statements', 'branches', 'functions'] as const)
+      .filter(k => coverage[k] !== undefined)
+      .map(k => `${k} ${pct(coverage[k]!)}`);
+    const meets = coverage.lines >= cfg.coverage.minLines;
+    lines.push(`- **Coverage:** ${meets ? '✅' : '⚠️'} lines ${pct(coverage.lines)} (minimum ${pct(cfg.coverage.minLines)})${others.length ? `, ${others.join(', ')}` : ''}`);
+  } else if (report) {
+    lines.push('- **Coverage:** not reported');
+  }
+  return lines.length ? [`## Checks${latest ? ` (iteration ${latest.number + 1})` : ''}`, '', ...lines, ''] : [];
+}
+
+/** Regenerated after every iteration; the plan document between the mirror markers is also edited by humans. */
+export function renderPullRequestBody(input: PullRequestBodyInput, planDoc: string): string {
+  const { start, end } = cfg.planDocument.mirrorMarkers;
+  const done = input.tasks.filter(t => t.status === 'verified').length;
+  const state = input.completed || input.phase === 'finalizing' ? 'ready for review' : input.phase.replace(/_/g, ' ');
+  return [
+    `Automated implementation of issue #${input.issueNumber}`,
+    '',
+    `**Status:** ${state} · ${done}/${input.tasks.length} tasks verified · ${input.iterations.length} iteration(s) · confidence ${pct(input.confidence)}`,
+    '',
+    start,
+    planDoc,
+    end,
+    '',
+    ...iterationLog(input),
+    ...checks(input)
+  ].join('\n');
+}
@@ -0,0 +1,200 @@
+// Runs untrusted repository commands (tests, acceptance checks, BashTool sessions) isolated from the worker
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import pino from 'pino';
+import { cfg } from '../config.js';
+import { CommandResult, RunOptions, runCommand, scrubbedEnv } from './commandRunner.js';
+
+const log = pino({ level: process.env.LOG_LEVEL || 'info' });
+
+export type SandboxMode = 'auto' | 'bwrap' | 'rlimit' | 'off';
+export type SandboxBackend = Exclude<SandboxMode, 'auto'>;
+
+export interface SandboxLimits {
+  cpuSeconds: number;
+  memoryBytes: number;
+  processes: number;
+  fileBytes: number;
+}
+
+export interface SandboxOptions extends Omit<RunOptions, 'cwd' | 'env'> {
+  /** The only writable directory besides the sandbox home and a private /tmp */
+  cwd: string;
+  /** Defaults to cfg.sandbox.network (off) */
+  network?: boolean;
+  /** Added on top of the scrubbed environment */
+  env?: Record<string, string | undefined>;
+  limits?: Partial<SandboxLimits>;
+  transcript?: CommandTranscript;
+  /** Gives the command a persistent HOME of its own repository (package manager caches); without it HOME is thrown away */
+  repoKey?: string;
+  /** The checkout's git directory (a worktree's bare mirror), bound read-only so git works inside the sandbox */
+  gitDir?: string;
+}
+
+export interface TranscriptEntry {
+  command: string[];
+  cwd: string;
+  backend: SandboxBackend;
+  network: boolean;
+  startedAt: string;
+  durationMs: number;
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  /** Output tails (cfg.sandbox.transcriptTailBytes per stream) */
+  stdout: string;
+  stderr: string;
+}
+
+function tail(text: string, max: number): string {
+  return text.length > max ? `…${text.slice(-max)}` : text;
+}
+
+/** Per-iteration record of every sandboxed command, saved on the Iteration row. */
+export class CommandTranscript {
+  readonly entries: TranscriptEntry[] = [];
+
+  record(entry: TranscriptEntry): void {
+    const max = cfg.sandbox.transcriptTailBytes;
+    this.entries.push({ ...entry, stdout: tail(entry.stdout, max), stderr: tail(entry.stderr, max) });
+  }
+}
+
+/** Thrown in `auto` mode when bubblewrap cannot run; commands are refused rather than run without isolation. */
+export class SandboxUnavailableError extends Error {
+  constructor(public reason: string) {
+    super(`No isolating sandbox is available: ${reason}`);
+    this.name = 'SandboxUnavailableError';
+  }
+}
+
+// rlimits are applied by the shell that then execs the command, so they bind the command and its children.
+// Memory is capped by data segment, not address space: V8 and WebAssembly reserve far more address space than they use.
+function rlimitPrefix(limits: SandboxLimits): string[] {
+  const script = [
+    `ulimit -t ${limits.cpuSeconds}`,
+    `ulimit -d ${Math.floor(limits.memoryBytes / 1024)}`,
+    `ulimit -u ${limits.processes}`,
+    `ulimit -f ${Math.floor(limits.fileBytes / 1024)}`
+  ].map(l => `${l} 2>/dev/null`).join('; ');
+  return ['bash', '-c', `${script}; exec "$@"`, 'sandbox'];
+}
+
+// Paths that stay readable under `--ro-bind / /` but must not be: the agent's own tree (.env), other workspaces and their homes
+function maskedPaths(): string[] {
+  const keyPath = (process.env.GITHUB_APP_PRIVATE_KEY_PATH || '').trim();
+  return [...new Set([
+    process.cwd(),
+    cfg.workspace.tempRoot,
+    cfg.sandbox.homeDir,
+    ...(keyPath ? [path.dirname(path.resolve(keyPath))] : []),
+    ...cfg.sandbox.maskedPaths
+  ])].filter(p => p !== '/' && existsSync(p));
+}
+
+/**
+ * Builds the argv that runs `command` under `backend`. With bubblewrap the command gets fresh
+ * user/pid/ipc/uts/net namespaces, a read-only view of the host with secrets masked, a private
+ * /tmp, and write access only to `cwd` and the sandbox home. `gitDir` is re-exposed read-only.
+ */
+export function sandboxArgv(backend: SandboxBackend, command: string[], opts: { cwd: string; network: boolean; limits: SandboxLimits; home: string; gitDir?: string }): string[] {
+  if (backend === 'off') return command;
+  const limited = [...rlimitPrefix(opts.limits), ...command];
+  if (backend === 'rlimit') return limited;
+  return [
+    'bwrap',
+    '--die-with-parent',
+    '--new-session',
+    '--unshare-all',
+    ...(opts.network ? ['--share-net'] : []),
+    '--ro-bind', '/', '/',
+    '--dev', '/dev',
+    '--proc', '/proc',
+    '--tmpfs', '/tmp',
+    ...maskedPaths().flatMap(p => ['--tmpfs', p]),
+    ...(opts.gitDir ? ['--ro-bind', opts.gitDir, opts.gitDir] : []),
+    '--bind', opts.home, opts.home,
+    '--bind', opts.cwd, opts.cwd,
+    '--chdir', opts.cwd,
+    '--',
+    ...limited
+  ];
+}
+
+export class SandboxRunner {
+  private detected?: Promise<SandboxBackend>;
+
+  constructor(private mode: SandboxMode = cfg.sandbox.mode) {}
+
+  /** The isolation actually in use; `auto` requires bubblewrap and rejects with SandboxUnavailableError without it. */
+  backend(): Promise<SandboxBackend> {
+    this.detected ??= this.detect();
+    return this.detected;
+  }
+
+  /**
+   * Argv and environment for a long-lived sandboxed process (BashTool sessions).
+   * `release` removes a throwaway HOME once the process has exited.
+   */
+  async wrap(command: string[], opts: Omit<SandboxOptions, 'transcript'>): Promise<{ argv: string[]; env: Record<string, string | undefined>; backend: SandboxBackend; release(): Promise<void> }> {
+    const backend = await this.backend();
+    const { home, release } = await this.home(opts.repoKey);
+    const argv = sandboxArgv(backend, command, {
+      cwd: path.resolve(opts.cwd),
+      network: opts.network ?? cfg.sandbox.network,
+      limits: { ...cfg.sandbox.limits, ...opts.limits },
+      home,
+      gitDir: opts.gitDir && path.resolve(opts.gitDir)
+    });
+    const env = { ...scrubbedEnv(), HOME: home, ...opts.env };
+    return { argv, env, backend, release };
+  }
+
+  async run(command: string[], opts: SandboxOptions): Promise<CommandResult> {
+    const { argv, env, backend, release } = await this.wrap(command, opts);
+    const { network, limits: _limits, transcript, env: _env, repoKey: _repoKey, gitDir: _gitDir, ...runOptions } = opts;
+    const startedAt = new Date().toISOString();
+    const result = await runCommand(argv, { ...runOptions, env }).finally(release);
+    // Callers see the command they asked for, not the wrapper
+    const reported = { ...result, command };
+    transcript?.record({
+      command,
+      cwd: opts.cwd,
+      backend,
+      network: network ?? cfg.sandbox.network,
+      startedAt,
+      durationMs: result.durationMs,
+      exitCode: result.exitCode,
+      signal: result.signal,
+      timedOut: result.timedOut,
+      stdout: result.stdout,
+      stderr: result.stderr
+    });
+    return reported;
+  }
+
+  // Dotfiles left in HOME (.bashrc, .npmrc) run in every later command, so HOMEs are never shared between repositories
+  private async home(repoKey?: string): Promise<{ home: string; release(): Promise<void> }> {
+    await fs.mkdir(cfg.sandbox.homeDir, { recursive: true });
+    if (!repoKey) {
+      const home = await fs.mkdtemp(path.join(cfg.sandbox.homeDir, 'run-'));
+      return { home, release: () => fs.rm(home, { recursive: true, force: true }) };
+    }
+    const home = path.join(cfg.sandbox.homeDir, `repo-${repoKey.replace(/[^\w.-]/g, '_')}`);
+    await fs.mkdir(home, { recursive: true });
+    return { home, release: async () => undefined };
+  }
+
+  private async detect(): Promise<SandboxBackend> {
+    if (this.mode !== 'auto') return this.mode;
+    const probe = await runCommand(['bwrap', '--die-with-parent', '--unshare-all', '--ro-bind', '/', '/', 'true'], { timeoutMs: 10_000 });
+    if (probe.ok) return 'bwrap';
+    const reason = (probe.stderr || `exit ${probe.exitCode}`).trim().split('\n')[0]!;
+    log.error(`bubblewrap is unavailable (${reason}); refusing to run repository commands. Install bubblewrap or set SANDBOX_MODE=rlimit to accept running them without filesystem or network isolation`);
+    throw new SandboxUnavailableError(`bubblewrap failed (${reason})`);
+  }
+}
+
+export const sandboxRunner = new SandboxRunner();
@@ -6,6 +6,10 @@ import { planQueue, execQueue } from "./queue.js";
 import { loadAgent } from "./services/issueAgentService.js";
 import { sha256 } from "./util/hash.js";
 import { prisma } from "./storage/prisma.js";
+import { commentCommandService } from "./services/commentCommandService.js";
+import { embeddingIndexer } from "./services/embeddingIndexer.js";
+import { planSyncService } from "./services/planSyncService.js";
+import { planApprovalService } from "./services/planApprovalService.js";
 
 export const webhooks = new Webhooks({ secret: cfg.webhookSecret });
 
@@ -29,7 +33,7 @@ webhooks.on('issues', async e => {
     const bodyHash = sha256(issue.body || '');
     const bodyChanged = agent && bodyHash !== agent.issueBodyHash;
 
-    if (!agent?.planCommitSha || bodyChanged) {
+    if (!agent?.tasks.length || bodyChanged) {
       await planQueue.add(`plan-${owner}-${repo}-${issue.number}-${Date.now()}`, {
         installationId: inst, owner, repo, issueNumber: issue.number
       });
@@ -78,3 +82,110 @@ webhooks.on('issues.closed', async e => {
     data: { completed: true }
   });
 });
+
+webhooks.on('issue_comment.created', async e => {
+  const { comment, issue, repository, installation } = e.payload;
+  if (!installation) return;
+  await commentCommandService.handle({
+    installationId: installation.id,
+    owner: repository.owner.login,
+    repo: repository.name,
+    author: comment.user.login,
+    authorType: comment.user.type,
+    body: comment.body || '',
+    threadNumber: issue.number,
+    isPullRequest: !!issue.pull_request
+  });
+});
+
+webhooks.on('pull_request_review_comment.created', async e => {
+  const { comment, pull_request, repository, installation } = e.payload;
+  if (!installation) return;
+  await commentCommandService.handle({
+    installationId: installation.id,
+    owner: repository.owner.login,
+    repo: repository.name,
+    author: comment.user.login,
+    authorType: comment.user.type,
+    body: comment.body || '',
+    threadNumber: pull_request.number,
+    isPullRequest: true
+  });
+});
+
+// Keep the embedding index in step with the default branch
+webhooks.on('push', async e => {
+  const { ref, after, deleted, repository, installation } = e.payload;
+  if (!installation || deleted) return;
+  if (ref !== `refs/heads/${repository.default_branch}`) return;
+  await embeddingIndexer.enqueue({
+    installationId: installation.id,
+    owner: repository.owner?.login || repository.full_name.split('/')[0]!,
+    repo: repository.name,
+    branch: repository.default_branch,
+    commitSha: after,
+    reason: 'push'
+  });
+});
+
+// Human edits to the plan document on an agent branch
+webhooks.on('push', async e => {
+  const { ref, after, deleted, commits, repository, installation, sender } = e.payload;
+  if (!installation || deleted || !ref.startsWith('refs/heads/')) return;
+  const planPath = cfg.planDocument.path;
+  if (!commits.some(c => [...(c.added ?? []), ...(c.modified ?? []), ...(c.removed ?? [])].includes(planPath))) return;
+  await planSyncService.syncFromBranch({
+    installationId: installation.id,
+    owner: repository.owner?.login || repository.full_name.split('/')[0]!,
+    repo: repository.name,
+    branch: ref.slice('refs/heads/'.length),
+    commitSha: after,
+    sender: sender?.login
+  });
+});
+
+// Checklist items ticked or edited in the agent PR's description
+webhooks.on('pull_request.edited', async e => {
+  const { changes, pull_request, repository, installation, sender } = e.payload;
+  if (!installation || !changes.body) return;
+  await planSyncService.syncFromPullRequest({
+    installationId: installation.id,
+    owner: repository.owner.login,
+    repo: repository.name,
+    prNumber: pull_request.number,
+    body: pull_request.body || '',
+    sender: sender.login
+  });
+});
+
+// Reviews of the agent PR count towards plan approval
+webhooks.on('pull_request_review.submitted', async e => {
+  const { review, pull_request, repository, installation } = e.payload;
+  if (!installation || !['approved', 'changes_requested'].includes(review.state)) return;
+  const owner = repository.owner.login;
+  const repo = repository.name;
+  const agent = await prisma.issueAgent.findFirst({
+    where: { installationId: BigInt(installation.id), owner, repo, prNumber: pull_request.number }
+  });
+  if (!agent || !review.user) return;
+  const outcome = await planApprovalService.decide({
+    agentId: agent.id,
+    author: review.user.login,
+    decision: review.state === 'approved' ? 'approve' : 'reject',
+    via: 'review',
+    reason: review.body || undefined
+  });
+  if (outcome.status === 'approved') {
+    await execQueue.add(`exec-${owner}-${repo}-${agent.issueNumber}-${Date.now()}`, {
+      installationId: installation.id, owner, repo, issueNumber: agent.issueNumber, trigger: 'approval'
+    });
+  }
+});
+
+webhooks.on(['installation.created', 'installation_repositories.added'], async e => {
+  const repos = 'repositories_added' in e.payload ? e.payload.repositories_added : e.payload.repositories || [];
+  for (const r of repos) {
+    const [owner, repo] = r.full_name.split('/');
+    await embeddingIndexer.enqueue({ installationId: e.payload.installation.id, owner: owner!, repo: repo!, reason: 'installation' });
+  }
+});
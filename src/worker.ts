@@ -5,6 +5,7 @@ import { ensurePlan, runAdaptiveIteration } from './ai/adaptiveLoop.js';
 import { evaluateAgent } from './services/evalService.js';
 import { prisma } from './storage/prisma.js';
 import { scheduleActiveAgents } from './services/loopScheduler.js';
+import { embeddingIndexer } from './services/embeddingIndexer.js';
 
 const log = pino({ level: process.env.LOG_LEVEL || 'info' });
 
@@ -38,8 +39,14 @@ async function init() {
     log.info('Sweep complete');
   }, { connection });
 
+  // One repository at a time: indexing is embedding-API bound
+  const indexWorker = new Worker('index', async (job) => {
+    log.info({ owner: job.data.owner, repo: job.data.repo, reason: job.data.reason }, 'Embedding index');
+    return embeddingIndexer.indexRepository(job.data);
+  }, { connection, concurrency: 1 });
+
   setInterval(async () => {
-    const agents = await prisma.issueAgent.findMany({ where: { completed: false } });
+    const agents = await prisma.issueAgent.findMany({ where: { completed: false, blocked: false } });
     for (const a of agents) {
       if (!a.lastEvalAt || Date.now() - a.lastEvalAt.getTime() > 1000 * 60 * 10) {
         const evalQueue = (await import('./queue.js')).evalQueue;
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { hunkAnnotations, policyAnnotations } from '../src/util/checkAnnotations.js';
+import { PolicyEngine } from '../src/services/policyEngine.js';
+import { parseUnifiedDiff } from '../src/git/diffParser.js';
+import { GitHubChecksService, IterationCheckResult } from '../src/core/communicationService.js';
+
+const existsSync = vi.hoisted(() => vi.fn());
+vi.mock('fs', async importOriginal => {
+  const fs = await importOriginal<typeof import('fs')>();
+  return { ...fs, existsSync: existsSync.mockImplementation(fs.existsSync) };
+});
+
+const db = vi.hoisted(() => ({
+  suites: [] as any[],
+  runs: new Map<number, any>(),
+  nextId: 3_000_000_000
+}));
+
+vi.mock('../src/octokit.js', () => ({
+  getInstallationOctokit: async () => ({
+    rest: {
+      git: { getRef: async () => ({ data: { object: { sha: 'head0' } } }) },
+      checks: {
+        create: async (params: any) => {
+          const id = db.nextId++;
+          db.runs.set(id, { ...params });
+          return { data: { id } };
+        },
+        update: async ({ check_run_id, ...params }: any) => { Object.assign(db.runs.get(check_run_id), params); },
+        get: async ({ check_run_id }: any) => ({ data: db.runs.get(check_run_id) })
+      }
+    }
+  })
+}));
+
+vi.mock('../src/storage/prisma.js', () => ({
+  prisma: {
+    issueAgent: { findUnique: async () => ({ id: 'agent1', installationId: 1n, owner: 'acme', repo: 'app', branchName: 'ai/issue-7-agent' }) },
+    agentCheckRuns: {
+      findFirst: async () => db.suites.at(-1) ?? null,
+      findUnique: async ({ where }: any) => db.suites.find(s => s.headSha === where.agentId_headSha.headSha) ?? null,
+      upsert: async ({ create }: any) => db.suites.push({ ...create }),
+      updateMany: async ({ where, data }: any) => db.suites.filter(s => s.headSha === where.headSha).forEach(s => Object.assign(s, data))
+    }
+  }
+}));
+
+const diff = [
+  'diff --git a/src/retry.ts b/src/retry.ts',
+  '--- a/src/retry.ts',
+  '+++ b/src/retry.ts',
+  '@@ -10,3 +12,4 @@',
+  ' export function retry() {',
+  '-  return 1;',
+  '+  const password = read();',
+  '+  return 2;',
+  ' }',
+  'diff --git a/.env b/.env',
+  'new file mode 100644',
+  '--- /dev/null',
+  '+++ b/.env',
+  '@@ -0,0 +1 @@',
+  '+TOKEN=x',
+  ''
+].join('\n');
+
+const run = (name: string) => [...db.runs.values()].filter(r => r.name === name).at(-1);
+
+const result = (extra: Partial<IterationCheckResult> = {}): IterationCheckResult => ({
+  iteration: 2,
+  commitSha: 'abc1234',
+  tasks: [{ externalId: 'T1', title: 'Add retries' }, { externalId: 'T2', title: 'Document retries' }],
+  verified: ['T1'],
+  failed: ['T2'],
+  report: {
+    validation: { ok: true, reasons: ['acceptance_failed:T2:docs/retry.md exists ()'], added: 3, deleted: 1, files: 2 },
+    tests: { command: 'npm test', passed: true, durationMs: 40_000 }
+  },
+  hunkResults: [
+    { file: 'src/retry.ts', index: 0, header: '@@ -10,3 +12,4 @@', applied: true, offset: 3 },
+    { file: 'src/other.ts', index: 1, header: '@@ -1,2 +1,2 @@', applied: false, reason: 'context mismatch' }
+  ],
+  policyViolations: [],
+  largeFiles: [],
+  previousTestMs: 20_000,
+  ...extra
+});
+
+describe('Check Annotations', () => {
+  it('should locate policy violations and inexact hunks in the new file', () => {
+    const policy = PolicyEngine.fromConfig({ restricted_paths: ['.env'], forbidden_patterns: ['password'] });
+    const violations = policy.findViolations(parseUnifiedDiff(diff));
+    // The repository's policy came from the API; the worker's own checkout is never consulted
+    expect(existsSync).not.toHaveBeenCalledWith('.aiagent-ownership.yml');
+
+    expect(violations).toEqual([
+      { path: 'src/retry.ts', line: 13, rule: 'forbidden_pattern', message: 'Added line contains forbidden pattern "password"' },
+      { path: '.env', line: 1, rule: 'restricted_path', message: 'Matches restricted path pattern .env' }
+    ]);
+    expect(policyAnnotations(violations)[0]).toMatchObject({ path: 'src/retry.ts', start_line: 13, annotation_level: 'warning', title: 'Policy: forbidden pattern' });
+    expect(hunkAnnotations(result().hunkResults)).toEqual([
+      expect.objectContaining({ path: 'src/retry.ts', start_line: 12, annotation_level: 'notice', message: 'Hunk 1 applied 3 line(s) from its header position' }),
+      expect.objectContaining({ path: 'src/other.ts', start_line: 1, annotation_level: 'failure', message: 'Hunk 2 did not apply: context mismatch' })
+    ]);
+  });
+});
+
+describe('Agent Check Runs', () => {
+  beforeEach(() => {
+    db.suites = [];
+    db.runs.clear();
+  });
+
+  it('should open the suite on the pushed commit and complete each run as its phase ends', async () => {
+    const checks = new GitHubChecksService();
+
+    await checks.startIterationChecks('agent1', 'abc1234', { version: 3, tasks: [{ externalId: 'T1', title: 'Add retries', status: 'pending' }] });
+
+    expect([...db.runs.values()].map(r => [r.name, r.head_sha, r.status])).toEqual([
+      ['ai-plan', 'abc1234', 'completed'],
+      ['ai-exec', 'abc1234', 'in_progress'],
+      ['ai-eval', 'abc1234', 'queued'],
+      ['ai-security', 'abc1234', 'queued'],
+      ['ai-performance', 'abc1234', 'queued']
+    ]);
+    // Check run ids outgrew 32-bit integers
+    expect(db.suites[0].planCheckId).toBe(3_000_000_000n);
+    expect(run('ai-plan').output.summary).toBe('Plan v3: 1 tasks');
+
+    await checks.finishIterationChecks('agent1', 'abc1234', result());
+
+    expect(run('ai-exec')).toMatchObject({ status: 'completed', conclusion: 'failure', output: { summary: 'Iteration 3: 1/2 task(s) verified, 1 failed acceptance' } });
+    expect(run('ai-exec').output.text).toContain('| `T2` | Document retries | ❌ acceptance failed |');
+    expect(run('ai-exec').output.annotations).toHaveLength(2);
+    expect(run('ai-security')).toMatchObject({ conclusion: 'neutral', output: { summary: 'Security scanning of agent commits is disabled (SECURITY_SCAN_ITERATIONS)' } });
+    expect(run('ai-performance')).toMatchObject({ conclusion: 'neutral', output: { summary: '⚠️ Tests took 40.0s, up from 20.0s in the previous iteration' } });
+
+    await checks.updateEvalCheck('agent1', { coverageScore: 0.9, rationale: 'Done', newTasks: 0, stopRecommended: true });
+    expect(run('ai-eval')).toMatchObject({ status: 'completed', conclusion: 'success', output: { summary: '90% of the issue covered; the agent is finalizing' } });
+  });
+
+  it('should report security findings and close an unevaluated suite when the next commit arrives', async () => {
+    const checks = new GitHubChecksService();
+    await checks.startIterationChecks('agent1', 'abc1234', { version: 3, tasks: [] });
+    const finding = { id: 'f1', severity: 'critical', title: 'Hardcoded secret', description: 'A token is committed', file: 'src/retry.ts', line: 13, rule: 'secrets', category: 'secrets', recommendation: 'Use the vault', confidence: 'high' } as const;
+
+    await checks.updateSecurityCheck('agent1', 'abc1234', [{ tool: 'semgrep', severity: 'critical', findings: [finding], passed: false, blockers: [finding], scanTime: 5, coverage: { filesScanned: 1, rulesApplied: 10 } }]);
+    expect(run('ai-security')).toMatchObject({ conclusion: 'failure', output: { annotations: [{ path: 'src/retry.ts', start_line: 13, annotation_level: 'failure', title: 'Hardcoded secret' }] } });
+
+    await checks.startIterationChecks('agent1', 'def5678', { version: 3, tasks: [] });
+    const firstEval = [...db.runs.values()].find(r => r.name === 'ai-eval' && r.head_sha === 'abc1234');
+    expect(firstEval).toMatchObject({ status: 'completed', conclusion: 'neutral', output: { summary: 'Not evaluated; superseded by def5678' } });
+  });
+
+  it('should leave a failed exec run on the branch head when nothing was pushed', async () => {
+    const checks = new GitHubChecksService();
+
+    await checks.recordFailedIteration('agent1', result({ commitSha: undefined, verified: [], failed: [], report: { validation: { ok: false, reasons: ['hunk_failed:src/other.ts#1:context mismatch'], added: 3, deleted: 1, files: 2 } } }));
+
+    expect(run('ai-exec')).toMatchObject({
+      head_sha: 'head0',
+      status: 'completed',
+      conclusion: 'failure',
+      output: { summary: 'Iteration 3 pushed nothing: hunk_failed:src/other.ts#1:context mismatch' }
+    });
+  });
+});
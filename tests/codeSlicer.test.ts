@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { CodeSlicer, remapSlicedDiff, sliceLineToFileLine } from '../src/ai/codeSlicer.js';
+import { applyHunksToContent } from '../src/git/diffApplier.js';
+import { parseUnifiedDiff } from '../src/git/diffParser.js';
+
+const filler = (name: string, n: number) =>
+  [`export function ${name}() {`, ...Array.from({ length: n }, (_, i) => `  const v${i} = ${i};`), '  return 0;', '}'];
+
+const source = [
+  "import { cfg } from '../config.js';",
+  "import pino from 'pino';",
+  '',
+  ...filler('unrelatedOne', 40),
+  '',
+  'export interface Options {',
+  '  retries: number;',
+  '}',
+  '',
+  ...filler('unrelatedTwo', 40),
+  '',
+  '/** Does the work. */',
+  'export function doWork(opts: Options) {',
+  '  const limit = opts.retries;',
+  '  return limit * 2;',
+  '}',
+  '',
+  'export class Runner {',
+  '  start() {',
+  '    return 1;',
+  '  }',
+  ...Array.from({ length: 30 }, (_, i) => `  helper${i}() { return ${i}; }`),
+  '  stop() {',
+  '    return 0;',
+  '  }',
+  '}',
+  ''
+].join('\n');
+
+const lineOf = (text: string) => source.split('\n').indexOf(text) + 1;
+
+describe('Code Slicer', () => {
+  const slicer = new CodeSlicer(50);
+
+  it('should keep imports, referenced symbols and their same-file types only', () => {
+    const slice = slicer.slice({ path: 'src/work.ts', content: source }, [{ title: 'Make doWork retry twice' }]);
+
+    expect(slice.sliced).toBe(true);
+    expect(slice.symbols).toEqual(['doWork', 'Options']);
+    expect(slice.content).toContain("import pino from 'pino';");
+    expect(slice.content).toContain('/** Does the work. */');
+    expect(slice.content).toContain('  retries: number;');
+    expect(slice.content).not.toContain('const v10');
+    expect(slice.content).toMatch(/\/\/ \.\.\. lines \d+-\d+ omitted: export function unrelatedOne\(\)/);
+    expect(slice.content.split('\n').length).toBeLessThan(source.split('\n').length / 3);
+  });
+
+  it('should slice a single class method with its class header', () => {
+    const slice = slicer.slice({ path: 'src/work.ts', content: source }, [{ title: 'Fix stop', acceptance: 'stop returns 1' }]);
+
+    expect(slice.symbols).toEqual(['Runner.stop']);
+    expect(slice.content).toContain('export class Runner {');
+    expect(slice.content).toContain('  stop() {');
+    expect(slice.content).not.toContain('helper3()');
+  });
+
+  it('should leave short, unparseable or unreferenced files whole', () => {
+    expect(slicer.slice({ path: 'README.md', content: source }, [{ title: 'doWork' }]).sliced).toBe(false);
+    expect(slicer.slice({ path: 'src/work.ts', content: source }, [{ title: 'Unrelated change' }]).sliced).toBe(false);
+    expect(new CodeSlicer(1000).slice({ path: 'src/work.ts', content: source }, [{ title: 'doWork' }]).sliced).toBe(false);
+  });
+
+  it('should map hunks written against the slice back onto the real file', () => {
+    const slice = slicer.slice({ path: 'src/work.ts', content: source }, [{ title: 'Make doWork retry twice' }]);
+    const sliceLines = slice.content.split('\n');
+    const at = sliceLines.indexOf('  return limit * 2;') + 1;
+    expect(sliceLineToFileLine(slice, at)).toBe(lineOf('  return limit * 2;'));
+
+    const diff = [
+      'diff --git a/src/work.ts b/src/work.ts',
+      '--- a/src/work.ts',
+      '+++ b/src/work.ts',
+      `@@ -${at - 1},3 +${at - 1},3 @@ export function doWork`,
+      '   const limit = opts.retries;',
+      '-  return limit * 2;',
+      '+  return limit * 3;',
+      ' }'
+    ].join('\n');
+
+    const remapped = remapSlicedDiff(diff, [slice]);
+    expect(remapped).toContain(`@@ -${lineOf('  const limit = opts.retries;')},3 +${lineOf('  const limit = opts.retries;')},3 @@ export function doWork`);
+
+    const parsed = parseUnifiedDiff(remapped);
+    const result = applyHunksToContent('src/work.ts', source, parsed.files[0]!.hunks, { maxOffset: 0, fuzz: 0 });
+    expect(result.hunkResults[0]).toMatchObject({ applied: true, offset: 0 });
+    expect(result.content).toContain('return limit * 3;');
+  });
+});
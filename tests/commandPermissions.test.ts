@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const permissions: Record<string, string> = {};
+const teamMembers: Record<string, string[]> = {};
+const configFiles: { aiagent?: any; ownership?: any } = {};
+const activityLogCreate = vi.fn();
+
+vi.mock('../src/octokit.js', () => ({
+  getInstallationOctokit: async () => ({
+    rest: {
+      repos: {
+        getCollaboratorPermissionLevel: async ({ username }: { username: string }) => ({
+          data: { permission: permissions[username] || 'none', role_name: permissions[username] || 'none' }
+        })
+      },
+      teams: {
+        getMembershipForUserInOrg: async ({ org, team_slug, username }: { org: string; team_slug: string; username: string }) => {
+          if (!(teamMembers[`${org}/${team_slug}`] || []).includes(username)) throw Object.assign(new Error('Not Found'), { status: 404 });
+          return { data: { state: 'active' } };
+        }
+      }
+    }
+  })
+}));
+
+vi.mock('../src/services/repoFileService.js', () => ({
+  repoFileService: { getConfigFiles: async () => configFiles }
+}));
+
+vi.mock('../src/storage/prisma.js', () => ({
+  prisma: { activityLog: { create: activityLogCreate } }
+}));
+
+describe('Command Permissions', () => {
+  const request = { installationId: '1', owner: 'acme', repo: 'app', issueNumber: 7 };
+
+  beforeEach(() => {
+    activityLogCreate.mockReset();
+    for (const key of Object.keys(permissions)) delete permissions[key];
+    for (const key of Object.keys(teamMembers)) delete teamMembers[key];
+    delete configFiles.aiagent;
+    delete configFiles.ownership;
+    Object.assign(permissions, { reader: 'read', triager: 'triage', dev: 'write', lead: 'maintain', boss: 'admin' });
+  });
+
+  it('should enforce the default role matrix', async () => {
+    const { commandAuthorizer } = await import('../src/services/commandPermissions.js');
+
+    expect((await commandAuthorizer.authorize({ ...request, command: 'status', author: 'reader' })).allowed).toBe(true);
+    expect((await commandAuthorizer.authorize({ ...request, command: 'eval', author: 'triager' })).allowed).toBe(true);
+    expect((await commandAuthorizer.authorize({ ...request, command: 'start', author: 'triager' })).allowed).toBe(false);
+    expect((await commandAuthorizer.authorize({ ...request, command: 'approve', author: 'dev' })).allowed).toBe(false);
+    expect((await commandAuthorizer.authorize({ ...request, command: 'approve', author: 'lead' })).allowed).toBe(true);
+    expect((await commandAuthorizer.authorize({ ...request, command: 'restart', author: 'lead' })).allowed).toBe(false);
+    expect((await commandAuthorizer.authorize({ ...request, command: 'reset', author: 'boss' })).allowed).toBe(true);
+    expect((await commandAuthorizer.authorize({ ...request, command: 'status', author: 'stranger' })).allowed).toBe(false);
+  });
+
+  it('should require ownership and team membership from repository config', async () => {
+    const { commandAuthorizer } = await import('../src/services/commandPermissions.js');
+    permissions.other = 'maintain';
+    configFiles.ownership = { owners: ['@lead', '@acme/release'] };
+    configFiles.aiagent = { command_permissions: { rollback: { teams: ['acme/oncall'] } } };
+    teamMembers['acme/release'] = ['releaser'];
+    teamMembers['acme/oncall'] = ['lead'];
+    permissions.releaser = 'maintain';
+
+    expect((await commandAuthorizer.authorize({ ...request, command: 'approve', author: 'lead' })).allowed).toBe(true);
+    expect((await commandAuthorizer.authorize({ ...request, command: 'approve', author: 'releaser' })).allowed).toBe(true);
+    const notOwner = await commandAuthorizer.authorize({ ...request, command: 'approve', author: 'other' });
+    expect(notOwner.allowed).toBe(false);
+    expect(notOwner.reason).toContain('owner');
+
+    expect((await commandAuthorizer.authorize({ ...request, command: 'rollback', author: 'lead' })).allowed).toBe(true);
+    expect((await commandAuthorizer.authorize({ ...request, command: 'rollback', author: 'releaser' })).allowed).toBe(false);
+    expect((await commandAuthorizer.authorize({ ...request, command: 'rollback', author: 'boss' })).allowed).toBe(true);
+  });
+
+  it('should record denied commands in the activity log', async () => {
+    const { AIBotCommandProcessor } = await import('../src/services/commandProcessor.js');
+    const processor = new AIBotCommandProcessor();
+
+    const result = await processor.processCommand({ ...request, command: 'reset', args: [], author: 'reader' });
+
+    expect(result.error).toBe('PERMISSION_DENIED');
+    expect(activityLogCreate).toHaveBeenCalledTimes(1);
+    const data = activityLogCreate.mock.calls[0]![0].data;
+    expect(data.event).toBe('command_denied');
+    expect(data.success).toBe(false);
+    expect(JSON.parse(data.details)).toMatchObject({ command: 'reset', author: 'reader', permission: 'read', required: 'admin' });
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { runCommand, runGit } from '../src/util/commandRunner.js';
+import { WorkspaceManager } from '../src/git/workspaceManager.js';
+
+describe('Command Runner', () => {
+  it('should pass arguments verbatim without a shell', async () => {
+    const result = await runCommand(['node', '-e', 'process.stdout.write(process.argv[1])', '"$(touch pwned)" `id` \'x\'']);
+
+    expect(result.ok).toBe(true);
+    expect(result.exitCode).toBe(0);
+    expect(result.stdout).toBe('"$(touch pwned)" `id` \'x\'');
+  });
+
+  it('should feed stdin and report non-zero exits', async () => {
+    const result = await runCommand(['node', '-e', 'process.stdin.pipe(process.stdout); process.stdin.on("end", () => process.exit(3))'], { input: 'patch body' });
+
+    expect(result.ok).toBe(false);
+    expect(result.exitCode).toBe(3);
+    expect(result.stdout).toBe('patch body');
+  });
+
+  it('should kill commands that exceed the timeout', async () => {
+    const result = await runCommand(['node', '-e', 'setTimeout(() => {}, 10000)'], { timeoutMs: 100 });
+
+    expect(result.ok).toBe(false);
+    expect(result.timedOut).toBe(true);
+  });
+
+  it('should report programs that cannot be started', async () => {
+    const result = await runCommand(['definitely-not-a-real-binary']);
+
+    expect(result.ok).toBe(false);
+    expect(result.stderr).toContain('ENOENT');
+  });
+
+  it('should commit messages containing shell metacharacters', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'runner-'));
+    await runGit(['init', '-q'], { cwd: dir });
+    await runGit(['config', 'user.email', 't@t'], { cwd: dir });
+    await runGit(['config', 'user.name', 't'], { cwd: dir });
+    const ws = new WorkspaceManager(dir);
+    await ws.writeFile('a.txt', 'a\n');
+    await ws.stageAll(ws);
+
+    const message = 'agent: "quoted" $(rm -rf /) `whoami`';
+    const commit = await ws.commit(ws, message);
+
+    expect(commit.ok).toBe(true);
+    expect(commit.sha).toMatch(/^[a-f0-9]{40}$/);
+    const log = await runGit(['log', '-1', '--format=%s'], { cwd: dir });
+    expect(log.stdout.trim()).toBe(message);
+
+    const empty = await ws.commit(ws, 'agent: nothing');
+    expect(empty.ok).toBe(false);
+    expect(empty.sha).toBeUndefined();
+    expect(empty.error).toMatch(/nothing to commit/);
+  });
+});
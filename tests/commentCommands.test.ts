@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const createComment = vi.fn();
+const processCommand = vi.fn();
+
+vi.mock('../src/octokit.js', () => ({
+  getInstallationOctokit: async () => ({
+    rest: {
+      issues: { createComment }
+    }
+  })
+}));
+
+vi.mock('../src/services/commandProcessor.js', () => ({
+  aiBotCommandProcessor: { processCommand }
+}));
+
+describe('Comment Commands', () => {
+  const base = { installationId: 1, owner: 'acme', repo: 'app', threadNumber: 7, isPullRequest: false };
+
+  beforeEach(() => {
+    createComment.mockReset();
+    processCommand.mockReset();
+    processCommand.mockResolvedValue({ success: true, message: 'done', data: { agentId: 'acme_app_7' } });
+  });
+
+  it('should dispatch commands and post a command_response comment', async () => {
+    const { commentCommandService } = await import('../src/services/commentCommandService.js');
+
+    const result = await commentCommandService.handle({ ...base, author: 'maintainer', body: '@ai-bot pause flaky CI' });
+
+    expect(result?.success).toBe(true);
+    expect(processCommand).toHaveBeenCalledWith(expect.objectContaining({ command: 'pause', args: ['flaky', 'CI'], issueNumber: 7, author: 'maintainer' }));
+    const posted = createComment.mock.calls[0]![0];
+    expect(posted.issue_number).toBe(7);
+    expect(posted.body).toContain('<!-- AI-AGENT-COMMENT:command_response:acme_app_7 -->');
+    expect(posted.body).toContain('**Command**: `pause flaky CI`');
+  });
+
+  it('should post permission denials returned by the processor', async () => {
+    const { commentCommandService } = await import('../src/services/commentCommandService.js');
+    processCommand.mockResolvedValue({ success: false, message: '@reader is not allowed to run `reset`', error: 'PERMISSION_DENIED' });
+
+    const denied = await commentCommandService.handle({ ...base, author: 'reader', body: '@ai-bot reset' });
+
+    expect(denied?.error).toBe('PERMISSION_DENIED');
+    expect(createComment.mock.calls[0]![0].body).toContain('not allowed to run `reset`');
+  });
+
+  it('should ignore bot comments and comments without commands', async () => {
+    const { commentCommandService } = await import('../src/services/commentCommandService.js');
+
+    expect(await commentCommandService.handle({ ...base, author: 'maintainer', body: 'looks good' })).toBeNull();
+    expect(await commentCommandService.handle({ ...base, author: 'app[bot]', authorType: 'Bot', body: '@ai-bot run' })).toBeNull();
+    expect(processCommand).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { ContextWindowManager, relativeImports } from '../src/ai/contextWindowManager.js';
+
+const file = (path: string, content: string) => ({ path, content });
+const sized = (path: string, tokens: number, header = '') =>
+  file(path, header + 'const x = 1;\n'.repeat(Math.floor((tokens * 4 - header.length) / 13)));
+
+describe('Context Packing', () => {
+  it('should resolve relative imports to module keys', () => {
+    const imports = relativeImports(file('src/ai/loop.ts', [
+      "import { a } from './util.js';",
+      "import type { B } from '../types';",
+      "export * from './schemas/index.js';",
+      "const c = await import('./lazy.js');",
+      "import pino from 'pino';"
+    ].join('\n')));
+
+    expect(imports).toEqual(['src/ai/util', 'src/types', 'src/ai/schemas', 'src/ai/lazy']);
+  });
+
+  it('should rank task paths, then import neighbours, then similar files', () => {
+    const cwm = new ContextWindowManager();
+    const files = [
+      file('docs/readme.md', 'docs'),
+      file('src/other.ts', 'export const o = 1;'),
+      file('src/helpers.ts', 'export const h = 1;'),
+      file('src/caller.ts', "import { t } from './target.js';"),
+      file('src/target.ts', "import { h } from './helpers.js';")
+    ];
+
+    const ranked = cwm.rankFiles(files, [{ paths: ['src/target.ts'] }], { similarity: { 'src/other.ts': 0.8 } });
+
+    expect(ranked.map(f => [f.path, f.reason])).toEqual([
+      ['src/target.ts', 'task_path'],
+      ['src/helpers.ts', 'import_neighbour'],
+      ['src/caller.ts', 'import_neighbour'],
+      ['src/other.ts', 'similar'],
+      ['docs/readme.md', 'other']
+    ]);
+  });
+
+  it('should fit a large snapshot into the global budget and report what was dropped', () => {
+    const cwm = new ContextWindowManager(10_000, 0.1);
+    const files = [
+      sized('src/target.ts', 5_000),
+      sized('src/small.ts', 300, "import './target.js';\n"),
+      ...Array.from({ length: 50 }, (_, i) => sized(`src/unrelated${i}.ts`, 400))
+    ];
+
+    const { files: packed, report } = cwm.packFiles(files, [{ paths: ['src/target.ts'] }]);
+    const total = packed.reduce((n, f) => n + cwm.estimateTokens(f.path + f.content) + 4, 0);
+
+    expect(total).toBeLessThanOrEqual(report.budgetTokens);
+    expect(report.usedTokens).toBeLessThanOrEqual(report.budgetTokens);
+    expect(packed[0]!.path).toBe('src/target.ts');
+    expect(report.elided[0]).toEqual(expect.objectContaining({ path: 'src/target.ts', tokens: cwm.estimateTokens(files[0]!.content) }));
+    expect(packed[0]!.content).toMatch(/\.\.\. \[\d+ lines elided\] \.\.\./);
+    expect(report.whole).toContain('src/small.ts');
+    expect(report.dropped.length).toBeGreaterThan(30);
+    expect(report.whole.length + report.elided.length + report.dropped.length).toBe(files.length);
+  });
+
+  it('should keep the head and tail of elided files on line boundaries', () => {
+    const cwm = new ContextWindowManager();
+    const content = Array.from({ length: 400 }, (_, i) => `line ${i}`).join('\n');
+
+    const elided = cwm.elide(content, 200);
+
+    expect(cwm.estimateTokens(elided)).toBeLessThanOrEqual(200);
+    expect(elided.startsWith('line 0\nline 1\n')).toBe(true);
+    expect(elided.endsWith('line 399')).toBe(true);
+    expect(elided).toMatch(/\.\.\. \[\d+ lines elided\] \.\.\./);
+  });
+});
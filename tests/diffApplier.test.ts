@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { parseUnifiedDiff } from '../src/git/diffParser.js';
+import { applyParsedDiff, applyHunksToContent } from '../src/git/diffApplier.js';
+import { WorkspaceManager } from '../src/git/workspaceManager.js';
+
+const original = ['import a from "a";', '', 'export function one() {', '  return 1;', '}', '', 'export function two() {', '  return 2;', '}', ''].join('\n');
+
+describe('Diff Applier', () => {
+  let ws: WorkspaceManager;
+
+  beforeEach(async () => {
+    ws = new WorkspaceManager(await fs.mkdtemp(path.join(os.tmpdir(), 'diff-applier-')));
+    await ws.writeFile('src/mod.ts', original);
+  });
+
+  it('should parse hunk header positions', () => {
+    const parsed = parseUnifiedDiff(`diff --git a/x.ts b/x.ts
+--- a/x.ts
++++ b/x.ts
+@@ -3,4 +3,5 @@ export function one() {
+ a
+`);
+    const hunk = parsed.files[0]!.hunks[0]!;
+    expect(hunk.oldStart).toBe(3);
+    expect(hunk.oldLines).toBe(4);
+    expect(hunk.newStart).toBe(3);
+    expect(hunk.newLines).toBe(5);
+  });
+
+  it('should apply a hunk at its exact position', async () => {
+    const parsed = parseUnifiedDiff(`diff --git a/src/mod.ts b/src/mod.ts
+--- a/src/mod.ts
++++ b/src/mod.ts
+@@ -7,3 +7,3 @@
+ export function two() {
+-  return 2;
++  return 22;
+ }
+`);
+    const result = await applyParsedDiff(ws, parsed);
+
+    expect(result.failed).toEqual([]);
+    expect(result.hunkResults[0]).toMatchObject({ applied: true, offset: 0, fuzz: 0 });
+    expect(await ws.readFile('src/mod.ts')).toContain('return 22;');
+  });
+
+  it('should locate hunks that drifted from their header position', () => {
+    const drifted = '// header\n// more header\n' + original;
+    const parsed = parseUnifiedDiff(`diff --git a/src/mod.ts b/src/mod.ts
+@@ -3,3 +3,3 @@
+ export function one() {
+-  return 1;
++  return 11;
+ }
+`);
+    const { content, hunkResults } = applyHunksToContent('src/mod.ts', drifted, parsed.files[0]!.hunks);
+
+    expect(hunkResults[0]).toMatchObject({ applied: true, offset: 2 });
+    expect(content).toContain('return 11;');
+    expect(content.endsWith('\n')).toBe(true);
+  });
+
+  it('should use fuzz when edge context no longer matches', () => {
+    const parsed = parseUnifiedDiff(`diff --git a/src/mod.ts b/src/mod.ts
+@@ -7,3 +7,3 @@
+ export function three() {
+-  return 2;
++  return 3;
+ }
+`);
+    const strict = applyHunksToContent('src/mod.ts', original, parsed.files[0]!.hunks, { fuzz: 0, threeWay: false });
+    const fuzzy = applyHunksToContent('src/mod.ts', original, parsed.files[0]!.hunks, { fuzz: 1 });
+
+    expect(strict.hunkResults[0]).toMatchObject({ applied: false, reason: 'context_mismatch' });
+    expect(fuzzy.hunkResults[0]).toMatchObject({ applied: true, fuzz: 1 });
+    expect(fuzzy.content).toContain('return 3;');
+  });
+
+  it('should report per-hunk failures and leave files untouched', async () => {
+    const parsed = parseUnifiedDiff(`diff --git a/src/mod.ts b/src/mod.ts
+@@ -3,3 +3,3 @@
+ export function one() {
+-  return 1;
++  return 11;
+ }
+@@ -7,3 +7,3 @@
+ export function missing() {
+-  return 404;
++  return 200;
+ }
+`);
+    const result = await applyParsedDiff(ws, parsed, { fuzz: 0 });
+
+    expect(result.failed).toEqual(['src/mod.ts']);
+    expect(result.hunkResults.map(h => h.applied)).toEqual([true, false]);
+    expect(await ws.readFile('src/mod.ts')).toBe(original);
+  });
+
+  it('should create, delete and rename files', async () => {
+    await ws.writeFile('old.txt', 'bye\n');
+    await ws.writeFile('from.txt', 'keep\nchange\n');
+    const parsed = parseUnifiedDiff(`diff --git a/new.sh b/new.sh
+new file mode 100755
+--- /dev/null
++++ b/new.sh
+@@ -0,0 +1,2 @@
++#!/bin/sh
++echo hi
+diff --git a/old.txt b/old.txt
+deleted file mode 100644
+--- a/old.txt
++++ /dev/null
+@@ -1 +0,0 @@
+-bye
+diff --git a/from.txt b/to.txt
+similarity index 50%
+rename from from.txt
+rename to to.txt
+--- a/from.txt
++++ b/to.txt
+@@ -1,2 +1,2 @@
+ keep
+-change
++changed
+`);
+    const result = await applyParsedDiff(ws, parsed);
+
+    expect(result.failed).toEqual([]);
+    expect(await ws.readFile('new.sh')).toBe('#!/bin/sh\necho hi\n');
+    expect((await fs.stat(path.join(ws.root, 'new.sh'))).mode & 0o777).toBe(0o755);
+    expect(await ws.exists('old.txt')).toBe(false);
+    expect(await ws.exists('from.txt')).toBe(false);
+    expect(await ws.readFile('to.txt')).toBe('keep\nchanged\n');
+  });
+
+  it('should three-way merge hunks whose context moved on the branch', () => {
+    const branch = original.replace('\nexport function two() {', '\n/** Second. */\nexport function two() {');
+    const parsed = parseUnifiedDiff(`diff --git a/src/mod.ts b/src/mod.ts
+@@ -5,5 +5,5 @@
+ }
+ 
+ export function two() {
+-  return 2;
++  return 22;
+ }
+`);
+    const { content, hunkResults } = applyHunksToContent('src/mod.ts', branch, parsed.files[0]!.hunks, { fuzz: 0 });
+
+    expect(hunkResults[0]).toMatchObject({ applied: true, merged: true, conflicts: 0 });
+    expect(content).toContain('/** Second. */\nexport function two() {\n  return 22;\n}');
+  });
+
+  it('should hand merge conflicts to the resolver', async () => {
+    await ws.writeFile('src/mod.ts', original.replace('  return 2;', '  return 2.5;'));
+    const parsed = parseUnifiedDiff(`diff --git a/src/mod.ts b/src/mod.ts
+@@ -7,3 +7,3 @@
+ export function two() {
+-  return 2;
++  return 22;
+ }
+`);
+    const unresolved = await applyParsedDiff(ws, parsed, { fuzz: 0 });
+    expect(unresolved.failed).toEqual(['src/mod.ts']);
+    expect(unresolved.hunkResults[0]).toMatchObject({ applied: false, reason: 'merge_conflict', conflicts: 1 });
+
+    const seen: string[] = [];
+    const resolved = await applyParsedDiff(ws, parsed, {
+      fuzz: 0,
+      resolveConflicts: async (_file, content) => {
+        seen.push(content);
+        return content.replace(/<<<<<<< [\s\S]*?>>>>>>> agent-patch/, '  return 22;');
+      }
+    });
+
+    expect(seen[0]).toContain('||||||| patch-base\n  return 2;\n=======\n  return 22;');
+    expect(resolved.failed).toEqual([]);
+    expect(resolved.hunkResults[0]).toMatchObject({ applied: true, reason: 'merge_conflict_resolved' });
+    expect(await ws.readFile('src/mod.ts')).toContain('  return 22;');
+  });
+
+  it('should reject paths outside the workspace', async () => {
+    const parsed = parseUnifiedDiff(`diff --git a/../evil.txt b/../evil.txt
+new file mode 100644
+@@ -0,0 +1 @@
++pwned
+`);
+    const result = await applyParsedDiff(ws, parsed);
+
+    expect(result.failed).toEqual(['../evil.txt']);
+    expect(result.hunkResults[0]).toMatchObject({ applied: false, reason: 'path_outside_workspace' });
+  });
+});
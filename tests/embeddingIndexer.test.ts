@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  rows: [] as any[],
+  status: {} as any
+}));
+
+vi.mock('../src/octokit.js', () => ({
+  getInstallationOctokit: async () => ({ rest: { repos: { get: async () => ({ data: { default_branch: 'main' } }) } } })
+}));
+
+vi.mock('../src/storage/prisma.js', () => {
+  const matches = (row: any, where: any) => Object.entries(where).every(([k, v]: [string, any]) => {
+    if (v && typeof v === 'object' && 'in' in v) return v.in.includes(row[k]);
+    if (v && typeof v === 'object' && 'gte' in v) return row[k] >= v.gte;
+    return row[k] === v;
+  });
+  return {
+    prisma: {
+      fileEmbedding: {
+        findMany: async ({ where }: any) => db.rows.filter(r => matches(r, where)),
+        deleteMany: async ({ where }: any) => { db.rows = db.rows.filter(r => !matches(r, where)); },
+        upsert: async ({ where, create, update }: any) => {
+          const key = where.installationId_owner_repo_path_chunk;
+          const row = db.rows.find(r => matches(r, key));
+          if (row) Object.assign(row, update);
+          else db.rows.push({ ...create });
+          return { id: row?.id ?? create.id };
+        }
+      },
+      repoIndexStatus: {
+        upsert: async ({ create, update }: any) => { db.status = { ...create, ...db.status, ...update }; }
+      }
+    }
+  };
+});
+
+describe('Embedding Indexer', () => {
+  const tree = new Map<string, { sha: string; content: string }>();
+  const files = {
+    getTree: async () => ({
+      commitSha: 'c0ffee1234',
+      blobs: [...tree].map(([path, b]) => ({ path, type: 'blob' as const, size: b.content.length, sha: b.sha }))
+    }),
+    getBlobContent: vi.fn(async (_i: string, _o: string, _r: string, sha: string) => [...tree.values()].find(b => b.sha === sha)!.content)
+  };
+  const embedText = vi.fn(async (text: string) => [text.length, 1]);
+  const embeddings = { modelTag: () => 'test-model', embedText };
+  const store = { backend: 'bruteforce', query: vi.fn(), index: vi.fn(async () => {}) };
+  const job = { installationId: 1, owner: 'acme', repo: 'app', branch: 'main', reason: 'push' as const };
+
+  beforeEach(() => {
+    db.rows = [];
+    db.status = {};
+    tree.clear();
+    files.getBlobContent.mockClear();
+    embedText.mockClear();
+  });
+
+  it('should chunk long modules at declaration boundaries', async () => {
+    const { chunkFile } = await import('../src/services/embeddingIndexer.js');
+    const fn = (name: string, body: number) => [`export function ${name}() {`, ...Array(body).fill('  work();'), '}'];
+    const source = ["import x from './x.js';", ...fn('alpha', 30), ...fn('beta', 30), ...fn('gamma', 80)].join('\n');
+
+    const chunks = chunkFile('src/mod.ts', source, 70);
+
+    expect(chunks.map(c => c.symbol)).toEqual(['alpha,beta', 'gamma', 'gamma']);
+    expect(chunks[0]).toMatchObject({ startLine: 1, endLine: 65 });
+    expect(chunks[1]!.text.startsWith('export function gamma()')).toBe(true);
+    expect(chunkFile('notes.md', 'short', 70)).toHaveLength(1);
+  });
+
+  it('should only re-embed changed blobs and drop deleted files', async () => {
+    const { EmbeddingIndexer } = await import('../src/services/embeddingIndexer.js');
+    const indexer = new EmbeddingIndexer(files as any, embeddings as any, store as any);
+    tree.set('src/a.ts', { sha: 'a1', content: 'export const a = 1;' });
+    tree.set('src/b.ts', { sha: 'b1', content: 'export const b = 1;' });
+    tree.set('assets/logo.png', { sha: 'p1', content: 'PNG' });
+
+    const first = await indexer.indexRepository(job);
+    expect(first).toMatchObject({ totalFiles: 2, embeddedFiles: 2, removedFiles: 0 });
+    expect(db.rows.map(r => [r.path, r.blobSha, r.model])).toEqual([['src/a.ts', 'a1', 'test-model'], ['src/b.ts', 'b1', 'test-model']]);
+    expect(store.index).toHaveBeenCalledWith('file', '1:acme/app:src/a.ts#0', expect.any(Array));
+
+    tree.set('src/b.ts', { sha: 'b2', content: 'export const b = 2;' });
+    tree.delete('src/a.ts');
+    files.getBlobContent.mockClear();
+
+    const second = await indexer.indexRepository(job);
+    expect(second).toMatchObject({ embeddedFiles: 1, unchangedFiles: 0, removedFiles: 1 });
+    expect(files.getBlobContent).toHaveBeenCalledTimes(1);
+    expect(db.rows.map(r => [r.path, r.blobSha])).toEqual([['src/b.ts', 'b2']]);
+    expect(db.status).toMatchObject({ status: 'ready', commitSha: 'c0ffee1234', totalFiles: 1, processedFiles: 1, removedFiles: 1 });
+
+    await indexer.indexRepository(job);
+    expect(files.getBlobContent).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not download unchanged binary files again', async () => {
+    const { EmbeddingIndexer } = await import('../src/services/embeddingIndexer.js');
+    const indexer = new EmbeddingIndexer(files as any, embeddings as any, store as any);
+    tree.set('src/blob.ts', { sha: 'x1', content: 'bin\u0000ary' });
+
+    expect(await indexer.indexRepository(job)).toMatchObject({ embeddedFiles: 1 });
+    expect(db.rows).toEqual([expect.objectContaining({ path: 'src/blob.ts', chunk: 0, blobSha: 'x1', vector: [] })]);
+    expect(embedText).not.toHaveBeenCalled();
+
+    files.getBlobContent.mockClear();
+    expect(await indexer.indexRepository(job)).toMatchObject({ embeddedFiles: 0, unchangedFiles: 1 });
+    expect(files.getBlobContent).not.toHaveBeenCalled();
+  });
+
+  it('should record failures in the status row', async () => {
+    const { EmbeddingIndexer } = await import('../src/services/embeddingIndexer.js');
+    const indexer = new EmbeddingIndexer({ ...files, getTree: async () => { throw new Error('Not Found'); } } as any, embeddings as any, store as any);
+
+    await expect(indexer.indexRepository(job)).rejects.toThrow('Not Found');
+    expect(db.status).toMatchObject({ status: 'failed', error: 'Error: Not Found' });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { LocalEmbedder, codeTokens } from '../src/services/localEmbedder.js';
+
+const cosine = (a: number[], b: number[]) => a.reduce((s, v, i) => s + v * b[i]!, 0);
+
+describe('Local Embedder', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('should split code identifiers into subwords', () => {
+    expect(codeTokens('parseHTTPResponse_v2(x)')).toEqual(['parsehttpresponse_v2', 'parse', 'http', 'response', 'v2', 'x']);
+  });
+
+  it('should produce deterministic unit vectors tagged with their model', () => {
+    const embedder = new LocalEmbedder(256);
+    const a = embedder.embed('export function retryRequest(opts) { return backoff(opts); }');
+
+    expect(a).toHaveLength(256);
+    expect(new LocalEmbedder(256).embed('export function retryRequest(opts) { return backoff(opts); }')).toEqual(a);
+    expect(cosine(a, a)).toBeCloseTo(1);
+    expect(embedder.model).toBe('hash-v1-256');
+  });
+
+  it('should rank code about the same identifiers as more similar', () => {
+    const embedder = new LocalEmbedder();
+    const query = embedder.embed('add exponential backoff to retryRequest');
+    const retry = embedder.embed('export async function retryRequest(fn, attempts) { const backoffMs = 2 ** attempts; }');
+    const unrelated = embedder.embed('export function renderMarkdownTable(rows) { return rows.map(r => r.join("|")); }');
+
+    expect(cosine(query, retry)).toBeGreaterThan(cosine(query, unrelated) + 0.1);
+  });
+
+  it('should back EmbeddingService and MemoryStore without network access', async () => {
+    vi.stubEnv('EMBEDDINGS_PROVIDER', 'local');
+    vi.stubEnv('EMBEDDINGS_DIMENSIONS', '');
+    const { embeddingService } = await import('../src/services/embeddingService.js');
+    const { MemoryStore } = await import('../src/ai/memoryStore.js');
+
+    expect(embeddingService.modelTag()).toBe('local:hash-v1-384');
+
+    const store = new MemoryStore();
+    const item = await store.add('technical', 'retryRequest uses exponential backoff between attempts');
+    await store.add('technical', 'renderMarkdownTable joins cells with pipes');
+    await embeddingService.importEmbeddings([{ id: 'foreign', vector: item.vector!, model: 'openai:text-embedding-3-small', metadata: {}, text: 'x', timestamp: new Date() }]);
+
+    const results = await embeddingService.findSimilar('retryRequest exponential backoff attempts', 5, 0.3);
+    expect(results.map(r => r.id)).not.toContain('foreign');
+
+    const found = await store.search('retryRequest exponential backoff attempts', 1);
+    expect(found.map(i => i.id)).toEqual([item.id]);
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import { parsePlanOutput, parseEvaluationOutput, StructuredOutputError } from '../src/ai/outputSchemas.js';
+import { extractPlanTasks } from '../src/util/planParser.js';
+import { ChatProvider, ChatMessage } from '../src/providers/chatProvider.js';
+import { cfg } from '../src/config.js';
+
+const wrap = (body: string) => `${cfg.planMarkers.start}\n${body}\n${cfg.planMarkers.end}`;
+
+class ScriptedChat extends ChatProvider {
+  calls: ChatMessage[][] = [];
+  constructor(private replies: string[]) { super('m'); }
+  name() { return 'scripted'; }
+  protected async complete(messages: ChatMessage[]) {
+    this.calls.push(messages);
+    return { text: this.replies[Math.min(this.calls.length - 1, this.replies.length - 1)]! };
+  }
+}
+
+const evalCtx = { issueTitle: 't', issueBody: 'b', currentTasks: [], completedTaskIds: [], repoFiles: [], recentCommitsMeta: [], planVersion: 1 };
+
+describe('Structured Outputs', () => {
+  it('should validate plans and report why they are unusable', () => {
+    const ok = parsePlanOutput(wrap('tasks:\n  - id: 1\n    title: Add endpoint\n    paths: [src/api.ts]\n    riskScore: 0.4'));
+    expect(ok).toEqual({ ok: true, value: [{ id: '1', title: 'Add endpoint', type: 'code', paths: ['src/api.ts'], riskScore: 0.4, dependsOn: [] }] });
+
+    expect(parsePlanOutput('tasks: []')).toMatchObject({ ok: false, error: expect.stringContaining('wrapped in') });
+    expect(parsePlanOutput(wrap('tasks: [oops'))).toMatchObject({ ok: false, error: expect.stringContaining('invalid YAML') });
+    expect(parsePlanOutput(wrap('tasks: []'))).toMatchObject({ ok: false, error: expect.stringContaining('at least one task') });
+    expect(parsePlanOutput(wrap('tasks:\n  - id: T1\n    title: A\n  - id: T1\n    title: B'))).toMatchObject({ ok: false, error: expect.stringContaining('duplicate task id T1') });
+    expect(() => extractPlanTasks(wrap('tasks:\n  - id: T1'))).toThrow(StructuredOutputError);
+  });
+
+  it('should accept fenced JSON and reject out-of-range evaluations', () => {
+    const fenced = '```json\n{"coverageScore": 0.6, "rationale": "half", "stopRecommended": false}\n```';
+    expect(parseEvaluationOutput(fenced)).toMatchObject({ ok: true, value: { coverageScore: 0.6 } });
+    expect(parseEvaluationOutput('{"coverageScore": 80, "rationale": "x", "stopRecommended": false}')).toMatchObject({ ok: false, error: expect.stringContaining('coverageScore') });
+    expect(parseEvaluationOutput('I think it is fine')).toMatchObject({ ok: false, error: expect.stringContaining('not valid JSON') });
+    const repeated = '{"coverageScore": 0.5, "rationale": "x", "stopRecommended": false, "newTasks": [{"id": "E1", "title": "a"}, {"id": "E1", "title": "b"}]}';
+    expect(parseEvaluationOutput(repeated)).toMatchObject({ ok: false, error: expect.stringContaining('duplicate task id E1') });
+  });
+
+  it('should re-prompt with the validation error until the output parses', async () => {
+    const provider = new ScriptedChat(['coverage is good', '{"coverageScore": 0.9, "rationale": "done", "stopRecommended": true}']);
+
+    const result = await provider.evaluateAndSuggest(evalCtx);
+
+    expect(result).toEqual({ coverageScore: 0.9, rationale: 'done', stopRecommended: true });
+    expect(provider.calls).toHaveLength(2);
+    const repair = provider.calls[1]!;
+    expect(repair.at(-2)).toEqual({ role: 'assistant', content: 'coverage is good' });
+    expect(repair.at(-1)!.content).toContain('not valid JSON');
+  });
+
+  it('should give up with a StructuredOutputError instead of guessing', async () => {
+    const provider = new ScriptedChat(['no idea']);
+
+    const error = await provider.evaluateAndSuggest(evalCtx).catch(e => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.kind).toBe('evaluation');
+    expect(error.attempts).toBe(1 + cfg.llm.repairAttempts);
+    expect(provider.calls).toHaveLength(1 + cfg.llm.repairAttempts);
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { matchesPathPattern, ownersFor, parseCodeowners } from '../src/util/codeowners.js';
+import { approvalReasons, PlanApprovalService } from '../src/services/planApprovalService.js';
+import { cfg } from '../src/config.js';
+
+const db = vi.hoisted(() => ({ agent: {} as any, reviews: [] as any[], comments: [] as string[] }));
+
+vi.mock('../src/octokit.js', () => ({
+  getInstallationOctokit: async () => ({ rest: { issues: { createComment: async ({ body }: any) => { db.comments.push(body); } } } })
+}));
+
+vi.mock('../src/services/repoFileService.js', () => ({
+  repoFileService: {
+    getConfigFiles: async () => ({}),
+    getSpecificFiles: async () => [{ path: '.github/CODEOWNERS', content: '* @acme/core\n/.github/ @acme/platform # CI\n' }]
+  }
+}));
+
+vi.mock('../src/storage/prisma.js', () => ({
+  prisma: {
+    issueAgent: {
+      findUnique: async () => db.agent,
+      update: async ({ data }: any) => Object.assign(db.agent, data)
+    },
+    stakeholderReview: {
+      findFirst: async () => [...db.reviews].sort((a, b) => b.planVersion - a.planVersion)[0] ?? null,
+      update: async ({ where, data }: any) => Object.assign(db.reviews.find(r => r.id === where.id), data),
+      updateMany: async ({ where, data }: any) => db.reviews.filter(r => where.status.in.includes(r.status)).forEach(r => Object.assign(r, data))
+    }
+  }
+}));
+
+const task = (id: string, paths: string[], riskScore = 0.3) => ({ id, title: `Task ${id}`, type: 'code', paths, riskScore });
+const options = { enabled: true, riskThreshold: 0.7, maxTasks: 3, protectedPaths: ['.github/', 'package.json'], approvers: [], minApprovals: 2 };
+
+// `outsider` may not run `approve` at all; `dev` may, but is not one of the required owners
+const authorizer = {
+  authorize: async (request: any) => request.author === 'outsider'
+    ? { allowed: false, command: request.command, reason: 'requires write permission' }
+    : { allowed: true, command: request.command },
+  isOwner: async (request: any) => request.author !== 'dev'
+};
+const planning = {
+  initiateStakeholderReview: async (agentId: string, planVersion: number, approvers: string[]) => {
+    db.reviews.push({ id: `${agentId}-v${planVersion}`, agentId, planVersion, status: 'pending', requiredApprovers: JSON.stringify(approvers), approvedBy: '[]' });
+  }
+};
+
+describe('Codeowners', () => {
+  it('should match paths the way GitHub does', () => {
+    expect(matchesPathPattern('.github/workflows/ci.yml', '.github/')).toBe(true);
+    expect(matchesPathPattern('src/.github/x', '/.github/')).toBe(false);
+    expect(matchesPathPattern('docs/a.md', 'docs/*')).toBe(true);
+    expect(matchesPathPattern('docs/api/a.md', 'docs/*')).toBe(false);
+    expect(matchesPathPattern('packages/web/package.json', 'package.json')).toBe(true);
+    expect(matchesPathPattern('src/a/b/c.ts', 'src/**/*.ts')).toBe(true);
+
+    const rules = parseCodeowners('# owners\n* @acme/core\n/.github/ @acme/platform @ops\n');
+    expect(ownersFor(rules, '.github/workflows/ci.yml')).toEqual(['@acme/platform', '@ops']);
+    expect(ownersFor(rules, 'src/index.ts')).toEqual(['@acme/core']);
+  });
+});
+
+describe('Plan Approval', () => {
+  beforeEach(() => {
+    db.agent = { id: 'agent1', installationId: 1n, owner: 'acme', repo: 'app', issueNumber: 7, phase: 'planning', blocked: false };
+    db.reviews = [];
+    db.comments = [];
+    cfg.approval.minApprovals = 2;
+    cfg.approval.approvers = [];
+  });
+
+  it('should list every trigger a plan trips', () => {
+    expect(approvalReasons([task('T1', ['src/a.ts'])], options)).toEqual([]);
+    expect(approvalReasons([task('T1', ['src/a.ts'], 0.8), task('T2', ['.github/workflows/ci.yml']), task('T3', []), task('T4', [])], options)).toEqual([
+      '1 task(s) at or above risk 0.7 (T1)',
+      '4 tasks (more than 3)',
+      'touches protected paths: .github/workflows/ci.yml'
+    ]);
+  });
+
+  it('should hold a protected-path plan until enough eligible approvals arrive', async () => {
+    const service = new PlanApprovalService(authorizer as any, planning as any);
+
+    const gate = await service.gate(db.agent, 2, [task('T1', ['.github/workflows/ci.yml'])]);
+
+    expect(gate).toMatchObject({ required: true, approvers: ['@acme/platform'] });
+    expect(db.agent).toMatchObject({ phase: 'awaiting_approval', blocked: true });
+    expect(await service.awaitingApproval('agent1')).toBe(true);
+
+    expect(await service.decide({ agentId: 'agent1', author: 'outsider', decision: 'approve', via: 'dashboard' })).toMatchObject({ status: 'not_eligible', reason: 'requires write permission' });
+    expect(await service.decide({ agentId: 'agent1', author: 'dev', decision: 'approve', via: 'review' })).toMatchObject({ status: 'not_eligible' });
+    expect(await service.decide({ agentId: 'agent1', author: 'Alice', decision: 'approve', via: 'review' })).toMatchObject({ status: 'pending', approvedBy: ['alice'] });
+    // The same approver twice still counts once
+    expect(await service.decide({ agentId: 'agent1', author: 'alice', decision: 'approve', via: 'comment' }, { authorized: true })).toMatchObject({ status: 'pending' });
+
+    expect(await service.decide({ agentId: 'agent1', author: 'bob', decision: 'approve', via: 'comment' }, { authorized: true })).toEqual({ status: 'approved', approvedBy: ['alice', 'bob'], needed: 2 });
+    expect(db.agent).toMatchObject({ phase: 'executing', blocked: false });
+    expect(await service.awaitingApproval('agent1')).toBe(false);
+  });
+
+  it('should park rejected plans and release them when a replan needs no approval', async () => {
+    const service = new PlanApprovalService(authorizer as any, planning as any);
+    await service.gate(db.agent, 1, [task('T1', ['package.json'])]);
+
+    expect(await service.decide({ agentId: 'agent1', author: 'alice', decision: 'reject', via: 'review', reason: 'too broad' })).toMatchObject({ status: 'rejected', reason: 'too broad' });
+    expect(db.agent.phase).toBe('plan_rejected');
+    expect(await service.awaitingApproval('agent1')).toBe(true);
+
+    expect(await service.gate(db.agent, 2, [task('T1', ['src/a.ts'])])).toMatchObject({ required: false });
+    expect(await service.awaitingApproval('agent1')).toBe(false);
+  });
+
+  it('should only gate the added or changed tasks of an approved plan', async () => {
+    const service = new PlanApprovalService(authorizer as any, planning as any);
+    const row = (externalId: string, paths: string[], status = 'pending') => ({ externalId, title: `Task ${externalId}`, type: 'code', paths, riskScore: 0.3, dependsOn: [], status });
+    db.agent.planVersion = 3;
+    db.agent.tasks = [row('T1', ['package.json']), row('T2', ['src/a.ts']), row('E1', ['src/b.ts'])];
+    db.reviews.push({ id: 'agent1-v2', agentId: 'agent1', planVersion: 2, status: 'approved', requiredApprovers: '[]', approvedBy: '["alice","bob"]' });
+
+    // T1 touched package.json but was approved with v2
+    expect(await service.gateRevision('agent1', ['E1'])).toMatchObject({ required: false });
+    expect(db.comments).toEqual([]);
+
+    db.agent.planVersion = 4;
+    db.agent.tasks.push(row('E2', ['.github/workflows/ci.yml']));
+    expect(await service.gateRevision('agent1', ['E2'])).toMatchObject({ required: true, reasons: ['touches protected paths: .github/workflows/ci.yml'] });
+    expect(db.agent).toMatchObject({ phase: 'awaiting_approval', blocked: true });
+    expect(db.comments[0]).toContain('Plan v4 changed and needs 2 approval(s) from @acme/platform');
+  });
+});
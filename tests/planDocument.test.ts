@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseChecklist, reconcilePlan, renderPlanDocument } from '../src/util/planDocument.js';
+import { parsePlanOutput } from '../src/ai/outputSchemas.js';
+import { cfg } from '../src/config.js';
+
+const db = vi.hoisted(() => ({ agent: {} as any, tasks: [] as any[], comments: [] as string[], files: [] as string[], bodies: [] as string[], activity: [] as any[] }));
+
+vi.mock('../src/octokit.js', () => ({
+  getInstallationOctokit: async () => ({
+    rest: {
+      git: { getRef: async () => ({ data: { object: { sha: 'base' } } }) },
+      repos: {
+        getContent: async () => { throw Object.assign(new Error('Not Found'), { status: 404 }); },
+        createOrUpdateFileContents: async ({ content }: any) => {
+          db.files.push(Buffer.from(content, 'base64').toString('utf8'));
+          return { data: { commit: { sha: `plan${db.files.length}` } } };
+        }
+      },
+      pulls: { update: async ({ body }: any) => { db.bodies.push(body); } },
+      issues: { createComment: async ({ body }: any) => { db.comments.push(body); } }
+    }
+  })
+}));
+
+vi.mock('../src/storage/prisma.js', () => ({
+  prisma: {
+    issueAgent: {
+      findUnique: async () => ({ ...db.agent, tasks: db.tasks.map(t => ({ ...t })) }),
+      findFirst: async () => db.agent,
+      update: async ({ data }: any) => Object.assign(db.agent, data)
+    },
+    task: {
+      create: async ({ data }: any) => db.tasks.push({ ...data }),
+      update: async ({ where, data }: any) => Object.assign(db.tasks.find(t => t.id === where.id), data),
+      deleteMany: async ({ where }: any) => { db.tasks = db.tasks.filter(t => !where.id.in.includes(t.id)); },
+      findMany: async () => db.tasks
+    },
+    activityLog: { create: async ({ data }: any) => db.activity.push(data) },
+    stakeholderReview: {
+      findFirst: async () => null,
+      updateMany: async () => ({ count: 0 })
+    }
+  }
+}));
+
+const row = (externalId: string, status: string, orderIndex: number, extra: Record<string, unknown> = {}) => ({
+  id: `agent1_${externalId}`, externalId, title: `Task ${externalId}`, type: 'code', paths: [`src/${externalId}.ts`],
+  acceptance: null, riskScore: 0.3, dependsOn: [] as string[], status, orderIndex, ...extra
+});
+
+const plan = { issueNumber: 7, issueTitle: 'Add retries', version: 2 };
+
+describe('Plan Document', () => {
+  it('should render a checklist with a details block that parses back unchanged', () => {
+    const rows = [row('T1', 'verified', 0), row('T2', 'failed', 1, { dependsOn: ['T1'], acceptance: 'src/T2.ts exists' }), row('T3', 'pending', 2)];
+    const doc = renderPlanDocument(plan, rows);
+
+    expect(doc).toContain('# Plan v2 for #7: Add retries');
+    expect(doc).toContain('- [x] `T1` Task T1\n- [ ] `T2` Task T2 — after T1 _(failed)_\n- [ ] `T3` Task T3');
+    expect(parseChecklist(doc)).toEqual([
+      { id: 'T1', title: 'Task T1', done: true },
+      { id: 'T2', title: 'Task T2', done: false },
+      { id: 'T3', title: 'Task T3', done: false }
+    ]);
+    expect(reconcilePlan(rows, doc)).toEqual({ ok: true, value: { create: [], update: [], remove: [] } });
+  });
+
+  it('should accept a fenced YAML block between the plan markers', () => {
+    const raw = `${cfg.planMarkers.start}\n\`\`\`yaml\ntasks:\n  - id: T1\n    title: Code\n\`\`\`\n${cfg.planMarkers.end}`;
+    expect(parsePlanOutput(raw)).toMatchObject({ ok: true, value: [{ id: 'T1', title: 'Code' }] });
+  });
+
+  it('should turn checklist and detail edits into task changes', () => {
+    const rows = [row('T1', 'verified', 0), row('T2', 'pending', 1, { dependsOn: ['T1'] }), row('T3', 'pending', 2), row('H1', 'in_progress', 3)];
+    const edited = renderPlanDocument(plan, rows)
+      .replace('- [x] `T1` Task T1\n- [ ] `T2` Task T2 — after T1\n- [ ] `T3` Task T3\n', '- [ ] `T3` Task T3 renamed\n- [x] `T2` Task T2 — after T1\n- [ ] Write the changelog\n')
+      .replace('    paths:\n      - src/T3.ts', '    paths:\n      - src/retry.ts');
+
+    const result = reconcilePlan(rows, edited);
+
+    expect(result.ok).toBe(true);
+    const { create, update, remove } = (result as any).value;
+    // T1 left the checklist; H1 is being worked on, so it stays; the new item avoids H1's id
+    expect(remove).toEqual(['T1']);
+    expect(create).toEqual([{ id: 'H2', title: 'Write the changelog', type: 'code', paths: [], acceptance: undefined, riskScore: 0.3, dependsOn: [], status: 'pending', orderIndex: 2 }]);
+    expect(update).toEqual([
+      { externalId: 'T3', data: expect.objectContaining({ title: 'Task T3 renamed', paths: ['src/retry.ts'], status: 'pending', orderIndex: 0 }) },
+      { externalId: 'T2', data: expect.objectContaining({ status: 'verified', dependsOn: [], orderIndex: 1 }) }
+    ]);
+  });
+
+  it('should reopen unticked tasks and reject unschedulable edits', () => {
+    const rows = [row('T1', 'verified', 0), row('T2', 'pending', 1)];
+    const doc = renderPlanDocument(plan, rows);
+
+    const reopened = reconcilePlan(rows, doc.replace('- [x] `T1`', '- [ ] `T1`'));
+    expect(reopened).toMatchObject({ ok: true, value: { update: [{ externalId: 'T1', data: { status: 'pending', attempts: 0 } }] } });
+
+    const cyclic = doc.replace('  - id: T1\n', '  - id: T1\n    dependsOn: [T2]\n').replace('  - id: T2\n', '  - id: T2\n    dependsOn: [T1]\n');
+    expect(reconcilePlan(rows, cyclic)).toEqual({ ok: false, error: 'dependency cycle T1 -> T2 -> T1' });
+    expect(reconcilePlan(rows, doc.replace('`T2`', '`T1`'))).toEqual({ ok: false, error: 'task T1 is listed twice' });
+    expect(reconcilePlan(rows, '# Plan\n\nnothing here')).toEqual({ ok: false, error: 'the plan has no checklist items' });
+  });
+});
+
+describe('Plan Sync', () => {
+  beforeEach(() => {
+    db.agent = { id: 'agent1', installationId: 1n, owner: 'acme', repo: 'app', issueNumber: 7, issueTitle: 'Add retries', branchName: 'ai/issue-7-agent', prNumber: 12, planVersion: 2, planHash: null, planCommitSha: null, iterations: 3, totalTasks: 2, doneTasks: 0, phase: 'executing', completed: false, confidence: 0.5, coverageLines: null };
+    db.tasks = [row('T1', 'pending', 0), row('T2', 'pending', 1)];
+    db.comments = [];
+    db.files = [];
+    db.bodies = [];
+    db.activity = [];
+  });
+
+  it('should publish the plan to the branch and PR, then apply ticks made in the PR body', async () => {
+    const { planSyncService } = await import('../src/services/planSyncService.js');
+
+    expect(await planSyncService.publish('agent1')).toBe('plan1');
+    expect(db.bodies[0]).toContain('Automated implementation of issue #7');
+    // Our own PR body edit comes back through the webhook and is ignored
+    expect(await planSyncService.syncFromPullRequest({ installationId: 1, owner: 'acme', repo: 'app', prNumber: 12, body: db.bodies[0]! })).toBe(false);
+
+    const ticked = db.bodies[0]!.replace('- [ ] `T1`', '- [x] `T1`').replace(/\n/g, '\r\n');
+    expect(await planSyncService.syncFromPullRequest({ installationId: 1, owner: 'acme', repo: 'app', prNumber: 12, body: ticked, sender: 'octocat' })).toBe(true);
+
+    expect(db.tasks.find(t => t.externalId === 'T1').status).toBe('verified');
+    expect(db.activity).toEqual([{ agentId: 'agent1', event: 'task_verified_by_human', details: expect.any(String), success: true }]);
+    expect(JSON.parse(db.activity[0].details)).toEqual({ source: 'pull_request', editor: 'octocat', planVersion: 3, overrides: [{ task: 'T1', from: 'pending' }] });
+    expect(db.agent).toMatchObject({ planVersion: 3, doneTasks: 1, totalTasks: 2, planCommitSha: 'plan2' });
+    expect(db.files[1]).toContain('# Plan v3 for #7');
+    expect(db.files[1]).toContain('- [x] `T1` Task T1');
+  });
+
+  it('should explain rejected edits on the issue and keep the plan', async () => {
+    const { planSyncService } = await import('../src/services/planSyncService.js');
+
+    expect(await planSyncService.applyEdits('agent1', '- [ ] `T1` A\n- [ ] `T1` B\n', 'branch')).toBe(false);
+
+    expect(db.comments[0]).toContain('task T1 is listed twice');
+    expect(db.agent.planVersion).toBe(2);
+  });
+});
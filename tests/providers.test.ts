@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { buildProvider, ProviderConfigError } from '../src/providers/providerFactory.js';
+import { cfg } from '../src/config.js';
+
+interface Captured { url: string; headers: http.IncomingHttpHeaders; body: any }
+
+describe('LLM Provider Adapters', () => {
+  let server: http.Server;
+  let base: string;
+  const requests: Captured[] = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let raw = '';
+      req.on('data', chunk => { raw += chunk; });
+      req.on('end', () => {
+        const body = JSON.parse(raw || '{}');
+        requests.push({ url: req.url!, headers: req.headers, body });
+        res.setHeader('content-type', 'application/json');
+        if (req.url === '/api/chat') {
+          res.end(JSON.stringify({ message: { role: 'assistant', content: 'ollama says hi' } }));
+        } else if (req.url === '/v1/messages') {
+          const text = `${cfg.planMarkers.start}\ntasks:\n  - id: T1\n    title: Messages task\n${cfg.planMarkers.end}`;
+          res.end(JSON.stringify({ content: [{ type: 'text', text: text.slice(0, 20) }, { type: 'text', text: text.slice(20) }] }));
+        } else if (req.url === '/v1/chat/completions' || req.url === '/completion') {
+          res.end(JSON.stringify({ choices: [{ message: { role: 'assistant', content: `NO_CHANGES from ${req.url}` } }] }));
+        } else {
+          res.statusCode = 500;
+          res.end(JSON.stringify({ error: 'boom' }));
+        }
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const patchCtx = {
+    tasks: [{ id: 'T1', title: 'x', type: 'code', paths: ['src/a.ts'] } as any],
+    repoSnapshotFiles: [],
+    guidance: { iteration: 0, confidence: 0.5, maxTasksAllowed: 1 }
+  };
+
+  it('should call a local Ollama-style server', async () => {
+    const provider = buildProvider({ provider: 'ollama', model: 'codellama', endpoint: base });
+
+    const refined = await provider.metaRefinePrompt!('improve this prompt please, it is long enough', 'execution');
+
+    expect(provider.name()).toBe('ollama');
+    expect(refined).toBe('ollama says hi');
+    const req = requests.at(-1)!;
+    expect(req.body).toMatchObject({ model: 'codellama', stream: false });
+    expect(req.body.messages[0].role).toBe('system');
+  });
+
+  it('should call OpenAI-compatible base URLs and generic chat-completions routes', async () => {
+    const compatible = buildProvider({ provider: 'openai-compatible', model: 'qwen', endpoint: `${base}/v1`, apiKeyPlain: 'k1' });
+    const generic = buildProvider({ provider: 'chat-completions', model: 'llama', endpoint: `${base}/completion` });
+
+    expect(await compatible.generatePatch(patchCtx)).toEqual({ diff: '', noChanges: true });
+    expect(requests.at(-1)!.headers.authorization).toBe('Bearer k1');
+    expect(await generic.generatePatch(patchCtx)).toEqual({ diff: '', noChanges: true });
+    expect(requests.at(-1)!.url).toBe('/completion');
+    expect(requests.at(-1)!.headers.authorization).toBeUndefined();
+  });
+
+  it('should send the system prompt separately to messages-style endpoints', async () => {
+    const provider = buildProvider({ provider: 'anthropic', model: 'claude', endpoint: base, apiKeyPlain: 'secret' });
+
+    const plan = await provider.generatePlan({ issueTitle: 't', issueBody: 'b', repoFiles: [], historicalSignals: {} as any });
+
+    expect(plan).toContain('title: Messages task');
+    const req = requests.at(-1)!;
+    expect(req.headers['x-api-key']).toBe('secret');
+    expect(typeof req.body.system).toBe('string');
+    expect(req.body.messages.every((m: any) => m.role !== 'system')).toBe(true);
+  });
+
+  it('should surface HTTP errors and fall back to mock for unusable configs', async () => {
+    const broken = buildProvider({ provider: 'chat-completions', model: 'm', endpoint: `${base}/missing` });
+    await expect(broken.generatePatch(patchCtx)).rejects.toThrow(/500/);
+
+    const fallback = buildProvider({ provider: 'openai-compatible', model: 'm' });
+    expect((await fallback.generatePatch(patchCtx)).diff).toContain('src/a.mock_T1.ts');
+  });
+
+  it('should reject unusable configs when the mock provider is not allowed', () => {
+    cfg.llm.allowMock = false;
+    try {
+      expect(() => buildProvider({ provider: 'openai-compatible', model: 'm' })).toThrow(ProviderConfigError);
+      expect(() => buildProvider({ provider: 'no-such-llm', model: 'm' })).toThrow(/unknown provider/);
+    } finally {
+      cfg.llm.allowMock = true;
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderPullRequestBody, PullRequestBodyInput } from '../src/util/pullRequestBody.js';
+import { cfg } from '../src/config.js';
+
+const db = vi.hoisted(() => ({ agent: {} as any, pr: {} as any, calls: [] as Array<[string, any]> }));
+
+vi.mock('../src/octokit.js', () => ({
+  getInstallationOctokit: async () => ({
+    graphql: async (query: string, vars: any) => { db.calls.push(['graphql', vars]); db.pr.draft = false; },
+    rest: {
+      pulls: {
+        get: async () => ({ data: db.pr }),
+        update: async ({ body }: any) => { db.calls.push(['update', body]); db.pr.body = body; },
+        requestReviewers: async (params: any) => { db.calls.push(['requestReviewers', params]); }
+      }
+    }
+  })
+}));
+
+vi.mock('../src/storage/prisma.js', () => ({
+  prisma: {
+    issueAgent: { findUnique: async () => db.agent },
+    stakeholderReview: { findFirst: async () => ({ requiredApprovers: '["@alice","@acme/platform"]' }) }
+  }
+}));
+
+const iteration = (number: number, extra: Record<string, unknown> = {}) => ({
+  number, executedTasks: [`T${number + 1}`], commitSha: null, success: false, errorMessage: null, revertedAt: null, report: null, ...extra
+});
+
+const input = (extra: Partial<PullRequestBodyInput> = {}): PullRequestBodyInput => ({
+  owner: 'acme', repo: 'app', issueNumber: 7, phase: 'executing', completed: false, confidence: 0.64,
+  tasks: [{ status: 'verified' }, { status: 'pending' }], iterations: [], coverage: null, ...extra
+});
+
+describe('Pull Request Description', () => {
+  it('should log iterations newest first and summarise the latest checks', () => {
+    const body = renderPullRequestBody(input({
+      iterations: [
+        iteration(0, { commitSha: 'abcdef1234567890', success: true, report: {
+          validation: { ok: true, reasons: [], added: 40, deleted: 2, files: 3 },
+          tests: { command: 'npm test', passed: true, durationMs: 12400 },
+          security: { tools: ['semgrep'], findings: 1, blockers: ['Hardcoded secret (src/a.ts:3)'] }
+        } }),
+        iteration(1, { errorMessage: 'tests_failed:2 failed; hunk_failed:src/b.ts#0:context' })
+      ],
+      coverage: { lines: 0.7, branches: 0.5 }
+    }), '# Plan v2\n');
+
+    expect(body).toContain(`Automated implementation of issue #7\n\n**Status:** executing · 1/2 tasks verified · 2 iteration(s) · confidence 64%`);
+    expect(body).toContain(`${cfg.planDocument.mirrorMarkers.start}\n# Plan v2\n\n${cfg.planDocument.mirrorMarkers.end}`);
+    expect(body).toContain('| 2 | T2 | — | ❌ tests_failed:2 failed |\n| 1 | T1 | [`abcdef1`](https://github.com/acme/app/commit/abcdef1234567890) | ✅ |');
+    expect(body).toContain('## Checks (iteration 1)');
+    expect(body).toContain('- **Validation:** ✅ passed (+40/−2 in 3 file(s))');
+    expect(body).toContain('- **Tests:** ✅ `npm test` (12s)');
+    expect(body).toContain('- **Security:** ⚠️ 1 finding(s) from semgrep; blocking: Hardcoded secret (src/a.ts:3)');
+    expect(body).toContain('- **Coverage:** ⚠️ lines 70% (minimum 75%), branches 50%');
+  });
+
+  it('should leave out the log and checks before the first iteration', () => {
+    const body = renderPullRequestBody(input(), '# Plan v1\n');
+    expect(body).not.toContain('## Iterations');
+    expect(body).not.toContain('## Checks');
+  });
+});
+
+describe('Pull Request Updates', () => {
+  beforeEach(() => {
+    db.agent = {
+      id: 'agent1', installationId: 1n, owner: 'acme', repo: 'app', issueNumber: 7, issueTitle: 'Add retries', prNumber: 12,
+      planVersion: 2, phase: 'executing', completed: false, confidence: 0.5, tasks: [], iterationsLog: [],
+      coverageLines: null, coverageStmts: null, coverageBranches: null, coverageFuncs: null
+    };
+    db.pr = { number: 12, node_id: 'PR_12', state: 'open', draft: true, body: 'old' };
+    db.calls = [];
+    cfg.git.reviewers = [];
+  });
+
+  it('should refresh the description without undrafting while the agent is still working', async () => {
+    const { updatePullRequest } = await import('../src/services/prService.js');
+
+    await updatePullRequest('agent1');
+    await updatePullRequest('agent1');
+
+    expect(db.calls.map(c => c[0])).toEqual(['update']);
+    expect(db.pr.draft).toBe(true);
+  });
+
+  it('should mark the PR ready and request the plan approvers at finalization', async () => {
+    const { updatePullRequest } = await import('../src/services/prService.js');
+    db.agent.phase = 'finalizing';
+
+    await updatePullRequest('agent1');
+    await updatePullRequest('agent1');
+
+    expect(db.calls.map(c => c[0])).toEqual(['update', 'graphql', 'requestReviewers']);
+    expect(db.calls[1]![1]).toEqual({ id: 'PR_12' });
+    expect(db.calls[2]![1]).toMatchObject({ pull_number: 12, reviewers: ['alice'], team_reviewers: ['platform'] });
+    expect(db.calls[0]![1]).toContain('**Status:** ready for review');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { ReplayProvider, ReplayMissError } from '../src/providers/replayProvider.js';
+import { buildProvider } from '../src/providers/providerFactory.js';
+import { parseUnifiedDiff } from '../src/git/diffParser.js';
+import { applyParsedDiff } from '../src/git/diffApplier.js';
+import { WorkspaceManager } from '../src/git/workspaceManager.js';
+
+describe('Replay Provider', () => {
+  let dir: string;
+  const patchCtx = {
+    tasks: [{ id: 'T1', title: 'Add helper', type: 'code', paths: ['src/util.ts'] } as any],
+    repoSnapshotFiles: [{ path: 'src/util.ts', content: 'export {}\n' }],
+    guidance: { iteration: 0, confidence: 0.4, maxTasksAllowed: 1 }
+  };
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'replay-'));
+  });
+
+  it('should record responses and replay them without the real provider', async () => {
+    const inner = {
+      name: () => 'fake',
+      generatePlan: vi.fn(async () => 'PLAN'),
+      generatePatch: vi.fn(async () => ({ diff: 'DIFF' }))
+    };
+    const recorder = new ReplayProvider({ mode: 'record', fixtures: dir, inner });
+    expect(await recorder.generatePatch(patchCtx)).toEqual({ diff: 'DIFF' });
+    expect(await recorder.generatePlan({ issueTitle: 't', issueBody: 'b', repoFiles: [], historicalSignals: {} as any })).toBe('PLAN');
+    expect((await fs.readdir(dir)).length).toBe(2);
+
+    const replayer = new ReplayProvider({ mode: 'replay', fixtures: dir });
+    // Same context with a different key order must hit the same fixture
+    const reordered = { guidance: { maxTasksAllowed: 1, confidence: 0.4, iteration: 0 }, repoSnapshotFiles: patchCtx.repoSnapshotFiles, tasks: patchCtx.tasks };
+    expect(await replayer.generatePatch(reordered)).toEqual({ diff: 'DIFF' });
+    expect(inner.generatePatch).toHaveBeenCalledTimes(1);
+
+    await expect(replayer.generatePatch({ ...patchCtx, guidance: { ...patchCtx.guidance, iteration: 1 } })).rejects.toBeInstanceOf(ReplayMissError);
+  });
+
+  it('should play back hand-written scenarios in order', async () => {
+    const scenario = path.join(dir, 'scenario.yml');
+    await fs.writeFile(scenario, [
+      'generatePatch:',
+      '  - { diff: "", noChanges: true }',
+      '  - { diff: "second" }',
+      'evaluateAndSuggest:',
+      '  - { coverageScore: 1, rationale: done, stopRecommended: true }'
+    ].join('\n'));
+    const provider = new ReplayProvider({ mode: 'scripted', fixtures: scenario });
+
+    expect(await provider.generatePatch(patchCtx)).toEqual({ diff: '', noChanges: true });
+    expect(await provider.generatePatch(patchCtx)).toEqual({ diff: 'second' });
+    expect((await provider.evaluateAndSuggest({} as any)).stopRecommended).toBe(true);
+    await expect(provider.generatePatch(patchCtx)).rejects.toThrow(/no generatePatch response #3/);
+  });
+
+  it('should emit mock patches that parse and apply', async () => {
+    const mock = buildProvider({ provider: 'mock', model: 'm' });
+    const { diff } = await mock.generatePatch(patchCtx);
+
+    const parsed = parseUnifiedDiff(diff);
+    const ws = new WorkspaceManager(dir);
+    const { failed } = await applyParsedDiff(ws, parsed);
+
+    expect(failed).toEqual([]);
+    expect(await ws.readFile('src/util.mock_T1.ts')).toBe("export function mock_T1(){return 'ok'}\n");
+    expect((await mock.generatePatch(patchCtx)).diff).toBe(diff);
+  });
+});
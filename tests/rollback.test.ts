@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { runGit } from '../src/util/commandRunner.js';
+import { WorkspaceManager } from '../src/git/workspaceManager.js';
+
+const db = vi.hoisted(() => ({
+  agent: {} as any,
+  tasks: [] as any[],
+  iterations: [] as any[]
+}));
+
+vi.mock('../src/octokit.js', () => ({
+  // Like the app Octokit: the token is only available through the auth hook
+  getInstallationOctokit: async () => ({ auth: async ({ type }: any) => ({ type: 'token', tokenType: type, token: 'ghs_install' }) })
+}));
+
+vi.mock('../src/storage/prisma.js', () => ({
+  prisma: {
+    issueAgent: {
+      findUnique: async () => db.agent,
+      update: async ({ data }: any) => Object.assign(db.agent, data)
+    },
+    iteration: {
+      findMany: async ({ where }: any) => db.iterations
+        .filter(it => (where.success === undefined || it.success === where.success) && it.commitSha && !it.revertedAt)
+        .sort((a, b) => b.number - a.number),
+      update: async ({ where, data }: any) => Object.assign(db.iterations.find(it => it.id === where.id), data)
+    },
+    task: {
+      findMany: async ({ where }: any) => db.tasks.filter(t => where.externalId.in.includes(t.externalId) && t.status === where.status),
+      updateMany: async ({ where, data }: any) => {
+        db.tasks.filter(t => where.externalId.in.includes(t.externalId)).forEach(t => Object.assign(t, data));
+      }
+    }
+  }
+}));
+
+const gitEnv = { GIT_AUTHOR_NAME: 't', GIT_AUTHOR_EMAIL: 't@t', GIT_COMMITTER_NAME: 't', GIT_COMMITTER_EMAIL: 't@t' };
+
+describe('Rollback', () => {
+  const savedEnv = { ...process.env };
+  let origin: string;
+  let work: string;
+  let shas: string[];
+
+  async function commitIteration(file: string, content: string): Promise<string> {
+    await fs.writeFile(path.join(work, file), content);
+    await runGit(['add', '-A'], { cwd: work });
+    await runGit(['commit', '-m', `agent: ${file}`], { cwd: work, env: gitEnv });
+    return (await runGit(['rev-parse', 'HEAD'], { cwd: work })).stdout.trim();
+  }
+
+  beforeEach(async () => {
+    Object.assign(process.env, gitEnv);
+    const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'rollback-'));
+    origin = path.join(tmp, 'origin.git');
+    work = path.join(tmp, 'work');
+    await runGit(['init', '-q', '--bare', origin], { cwd: tmp });
+    await runGit(['clone', '-q', origin, work], { cwd: tmp });
+    await runGit(['checkout', '-q', '-b', 'ai/issue-1-agent'], { cwd: work });
+    await commitIteration('README.md', 'base\n');
+    shas = [await commitIteration('a.txt', 'a\n'), await commitIteration('b.txt', 'b\n'), await commitIteration('c.txt', 'c\n')];
+    await runGit(['push', '-q', 'origin', 'HEAD:refs/heads/ai/issue-1-agent'], { cwd: work });
+
+    db.agent = { id: 'agent1', installationId: 1n, owner: 'acme', repo: 'app', branchName: 'ai/issue-1-agent', doneTasks: 3, totalTasks: 4, confidence: 0.6, completed: false };
+    db.tasks = ['T1', 'T2', 'T3', 'T4'].map(externalId => ({ externalId, status: externalId === 'T4' ? 'pending' : 'verified' }));
+    db.iterations = shas.map((commitSha, i) => ({
+      id: `agent1_iter_${i}`, number: i, commitSha, success: true, deltaConfidence: 0.2, executedTasks: [`T${i + 1}`], revertedAt: null
+    }));
+  });
+
+  afterAll(() => {
+    for (const key of Object.keys(gitEnv)) {
+      if (savedEnv[key] === undefined) delete process.env[key];
+      else process.env[key] = savedEnv[key];
+    }
+  });
+
+  async function service() {
+    const { RollbackService } = await import('../src/services/rollbackService.js');
+    return new RollbackService(async () => new WorkspaceManager(work));
+  }
+
+  it('should revert the latest iteration and rewind progress', async () => {
+    const summary = await (await service()).rollback('agent1');
+
+    expect(summary.ok).toBe(true);
+    expect(summary.reverted.map(r => r.number)).toEqual([2]);
+    await expect(fs.access(path.join(work, 'c.txt'))).rejects.toThrow();
+    expect(await fs.readFile(path.join(work, 'b.txt'), 'utf8')).toBe('b\n');
+    const remote = await runGit(['log', '-1', '--format=%s', 'ai/issue-1-agent'], { cwd: origin });
+    expect(remote.stdout.trim()).toBe(`agent: rollback iteration 2 (${shas[2]!.slice(0, 7)})`);
+    expect(db.tasks.find(t => t.externalId === 'T3').status).toBe('pending');
+    expect(db.agent.doneTasks).toBe(2);
+    expect(db.agent.confidence).toBeCloseTo(0.4);
+    expect(db.iterations[2].revertCommitSha).toBe(summary.reverted[0]!.revertSha);
+  });
+
+  it('should revert every iteration after a sha target', async () => {
+    const summary = await (await service()).rollback('agent1', shas[1]!.slice(0, 8));
+
+    expect(summary.reverted.map(r => r.number)).toEqual([2, 1]);
+    expect(summary.tasksReset.sort()).toEqual(['T2', 'T3']);
+    expect(await fs.readFile(path.join(work, 'a.txt'), 'utf8')).toBe('a\n');
+    await expect(fs.access(path.join(work, 'b.txt'))).rejects.toThrow();
+    expect(db.agent.doneTasks).toBe(1);
+  });
+
+  it('should revert pushed iterations whose tasks failed acceptance', async () => {
+    db.iterations[2].success = false;
+    db.tasks.find(t => t.externalId === 'T3').status = 'pending';
+    db.agent.doneTasks = 2;
+
+    const summary = await (await service()).rollback('agent1', shas[1]!.slice(0, 8));
+
+    expect(summary.reverted.map(r => r.number)).toEqual([2, 1]);
+    await expect(fs.access(path.join(work, 'c.txt'))).rejects.toThrow();
+    await expect(fs.access(path.join(work, 'b.txt'))).rejects.toThrow();
+    expect(db.agent.doneTasks).toBe(1);
+  });
+
+  it('should report unknown targets without touching the branch', async () => {
+    const summary = await (await service()).rollback('agent1', 'agent1_iter_99');
+
+    expect(summary.ok).toBe(false);
+    expect(summary.error).toContain('agent1_iter_99');
+    expect(db.agent.doneTasks).toBe(3);
+  });
+
+  it('should open the agent branch with the installation token', async () => {
+    const ensureWorkspace = vi.spyOn(WorkspaceManager.prototype, 'ensureWorkspace').mockResolvedValue(new WorkspaceManager(work));
+    try {
+      const { RollbackService } = await import('../src/services/rollbackService.js');
+      const summary = await new RollbackService().rollback('agent1');
+
+      expect(summary.ok).toBe(true);
+      expect(ensureWorkspace).toHaveBeenCalledWith(expect.objectContaining({
+        branch: 'ai/issue-1-agent',
+        cloneUrl: 'https://github.com/acme/app.git',
+        installationToken: 'ghs_install'
+      }));
+    } finally {
+      ensureWorkspace.mockRestore();
+    }
+  });
+});
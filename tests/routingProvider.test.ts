@@ -0,0 +1,63 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RoutingProvider } from '../src/providers/routingProvider.js';
+import { buildRoutedProvider } from '../src/services/providerResolver.js';
+import { Provider } from '../src/types.js';
+
+vi.mock('../src/octokit.js', () => ({ getInstallationOctokit: async () => ({}) }));
+
+function fake(name: string, patch: () => Promise<any>, extra: Partial<Provider> = {}): Provider {
+  return {
+    name: () => name,
+    generatePlan: vi.fn(async () => `plan from ${name}`),
+    generatePatch: vi.fn(patch),
+    ...extra
+  };
+}
+
+const patchCtx = { tasks: [], repoSnapshotFiles: [], guidance: { iteration: 0, confidence: 0, maxTasksAllowed: 1 } };
+const validDiff = { diff: 'diff --git a/x b/x\n--- a/x\n+++ b/x\n@@ -1 +1 @@\n-a\n+b\n' };
+
+describe('Routing Provider', () => {
+  it('should route phases to their own provider', async () => {
+    const strong = fake('strong', async () => validDiff);
+    const cheap = fake('cheap', async () => validDiff, { evaluateAndSuggest: vi.fn(async () => ({ coverageScore: 0.5, rationale: 'ok', stopRecommended: false })) });
+    const router = new RoutingProvider({ default: [strong], evaluate: [cheap] });
+
+    await router.generatePatch(patchCtx);
+    await router.evaluateAndSuggest({} as any);
+
+    expect(strong.generatePatch).toHaveBeenCalledTimes(1);
+    expect(cheap.evaluateAndSuggest).toHaveBeenCalledTimes(1);
+    expect(cheap.generatePatch).not.toHaveBeenCalled();
+  });
+
+  it('should fall back on rate limits and malformed output but not on auth errors', async () => {
+    const limited = fake('limited', async () => { throw Object.assign(new Error('slow down'), { status: 429 }); });
+    const garbled = fake('garbled', async () => ({ diff: 'Sure! Here is the change you asked for.' }));
+    const backup = fake('backup', async () => validDiff);
+
+    expect(await new RoutingProvider({ default: [limited, garbled, backup] }).generatePatch(patchCtx)).toEqual(validDiff);
+    expect(backup.generatePatch).toHaveBeenCalledTimes(1);
+
+    const unauthorized = fake('unauthorized', async () => { throw Object.assign(new Error('bad key'), { status: 401 }); });
+    await expect(new RoutingProvider({ default: [unauthorized, backup] }).generatePatch(patchCtx)).rejects.toThrow('bad key');
+    expect(backup.generatePatch).toHaveBeenCalledTimes(1);
+
+    // With no valid answer anywhere the last malformed one is still returned
+    expect((await new RoutingProvider({ default: [garbled] }).generatePatch(patchCtx)).diff).toContain('Sure!');
+  });
+
+  it('should build phase chains from installation routing config', async () => {
+    const router = buildRoutedProvider(
+      { provider: 'mock', model: 'base-model' },
+      { phases: { evaluate: 'cheap-model' }, fallback: [{ provider: 'ollama', model: 'local' }] }
+    );
+
+    expect(router).toBeInstanceOf(RoutingProvider);
+    const chains = (router as any).chains;
+    expect(chains.default.map((p: Provider) => p.name())).toEqual(['openai', 'ollama']);
+    expect(chains.evaluate[0].model).toBe('cheap-model');
+    expect(chains.patch).toBeUndefined();
+    expect(buildRoutedProvider({ provider: 'mock', model: 'm' })).not.toBeInstanceOf(RoutingProvider);
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs/promises';
+import { existsSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { spawnSync } from 'child_process';
+import { cfg } from '../src/config.js';
+import { runGit } from '../src/util/commandRunner.js';
+import { WorkspaceCache } from '../src/git/workspaceCache.js';
+import { CommandTranscript, SandboxRunner, SandboxUnavailableError, sandboxArgv } from '../src/util/sandboxRunner.js';
+
+const hasBwrap = spawnSync('bwrap', ['--ro-bind', '/', '/', 'true']).status === 0;
+
+const limits = { cpuSeconds: 60, memoryBytes: 512 * 1024 * 1024, processes: 64, fileBytes: 1024 * 1024 };
+
+describe('Sandbox Runner', () => {
+  it('should build bubblewrap, rlimit and pass-through argv', () => {
+    const opts = { cwd: '/work/repo', network: false, limits, home: '/work/home' };
+
+    expect(sandboxArgv('off', ['npm', 'test'], opts)).toEqual(['npm', 'test']);
+
+    const rlimit = sandboxArgv('rlimit', ['npm', 'test'], opts);
+    expect(rlimit.slice(0, 2)).toEqual(['bash', '-c']);
+    expect(rlimit[2]).toContain('ulimit -t 60');
+    expect(rlimit[2]).toContain('ulimit -d 524288');
+    // An address-space cap breaks V8's and WebAssembly's reservations
+    expect(rlimit[2]).not.toContain('ulimit -v');
+    expect(rlimit.slice(-2)).toEqual(['npm', 'test']);
+
+    const bwrap = sandboxArgv('bwrap', ['npm', 'test'], opts);
+    expect(bwrap[0]).toBe('bwrap');
+    expect(bwrap).toContain('--unshare-all');
+    expect(bwrap).not.toContain('--share-net');
+    expect(bwrap.join(' ')).toContain('--ro-bind / /');
+    expect(bwrap.join(' ')).toContain('--bind /work/repo /work/repo --chdir /work/repo');
+    // The worker's own tree (and its .env) is hidden from the command
+    expect(bwrap.join(' ')).toContain(`--tmpfs ${process.cwd()}`);
+    expect(bwrap.slice(-2)).toEqual(['npm', 'test']);
+
+    expect(sandboxArgv('bwrap', ['npm', 'ci'], { ...opts, network: true })).toContain('--share-net');
+
+    // The workspace root (and with it every mirror) is masked, then the checkout's own mirror comes back read-only
+    const scoped = sandboxArgv('bwrap', ['git', 'status'], { ...opts, gitDir: '/work/mirrors/acme__app.git' }).join(' ');
+    expect(scoped.indexOf('--ro-bind /work/mirrors/acme__app.git /work/mirrors/acme__app.git')).toBeGreaterThan(scoped.lastIndexOf('--tmpfs'));
+  });
+
+  it('should keep sandbox homes per repository and discard unscoped ones', async () => {
+    const runner = new SandboxRunner('rlimit');
+    const home = async (repoKey?: string) => (await runner.run(['bash', '-c', 'touch "$HOME/.bashrc"; echo "$HOME"'], { cwd: os.tmpdir(), repoKey, timeoutMs: 10_000 })).stdout.trim();
+
+    const app = await home('acme__app');
+    expect(app).toBe(await home('acme__app'));
+    expect(await home('other__lib')).not.toBe(app);
+    expect(existsSync(path.join(app, '.bashrc'))).toBe(true);
+
+    const throwaway = await home();
+    expect(path.dirname(throwaway)).toBe(cfg.sandbox.homeDir);
+    expect(existsSync(throwaway)).toBe(false);
+  });
+
+  it.skipIf(!hasBwrap)('should let git read a cached worktree inside bubblewrap', async () => {
+    const tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'sandbox-git-'));
+    const origin = path.join(tmp, 'origin.git');
+    const env = { GIT_AUTHOR_NAME: 't', GIT_AUTHOR_EMAIL: 't@t', GIT_COMMITTER_NAME: 't', GIT_COMMITTER_EMAIL: 't@t' };
+    await runGit(['init', '-q', '--bare', '--initial-branch=main', origin], { cwd: tmp });
+    await runGit(['clone', '-q', origin, 'seed'], { cwd: tmp });
+    await fs.writeFile(path.join(tmp, 'seed', 'README.md'), 'v1\n');
+    await runGit(['add', '-A'], { cwd: path.join(tmp, 'seed') });
+    await runGit(['commit', '-q', '-m', 'init'], { cwd: path.join(tmp, 'seed'), env });
+    await runGit(['push', '-q', 'origin', 'HEAD:main'], { cwd: path.join(tmp, 'seed') });
+
+    const previousRoot = cfg.workspace.tempRoot;
+    cfg.workspace.tempRoot = path.join(tmp, 'cache');
+    const checkout = await new WorkspaceCache().checkout({ owner: 'acme', repo: 'app', branch: 'ai/issue-1-agent', cloneUrl: origin });
+    try {
+      const head = await runGit(['rev-parse', 'HEAD'], { cwd: checkout.dir });
+      const result = await new SandboxRunner('bwrap').run(['git', 'rev-parse', 'HEAD'], { cwd: checkout.dir, gitDir: checkout.gitDir, repoKey: checkout.repoKey, timeoutMs: 10_000 });
+
+      expect(result.stderr).toBe('');
+      expect(result.stdout.trim()).toBe(head.stdout.trim());
+    } finally {
+      await checkout.release();
+      cfg.workspace.tempRoot = previousRoot;
+    }
+  });
+
+  it('should run commands with a scrubbed environment and record them in the transcript', async () => {
+    process.env.OPENAI_API_KEY = 'sk-test-secret';
+    const transcript = new CommandTranscript();
+    const runner = new SandboxRunner('rlimit');
+
+    const result = await runner.run(['bash', '-c', 'echo "key=${OPENAI_API_KEY:-none} ci=$CI"; exit 3'], { cwd: os.tmpdir(), transcript, timeoutMs: 10_000 });
+
+    expect(result.command).toEqual(['bash', '-c', 'echo "key=${OPENAI_API_KEY:-none} ci=$CI"; exit 3']);
+    expect(result.exitCode).toBe(3);
+    expect(result.stdout.trim()).toBe('key=none ci=true');
+    expect(transcript.entries).toHaveLength(1);
+    expect(transcript.entries[0]).toMatchObject({ backend: 'rlimit', network: false, exitCode: 3, cwd: os.tmpdir(), stdout: 'key=none ci=true\n' });
+    delete process.env.OPENAI_API_KEY;
+  });
+
+  it('should refuse to fall back to an unisolated backend in auto mode', async () => {
+    const previous = process.env.PATH;
+    process.env.PATH = '/nonexistent';
+    try {
+      await expect(new SandboxRunner('auto').backend()).rejects.toBeInstanceOf(SandboxUnavailableError);
+    } finally {
+      process.env.PATH = previous;
+    }
+  });
+});
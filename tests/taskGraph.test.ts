@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { findDependencyCycle, validateTaskGraph, readyTasks, blockedTasks, stallingFailures, renderTaskGraph } from '../src/ai/taskGraph.js';
+import { parsePlanOutput } from '../src/ai/outputSchemas.js';
+import { cfg } from '../src/config.js';
+
+const wrap = (body: string) => `${cfg.planMarkers.start}\n${body}\n${cfg.planMarkers.end}`;
+const row = (externalId: string, status: string, dependsOn: string[] = []) => ({ externalId, status, dependsOn });
+
+describe('Task Graph', () => {
+  it('should report cycles, self dependencies and unknown prerequisites', () => {
+    const acyclic = [{ id: 'A', dependsOn: [] }, { id: 'B', dependsOn: ['A'] }, { id: 'C', dependsOn: ['A', 'B'] }];
+    expect(findDependencyCycle(acyclic)).toBeNull();
+    expect(validateTaskGraph(acyclic)).toEqual([]);
+
+    const cyclic = [{ id: 'A', dependsOn: ['C'] }, { id: 'B', dependsOn: ['A'] }, { id: 'C', dependsOn: ['B'] }];
+    expect(findDependencyCycle(cyclic)).toEqual(['A', 'C', 'B', 'A']);
+    expect(validateTaskGraph(cyclic)).toEqual(['dependency cycle A -> C -> B -> A']);
+
+    expect(validateTaskGraph([{ id: 'A', dependsOn: ['A', 'Z'] }])).toEqual([
+      'task A depends on itself',
+      'task A depends on unknown task Z'
+    ]);
+  });
+
+  it('should send unschedulable plans back through validation', () => {
+    const plan = wrap('tasks:\n  - id: T1\n    title: Code\n    dependsOn: [T2]\n  - id: T2\n    title: Tests\n    dependsOn: [T1]');
+
+    expect(parsePlanOutput(plan)).toMatchObject({ ok: false, error: expect.stringContaining('dependency cycle T1 -> T2 -> T1') });
+  });
+
+  it('should only schedule pending tasks whose prerequisites are verified', () => {
+    const tasks = [
+      row('code', 'verified'),
+      row('api', 'pending', ['code']),
+      row('tests', 'pending', ['api']),
+      row('docs', 'pending', ['removed'])
+    ];
+
+    expect(readyTasks(tasks).map(t => t.externalId)).toEqual(['api', 'docs']);
+    expect(blockedTasks(tasks)).toEqual([{ task: tasks[2], waitingOn: ['api'] }]);
+
+    tasks[1]!.status = 'verified';
+    expect(readyTasks(tasks).map(t => t.externalId)).toEqual(['tests', 'docs']);
+  });
+
+  it('should report failed tasks once nothing else can run', () => {
+    const tasks = [row('code', 'failed'), row('api', 'pending', ['code']), row('docs', 'pending')];
+
+    expect(stallingFailures(tasks)).toEqual([]);
+    tasks[2]!.status = 'in_progress';
+    expect(stallingFailures(tasks)).toEqual([]);
+    tasks[2]!.status = 'verified';
+    expect(stallingFailures(tasks)).toEqual([tasks[0]]);
+  });
+
+  it('should render the plan as a mermaid flowchart', () => {
+    const graph = renderTaskGraph([
+      { id: 'T1', title: 'Add "retry" option', dependsOn: [] },
+      { id: 'T2', title: 'Test retries', dependsOn: ['T1'] }
+    ]);
+
+    expect(graph.split('\n')).toEqual([
+      '```mermaid',
+      'graph TD',
+      '  t0["T1: Add #quot;retry#quot; option"]',
+      '  t1["T2: Test retries"]',
+      '  t0 --> t1',
+      '```'
+    ]);
+  });
+});
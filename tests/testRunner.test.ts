@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { TestRunner, detectTestCommand, countFailures, parseCoverage, trimFailureOutput } from '../src/services/testRunner.js';
+import { patchUser } from '../src/ai/promptTemplates.js';
+
+function workspace(files: Record<string, string>, testOutput: (stashed: boolean) => { exitCode: number; stdout: string }) {
+  let stashed = false;
+  const calls: string[] = [];
+  const result = (command: string[], exitCode: number, stdout = '') =>
+    ({ command, ok: exitCode === 0, exitCode, signal: null, stdout, stderr: '', timedOut: false, truncated: false, durationMs: 10 });
+  return {
+    calls,
+    exists: async (p: string) => p in files,
+    readFile: async (p: string) => {
+      if (!(p in files)) throw new Error(`ENOENT: ${p}`);
+      return files[p]!;
+    },
+    run: async (command: string[]) => {
+      const line = command.join(' ');
+      calls.push(line);
+      if (line.startsWith('git stash push')) stashed = true;
+      if (line.startsWith('git stash pop')) stashed = false;
+      return result(command, 0);
+    },
+    exec: async (command: string[], opts: { network?: boolean } = {}) => {
+      const line = command.join(' ');
+      calls.push(opts.network ? `${line} (network)` : line);
+      if (line.startsWith('npm ci')) return result(command, 0);
+      const { exitCode, stdout } = testOutput(stashed);
+      return result(command, exitCode, stdout);
+    }
+  };
+}
+
+const pkg = (scripts: Record<string, string>) => JSON.stringify({ name: 'app', scripts });
+
+describe('Post-apply Test Runner', () => {
+  it('should detect the test command from package scripts, test configs and pytest markers', async () => {
+    const green = () => ({ exitCode: 0, stdout: '' });
+
+    expect(await detectTestCommand(workspace({ 'package.json': pkg({ test: 'vitest run' }), 'package-lock.json': '{}' }, green)))
+      .toEqual({ framework: 'npm-script', command: ['npm', 'test'], install: ['npm', 'ci', '--no-audit', '--no-fund'] });
+    expect(await detectTestCommand(workspace({ 'package.json': pkg({ test: 'jest' }), 'pnpm-lock.yaml': '', node_modules: '' }, green)))
+      .toEqual({ framework: 'npm-script', command: ['pnpm', 'test'], install: undefined });
+    expect(await detectTestCommand(workspace({ 'package.json': pkg({ test: 'echo "Error: no test specified" && exit 1' }), 'vitest.config.ts': '', node_modules: '' }, green)))
+      .toMatchObject({ framework: 'vitest', command: ['npx', 'vitest', 'run'] });
+    expect(await detectTestCommand(workspace({ 'pyproject.toml': '[tool.pytest.ini_options]\naddopts = "-q"' }, green)))
+      .toEqual({ framework: 'pytest', command: ['python', '-m', 'pytest', '-q'] });
+    expect(await detectTestCommand(workspace({ 'README.md': '' }, green))).toBeNull();
+  });
+
+  it('should parse failure counts and trim output for the model', () => {
+    expect(countFailures(' Test Files  2 failed | 9 passed\n      Tests  4 failed | 96 passed (100)')).toBe(4);
+    expect(countFailures('Tests:       1 failed, 12 passed, 13 total')).toBe(1);
+    expect(countFailures('===== 3 failed, 40 passed in 1.2s =====')).toBe(3);
+    expect(countFailures('Segmentation fault')).toBeUndefined();
+
+    const noisy = ['\u001b[32m ✓ src/a.test.ts\u001b[0m', ' FAIL src/b.test.ts > adds', 'AssertionError: expected 2 to be 3', ...Array(200).fill('    at frame (b.ts:1:1)')].join('\n');
+    const trimmed = trimFailureOutput(noisy, 400);
+    expect(trimmed).not.toContain('✓');
+    expect(trimmed.startsWith('FAIL src/b.test.ts > adds\nAssertionError')).toBe(true);
+    expect(trimmed).toContain('chars trimmed');
+    expect(trimmed.length).toBeLessThan(460);
+  });
+
+  it('should parse coverage summaries from istanbul and pytest-cov output', () => {
+    expect(parseCoverage('File      | % Stmts | % Branch | % Funcs | % Lines |\nAll files |   85.71 |       50 |     100 |   82.5 |')).toEqual({ statements: 0.8571, branches: 0.5, functions: 1, lines: 0.825 });
+    expect(parseCoverage('Statements   : 90% ( 9/10 )\nLines        : 88.89% ( 8/9 )')).toEqual({ statements: 0.9, lines: 0.8889 });
+    expect(parseCoverage('TOTAL                 120     12    90%')).toEqual({ lines: 0.9 });
+    expect(parseCoverage('Tests  4 passed (4)')).toBeUndefined();
+  });
+
+  it('should tolerate failures the branch already had before the patch', async () => {
+    const ws = workspace({ 'package.json': pkg({ test: 'vitest run' }), 'package-lock.json': '{}' }, stashed =>
+      ({ exitCode: 1, stdout: stashed ? 'Tests  2 failed | 10 passed' : 'Tests  2 failed | 11 passed' }));
+    const runner = new TestRunner(ws);
+
+    const report = await runner.check();
+
+    expect(report).toMatchObject({ command: 'npm test', ok: false, passed: true, failed: 2, baselineFailed: 2 });
+    expect(ws.calls).toEqual(['npm ci --no-audit --no-fund (network)', 'npm test', 'git stash push --include-untracked -q', 'npm test', 'git stash pop -q']);
+
+    await runner.check();
+    expect(ws.calls.filter(c => c.startsWith('git stash push'))).toHaveLength(1);
+  });
+
+  it('should fail new test failures and feed them into the fix-up prompt', async () => {
+    const ws = workspace({ 'package.json': pkg({ test: 'jest' }), node_modules: '' }, stashed =>
+      stashed ? { exitCode: 0, stdout: 'Tests: 5 passed' } : { exitCode: 1, stdout: ' FAIL src/retry.test.ts\nTests:       1 failed, 4 passed' });
+
+    const report = (await new TestRunner(ws).check())!;
+
+    expect(report).toMatchObject({ passed: false, failed: 1, baselineFailed: 0 });
+    const prompt = patchUser({
+      tasks: [],
+      trimmedFiles: [],
+      testFeedback: { command: report.command, output: report.output, previousDiff: 'diff --git a/src/retry.ts b/src/retry.ts' }
+    });
+    expect(prompt).toContain('`npm test` failed:\nFAIL src/retry.test.ts');
+    expect(prompt).toContain('Previous patch:\ndiff --git a/src/retry.ts');
+  });
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const db = vi.hoisted(() => ({
+  config: null as any,
+  spent: 0,
+  usageRows: [] as any[],
+  agentUpdates: [] as any[]
+}));
+const createComment = vi.fn();
+
+vi.mock('../src/octokit.js', () => ({
+  getInstallationOctokit: async () => ({ rest: { issues: { createComment } } })
+}));
+
+vi.mock('../src/storage/prisma.js', () => ({
+  prisma: {
+    installationConfig: { findUnique: async () => db.config },
+    llmUsage: {
+      create: async ({ data }: any) => { db.usageRows.push(data); },
+      aggregate: async () => ({ _sum: { costUsd: db.spent } })
+    },
+    issueAgent: { update: async (args: any) => { db.agentUpdates.push(args); } }
+  }
+}));
+
+describe('Usage Accounting', () => {
+  const agent = { id: 'acme_app_7', installationId: 1n, owner: 'acme', repo: 'app', issueNumber: 7, phase: 'executing' };
+
+  beforeEach(() => {
+    db.config = null;
+    db.spent = 0;
+    db.usageRows = [];
+    db.agentUpdates = [];
+    createComment.mockReset();
+  });
+
+  it('should price models by longest prefix and treat unknown models as free', async () => {
+    const { estimateCostUsd } = await import('../src/services/usageService.js');
+
+    expect(estimateCostUsd('gpt-4o-mini-2024-07-18', 1_000_000, 0)).toBeCloseTo(0.15);
+    expect(estimateCostUsd('gpt-4o', 1_000_000, 1_000_000)).toBeCloseTo(12.5);
+    expect(estimateCostUsd('qwen2.5-coder:7b', 50_000, 50_000)).toBe(0);
+  });
+
+  it('should report reported or estimated tokens per phase from chat providers', async () => {
+    const { ChatProvider } = await import('../src/providers/chatProvider.js');
+    class Stub extends ChatProvider {
+      constructor(private usage?: { promptTokens: number; completionTokens: number }) { super('gpt-4o'); }
+      name() { return 'stub'; }
+      protected async complete() { return { text: 'NO_CHANGES', ...this.usage }; }
+    }
+    const seen: any[] = [];
+    const ctx = { tasks: [], repoSnapshotFiles: [], guidance: { iteration: 0, confidence: 0, maxTasksAllowed: 1 } };
+
+    const reported = new Stub({ promptTokens: 120, completionTokens: 3 });
+    reported.setUsageListener(u => seen.push(u));
+    await reported.generatePatch(ctx);
+    const estimated = new Stub();
+    estimated.setUsageListener(u => seen.push(u));
+    await estimated.generatePatch(ctx);
+
+    expect(seen[0]).toEqual({ provider: 'stub', model: 'gpt-4o', phase: 'patch', promptTokens: 120, completionTokens: 3, estimated: false });
+    expect(seen[1].estimated).toBe(true);
+    expect(seen[1].promptTokens).toBeGreaterThan(0);
+  });
+
+  it('should persist usage with its estimated cost', async () => {
+    const { usageService } = await import('../src/services/usageService.js');
+
+    await usageService.record({ installationId: 1, agentId: agent.id }, { provider: 'openai', model: 'gpt-4o', phase: 'plan', promptTokens: 1000, completionTokens: 500 });
+
+    expect(db.usageRows[0]).toMatchObject({ installationId: 1n, issueAgentId: agent.id, phase: 'plan', estimated: false });
+    expect(db.usageRows[0].costUsd).toBeCloseTo(0.0075);
+  });
+
+  it('should pause agents and comment once when the budget is exhausted', async () => {
+    const { usageService } = await import('../src/services/usageService.js');
+
+    expect(await usageService.enforceBudget(agent)).toBe(false);
+
+    db.config = { dailyBudgetUsd: null, monthlyBudgetUsd: 20 };
+    db.spent = 21.5;
+    expect(await usageService.enforceBudget(agent)).toBe(true);
+    expect(db.agentUpdates[0].data).toEqual({ phase: 'budget_exceeded', blocked: true });
+    expect(createComment).toHaveBeenCalledTimes(1);
+    expect(createComment.mock.calls[0]![0].body).toContain('monthly LLM budget');
+
+    expect(await usageService.enforceBudget({ ...agent, phase: 'budget_exceeded' })).toBe(true);
+    expect(createComment).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Prisma } from '@prisma/client';
+
+const db = vi.hoisted(() => ({
+  files: [] as any[],
+  documents: [] as any[],
+  raw: [] as Prisma.Sql[],
+  rawResult: [] as any[],
+  extension: true
+}));
+
+vi.mock('../src/storage/prisma.js', () => {
+  const matches = (row: any, where: any) => Object.entries(where).every(([k, v]: [string, any]) =>
+    v && typeof v === 'object' && 'in' in v ? v.in.includes(row[k]) : row[k] === v);
+  return {
+    prisma: {
+      fileEmbedding: { findMany: async ({ where }: any) => db.files.filter(r => matches(r, where)) },
+      embeddingDocument: { findMany: async ({ where }: any) => db.documents.filter(r => matches(r, where)) },
+      $queryRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+        const sql = Prisma.sql(strings, ...values);
+        db.raw.push(sql);
+        if (sql.sql.includes('pg_extension')) {
+          if (!db.extension) throw new Error('relation "pg_extension" does not exist');
+          return [{ extname: 'vector' }];
+        }
+        return db.rawResult;
+      },
+      $executeRaw: async (strings: TemplateStringsArray, ...values: unknown[]) => {
+        db.raw.push(Prisma.sql(strings, ...values));
+        return 1;
+      }
+    }
+  };
+});
+
+describe('Vector Store', () => {
+  beforeEach(() => {
+    db.files = [
+      { id: 'f1', installationId: 1n, owner: 'acme', repo: 'app', path: 'src/a.ts', chunk: 0, model: 'local:hash-v1-3', vector: [1, 0, 0] },
+      { id: 'f2', installationId: 1n, owner: 'acme', repo: 'app', path: 'src/b.ts', chunk: 0, model: 'local:hash-v1-3', vector: [0.7, 0.7, 0] },
+      { id: 'f3', installationId: 1n, owner: 'acme', repo: 'app', path: 'src/c.ts', chunk: 0, model: 'openai:text-embedding-3-small', vector: [1, 0, 0] },
+      { id: 'f4', installationId: 1n, owner: 'acme', repo: 'other', path: 'src/a.ts', chunk: 0, model: 'local:hash-v1-3', vector: [1, 0, 0] }
+    ];
+    db.documents = [
+      { id: 'd1', content: 'retry', metadata: '{"type":"technical","agent":"x"}', embedding: '[1,0,0]', type: 'technical', scope: 'memory', model: 'm' },
+      { id: 'd2', content: 'render', metadata: '{"type":"technical","agent":"y"}', embedding: '[1,0,0]', type: 'technical', scope: 'memory', model: 'm' }
+    ];
+    db.raw = [];
+    db.rawResult = [];
+    db.extension = true;
+  });
+
+  it('should rank rows of one model and repository by cosine similarity', async () => {
+    const { BruteForceVectorStore } = await import('../src/storage/vectorStore.js');
+    const store = new BruteForceVectorStore();
+
+    const matches = await store.query('file', [1, 0, 0], { filter: { model: 'local:hash-v1-3', owner: 'acme', repo: 'app' }, limit: 5 });
+
+    expect(matches.map(m => m.id)).toEqual(['f1', 'f2']);
+    expect(matches[0]!.score).toBeCloseTo(1);
+    expect(matches[0]!.row).toEqual(expect.objectContaining({ path: 'src/a.ts' }));
+    expect(matches[0]!.row.vector).toBeUndefined();
+
+    const strict = await store.query('file', [1, 0, 0], { filter: { model: 'local:hash-v1-3', repo: 'app', paths: ['src/b.ts'] }, minScore: 0.9 });
+    expect(strict).toEqual([]);
+  });
+
+  it('should filter documents by metadata and reject filters a collection cannot answer', async () => {
+    const { BruteForceVectorStore } = await import('../src/storage/vectorStore.js');
+    const store = new BruteForceVectorStore();
+
+    const matches = await store.query('document', [1, 0, 0], { filter: { model: 'm', scope: 'memory', metadata: { agent: 'y' } } });
+
+    expect(matches.map(m => [m.id, m.row.content, m.row.metadata.agent])).toEqual([['d2', 'render', 'y']]);
+    await expect(store.query('issue', [1], { filter: { model: 'm', paths: ['a'] } })).rejects.toThrow(/Unsupported issue filters: paths/);
+  });
+
+  it('should query pgvector through the indexed cast with filters in SQL', async () => {
+    const { PgVectorStore } = await import('../src/storage/vectorStore.js');
+    const store = new PgVectorStore();
+    db.rawResult = [{ id: 'd1', content: 'retry', metadata: '{"agent":"x"}', type: 'technical', scope: 'memory', score: 0.93 }];
+    const vector = Array.from({ length: 384 }, (_, i) => (i === 0 ? 1 : 0));
+
+    const matches = await store.query('document', vector, { filter: { model: 'm', scope: 'memory', metadata: { agent: 'x' } }, limit: 3, minScore: 0.5 });
+
+    const sql = db.raw[0]!;
+    expect(sql.sql).toContain('"vec"::vector(384) <=> ');
+    expect(sql.sql).toContain('"metadata"::jsonb @> ');
+    expect(sql.sql).toContain('FROM "EmbeddingDocument"');
+    expect(sql.values).toEqual(expect.arrayContaining(['m', 384, 'memory', '{"agent":"x"}', 3]));
+    expect(matches).toEqual([{ id: 'd1', score: 0.93, row: expect.objectContaining({ metadata: { agent: 'x' } }) }]);
+
+    await store.index('file', 'f1', [0.5, 0.5]);
+    expect(db.raw[1]!.sql).toContain('UPDATE "FileEmbedding"');
+    expect(db.raw[1]!.values).toEqual(['[0.5,0.5]', 2, 'f1']);
+  });
+
+  it('should use pgvector only when the extension is installed', async () => {
+    const { AutoVectorStore } = await import('../src/storage/vectorStore.js');
+
+    expect((await new AutoVectorStore('auto').resolve()).backend).toBe('pgvector');
+    expect(db.raw.at(-1)!.sql).toContain(`"column_name" = 'vec'`);
+    db.extension = false;
+    const fallback = new AutoVectorStore('auto');
+    expect((await fallback.resolve()).backend).toBe('bruteforce');
+    expect(fallback.backend).toBe('bruteforce');
+    expect((await new AutoVectorStore('pgvector').resolve()).backend).toBe('pgvector');
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFile as cpExecFile } from 'child_process';
+import { promisify } from 'util';
+import { WorkspaceCache } from '../src/git/workspaceCache.js';
+import { WorkspaceManager } from '../src/git/workspaceManager.js';
+
+const execFile = promisify(cpExecFile);
+const gitEnv = { ...process.env, GIT_AUTHOR_NAME: 't', GIT_AUTHOR_EMAIL: 't@t', GIT_COMMITTER_NAME: 't', GIT_COMMITTER_EMAIL: 't@t' };
+
+async function git(args: string[], cwd: string) {
+  return execFile('git', args, { cwd, env: gitEnv });
+}
+
+async function commitFile(repoDir: string, file: string, content: string) {
+  await fs.writeFile(path.join(repoDir, file), content);
+  await git(['add', '.'], repoDir);
+  await git(['commit', '-m', `update ${file}`], repoDir);
+  await git(['push', 'origin', 'HEAD:main'], repoDir);
+}
+
+describe('WorkspaceCache', () => {
+  let tmp: string;
+  let origin: string;
+  let seed: string;
+
+  beforeEach(async () => {
+    tmp = await fs.mkdtemp(path.join(os.tmpdir(), 'ws-cache-'));
+    origin = path.join(tmp, 'origin.git');
+    seed = path.join(tmp, 'seed');
+    await git(['init', '--bare', '--initial-branch=main', origin], tmp);
+    await git(['clone', origin, seed], tmp);
+    await git(['checkout', '-b', 'main'], seed);
+    await commitFile(seed, 'README.md', 'v1\n');
+  });
+
+  it('should check out agent branches from a reused mirror', async () => {
+    const cache = new WorkspaceCache({ root: path.join(tmp, 'cache'), quotaBytes: Number.MAX_SAFE_INTEGER });
+    const options = { owner: 'acme', repo: 'app', branch: 'ai/issue-1-agent', cloneUrl: origin };
+
+    const first = await cache.checkout(options);
+    expect(await fs.readFile(path.join(first.dir, 'README.md'), 'utf8')).toBe('v1\n');
+    await fs.writeFile(path.join(first.dir, 'scratch.txt'), 'leftover');
+    await first.release();
+
+    await commitFile(seed, 'README.md', 'v2\n');
+    const second = await cache.checkout(options);
+
+    expect(second.dir).toBe(first.dir);
+    expect(await fs.readFile(path.join(second.dir, 'README.md'), 'utf8')).toBe('v2\n');
+    await expect(fs.access(path.join(second.dir, 'scratch.txt'))).rejects.toThrow();
+    const { stdout } = await git(['rev-parse', '--abbrev-ref', 'HEAD'], second.dir);
+    expect(stdout.trim()).toBe('ai/issue-1-agent');
+    await second.release();
+  });
+
+  it('should serialize checkouts of the same repository', async () => {
+    const cache = new WorkspaceCache({ root: path.join(tmp, 'cache'), quotaBytes: Number.MAX_SAFE_INTEGER });
+    const events: string[] = [];
+
+    const first = await cache.checkout({ owner: 'acme', repo: 'app', branch: 'a', cloneUrl: origin });
+    const pending = cache.checkout({ owner: 'acme', repo: 'app', branch: 'b', cloneUrl: origin }).then(c => {
+      events.push('second-acquired');
+      return c;
+    });
+    await new Promise(resolve => setTimeout(resolve, 200));
+    events.push('first-released');
+    await first.release();
+    const second = await pending;
+    await second.release();
+
+    expect(events).toEqual(['first-released', 'second-acquired']);
+  });
+
+  it('should keep a long-held lock fresh so other workers cannot steal it', async () => {
+    const root = path.join(tmp, 'cache');
+    const holder = new WorkspaceCache({ root, quotaBytes: Number.MAX_SAFE_INTEGER, lockStaleMs: 300 });
+    const other = new WorkspaceCache({ root, quotaBytes: Number.MAX_SAFE_INTEGER, lockStaleMs: 300, lockTimeoutMs: 400 });
+
+    const held = await holder.checkout({ owner: 'acme', repo: 'app', branch: 'a', cloneUrl: origin });
+    await new Promise(resolve => setTimeout(resolve, 700));
+
+    expect(await other.isLocked('acme', 'app')).toBe(true);
+    await expect(other.checkout({ owner: 'acme', repo: 'app', branch: 'b', cloneUrl: origin })).rejects.toThrow('Timed out waiting for workspace lock');
+    await held.release();
+    expect(await other.isLocked('acme', 'app')).toBe(false);
+  });
+
+  it('should never store credentials in the mirror config', async () => {
+    const manager = new WorkspaceManager(undefined, new WorkspaceCache({ root: path.join(tmp, 'cache'), quotaBytes: Number.MAX_SAFE_INTEGER }));
+    const ws = await manager.ensureWorkspace({ owner: 'acme', repo: 'app', branch: 'a', cloneUrl: origin, installationToken: 'ghs_secret' });
+
+    const config = await fs.readFile(path.join(tmp, 'cache', 'mirrors', 'acme__app.git', 'config'), 'utf8');
+    expect(config).not.toContain('ghs_secret');
+    const { stdout } = await execFile('git', ['config', '--get', 'http.https://github.com/.extraheader'], { cwd: ws.root, env: ws.gitEnv() });
+    expect(stdout.trim()).toBe(`AUTHORIZATION: basic ${Buffer.from('x-access-token:ghs_secret').toString('base64')}`);
+    await ws.release();
+  });
+
+  it('should rebase onto commits pushed to the agent branch meanwhile before pushing', async () => {
+    const manager = new WorkspaceManager(undefined, new WorkspaceCache({ root: path.join(tmp, 'cache'), quotaBytes: Number.MAX_SAFE_INTEGER }));
+    const ws = await manager.ensureWorkspace({ owner: 'acme', repo: 'app', branch: 'ai/issue-1-agent', cloneUrl: origin, installationToken: 'ghs_secret' });
+    await ws.writeFile('src/a.ts', 'export {};\n');
+    await ws.stageAll(ws);
+    const commit = await ws.commit(ws, 'agent: tasks T1');
+
+    // The plan document sync commits to the same branch while the iteration runs
+    await git(['checkout', '-b', 'ai/issue-1-agent'], seed);
+    await fs.writeFile(path.join(seed, 'PLAN.md'), '# Plan\n');
+    await git(['add', '.'], seed);
+    await git(['commit', '-m', 'agent: plan v2'], seed);
+    await git(['push', 'origin', 'HEAD:ai/issue-1-agent'], seed);
+
+    const pushed = await ws.pushRebased(ws, 'ai/issue-1-agent');
+
+    expect(pushed.result.ok).toBe(true);
+    expect(pushed.sha).not.toBe(commit.sha);
+    const { stdout } = await git(['log', '--format=%s', 'ai/issue-1-agent'], origin);
+    expect(stdout.trim().split('\n').slice(0, 2)).toEqual(['agent: tasks T1', 'agent: plan v2']);
+    expect((await git(['rev-parse', 'ai/issue-1-agent'], origin)).stdout.trim()).toBe(pushed.sha);
+    await ws.release();
+  });
+
+  it('should evict least recently used worktrees over quota', async () => {
+    const cache = new WorkspaceCache({ root: path.join(tmp, 'cache'), quotaBytes: 0 });
+
+    const first = await cache.checkout({ owner: 'acme', repo: 'app', branch: 'old', cloneUrl: origin });
+    await first.release();
+
+    await expect(fs.access(first.dir)).rejects.toThrow();
+    expect(await fs.readdir(path.join(tmp, 'cache', 'mirrors'))).toEqual([]);
+  });
+});